@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import {IEntryTicket} from "./interfaces/IEntryTicket.sol";
+import {IEntryTicketManager} from "./interfaces/IEntryTicketManager.sol";
+
+/**
+ * @title DFSEntryTicket
+ * @author aiSports
+ * @notice Transferable ERC-1155 tickets for DFSEscrowManager entries (token ID = escrow ID, one unit per entry).
+ * @dev The manager mints tickets on join and burns them on leave. Every holder-to-holder transfer first calls
+ * the manager's `onTicketTransfer`, which moves the entries and reverts once the escrow has ended, so ticket
+ * balances always match the manager's entry counts. Mints skip the ERC-1155 acceptance check, so players and
+ * `joinEscrowFor` beneficiaries that are contracts without `onERC1155Received` (e.g. smart wallets) can still join;
+ * transfers between holders run the check as usual.
+ */
+contract DFSEntryTicket is ERC1155, IEntryTicket {
+    address public immutable manager;
+
+    error NotManager();
+    error InvalidManager();
+
+    constructor(address _manager, string memory _uri) ERC1155(_uri) {
+        if (_manager == address(0)) revert InvalidManager();
+        manager = _manager;
+    }
+
+    modifier onlyManager() {
+        if (msg.sender != manager) revert NotManager();
+        _;
+    }
+
+    /**
+     * @inheritdoc IEntryTicket
+     */
+    function mint(address _to, uint256 _escrowId, uint256 _amount) external onlyManager {
+        if (_to == address(0)) revert ERC1155InvalidReceiver(address(0));
+
+        uint256[] memory ids = new uint256[](1);
+        uint256[] memory values = new uint256[](1);
+        ids[0] = _escrowId;
+        values[0] = _amount;
+        // `_update` rather than `_mint`, which would call `onERC1155Received` on contract recipients
+        _update(address(0), _to, ids, values);
+    }
+
+    /**
+     * @inheritdoc IEntryTicket
+     */
+    function burn(address _from, uint256 _escrowId, uint256 _amount) external onlyManager {
+        _burn(_from, _escrowId, _amount);
+    }
+
+    /**
+     * @dev Lets the manager move the entries behind each transferred ticket before balances change.
+     */
+    function _update(
+        address _from,
+        address _to,
+        uint256[] memory _ids,
+        uint256[] memory _values
+    ) internal override {
+        if (_from != address(0) && _to != address(0)) {
+            for (uint256 i = 0; i < _ids.length; i++) {
+                IEntryTicketManager(manager).onTicketTransfer(_from, _to, _ids[i], _values[i]);
+            }
+        }
+        super._update(_from, _to, _ids, _values);
+    }
+}
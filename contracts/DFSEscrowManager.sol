@@ -2,288 +2,296 @@
 pragma solidity ^0.8.20;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
-import {IVaultFactory} from "./interfaces/IVaultFactory.sol";
-import {IYearnVault} from "./interfaces/IYearnVault.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IEntryTicket} from "./interfaces/IEntryTicket.sol";
+import {IEntryTicketManager} from "./interfaces/IEntryTicketManager.sol";
+import {DFSEscrowManagerBase} from "./DFSEscrowManagerBase.sol";
 
 /**
  * @title DFSEscrowManager
  * @author aiSports
  * @notice This contract manages the creation, participation, and payout of PYUSD-based DFS contests on Flow EVM.
- * It integrates with Yearn V3 Vaults for secure fund custody, where each escrow gets its own dedicated vault.
- * The contract itself does not hold user funds for escrows; it acts as a role manager for the Yearn vaults.
+ * Fund custody is delegated to admin-registered strategy adapters (`IEscrowStrategy`), e.g. a dedicated
+ * Yearn V3 Vault per escrow, a shared ERC-4626 vault, or a plain no-yield hold. Each escrow picks its
+ * strategy at creation. Only lending-pool escrows hold funds in this contract between supply and payout.
  * @dev This is a DFS-specific variant that supports:
- * - PYUSD (6 decimals) instead of standard 18-decimal tokens
+ * - An admin-managed allowlist of escrow tokens (e.g. PYUSD, USDC) with per-token dues bounds
  * - Multi-entry support (up to maxEntriesPerUser entries per user)
  * - Higher participant/entry caps for DFS scale
  * - Shorter minimum escrow duration for daily contests
- * - Admin-settable maxEntriesPerUser configuration
+ * - Admin-settable maxEntriesPerUser configuration, with optional tighter per-escrow limits
+ * - Role-based access control: creators, payout operators, pausers and config admins
+ * - A pause with a guarded per-escrow emergency exit
+ * - UUPS upgrades behind an ERC-1967 proxy (see DFSEscrowManagerProxy), authorized by the default admin
  * The trust model assumes the organizer is responsible for triggering payouts correctly.
  * This contract is designed for standard ERC20 tokens and does not support fee-on-transfer or rebasing tokens.
  */
-contract DFSEscrowManager is ReentrancyGuard, Ownable {
+contract DFSEscrowManager is DFSEscrowManagerBase, Initializable, UUPSUpgradeable, IEntryTicketManager {
     using SafeERC20 for IERC20;
 
-    // --- Constants ---
-    uint256 public constant MAX_RECIPIENTS = 100; // Increased for DFS scale (from 30)
-    uint256 public constant MINIMUM_DUES = 1 * 1e6; // PYUSD has 6 decimals (changed from 1e18)
-    uint256 public constant MAX_LEAGUE_NAME_LENGTH = 50; // max length of the league name to prevent overflows
-    uint256 public constant MINIMUM_ESCROW_DURATION = 1 hours; // Shorter duration for daily contests (changed from 1 days)
-    uint256 public constant MAX_PARTICIPANTS_CAP = 100_000; // Increased for DFS scale (from 10_000)
-
-    // --- State Variables ---
-    address public immutable yearnVaultFactory;
-    uint256 public nextEscrowId;
-    
-    // Multi-entry configuration
-    uint256 public maxEntriesPerUser = 1000; // Admin-settable max entries per user per escrow
-
-    // Authorized creators whitelist
-    mapping(address => bool) public authorizedCreators;
-
-    // User-centric tracking
-    mapping(address => uint256[]) public createdEscrows;
-    mapping(address => uint256[]) public joinedEscrows;
-    uint256[] public activeEscrowIds;
-    
-    // Multi-entry tracking: escrowId => user => entry count
-    mapping(uint256 => mapping(address => uint256)) public userEntryCount;
-
-    struct Escrow {
-        address organizer;
-        IYearnVault yearnVault;
-        IERC20 token;
-        uint256 dues;
-        uint256 endTime;
-        mapping(address => bool) participants;
-        bool payoutsComplete;
-        uint256 maxParticipants;
-        address[] participantsList;
-        uint256 activeArrayIndex;
-        string leagueName;
-        uint256 totalEntries; // Total entries across all users for this escrow
-    }
-
-    mapping(uint256 => Escrow) public escrows;
-
-    // Overflow recipient mapping: escrowId => recipient address
-    // If unset (zero), defaults to escrow.organizer
-    mapping(uint256 => address) public overflowRecipient;
-
-    // --- Events ---
-    event EscrowCreated(
-        uint256 indexed escrowId,
-        address indexed organizer,
-        address yearnVault,
-        address indexed token,
-        uint256 dues,
-        uint256 endTime
-    );
-
-    event ParticipantJoined(uint256 indexed escrowId, address indexed participant, uint256 numEntries);
-
-    event WinningsDistributed(
-        uint256 indexed escrowId,
-        address[] winners,
-        uint256[] amounts,
-        address overflowRecipient,
-        uint256 overflowAmount
-    );
-
-    event OverflowRecipientSet(uint256 indexed escrowId, address indexed recipient);
-
-    event PoolFunded(uint256 indexed escrowId, address indexed contributor, uint256 amount);
-    
-    event MaxEntriesPerUserUpdated(uint256 newMaxEntriesPerUser);
-    
-    event AuthorizedCreatorAdded(address indexed creator);
-    event AuthorizedCreatorRemoved(address indexed creator);
-
-    // --- Errors ---
-    error InvalidToken();
-    error InvalidDues();
-    error EscrowEnded();
-    error AlreadyParticipating();
-    error NotOrganizer();
-    error EscrowNotEnded();
-    error PayoutsAlreadyComplete();
-    error TooManyRecipients();
-    error NoDuplicateWinners();
-    error PayoutArraysMismatch();
-    error PoolFull();
-    error InvalidAmount();
-    error LeagueNameTooLong();
-    error EndTimeTooSoon();
-    error InvalidMaxParticipants();
-    error InsufficientPool(uint256 totalPayout, uint256 maxWithdrawable);
-    error InsufficientWithdrawn(uint256 withdrawn, uint256 required);
-    error EmptyLeagueName();
-    error WinnerNotParticipant();
-    error InvalidMaxEntries();
-    error ExceedsMaxEntriesPerUser();
-    error ExceedsMaxParticipants();
-    error NotAuthorizedCreator();
+    // Settlement, refund and lending logic, executed via delegatecall (see DFSSettlementModule)
+    address public immutable settlementModule;
+    // Escrow creation and organizer settings, executed via delegatecall (see DFSEscrowSetupModule)
+    address public immutable setupModule;
 
     // --- Constructor ---
-    constructor(address _yearnVaultFactory) Ownable(msg.sender) {
-        yearnVaultFactory = _yearnVaultFactory;
-        // Auto-authorize the owner to create escrows
-        authorizedCreators[msg.sender] = true;
-        emit AuthorizedCreatorAdded(msg.sender);
-        // Initialize nextEscrowId to 1 so escrow IDs start at 1
-        nextEscrowId = 1;
+    // Sets up an implementation; the modules are immutables, so an upgrade can also swap them
+    constructor(address _settlementModule, address _setupModule) {
+        if (_settlementModule.code.length == 0) revert InvalidSettlementModule();
+        if (_setupModule.code.length == 0) revert InvalidSetupModule();
+        settlementModule = _settlementModule;
+        setupModule = _setupModule;
+        _disableInitializers();
     }
 
-    // --- Modifiers ---
-    
     /**
-     * @notice Modifier to ensure only authorized creators can create escrows.
+     * @notice Initializes the manager's storage behind its proxy; runs once, in the proxy's deployment.
+     * @param _admin The account that starts with every role and receives protocol fees until changed.
      */
-    modifier onlyAuthorizedCreator() {
-        if (!authorizedCreators[msg.sender]) revert NotAuthorizedCreator();
-        _;
+    function initialize(address _admin) external initializer {
+        if (_admin == address(0)) revert InvalidToken();
+        // The admin starts with every role and hands them out (e.g. config admin to a multisig)
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        _grantRole(CONFIG_ADMIN_ROLE, _admin);
+        _grantRole(PAUSER_ROLE, _admin);
+        _grantRole(CREATOR_ROLE, _admin);
+        // Fees go to the admin until a dedicated recipient is configured
+        feeRecipient = _admin;
+        // Initialize nextEscrowId to 1 so escrow IDs start at 1
+        nextEscrowId = 1;
+        maxEntriesPerUser = 1000;
     }
 
     // --- External Functions ---
 
     /**
-     * @notice Creates a new prize pool (escrow).
-     * @dev Deploys a new Yearn V3 Vault to hold the funds for this escrow.
-     * Note: For DFS, the organizer does NOT automatically join upon creation.
-     * @param _token The ERC20 token for the prize pool (typically PYUSD).
-     * @param _dues The amount required to join (in token's native decimals, e.g. 1e6 for PYUSD).
-     * @param _endTime The timestamp when the escrow closes for new participants.
-     * @param _vaultName The name for the new Yearn Vault.
-     * @param _maxParticipants The maximum number of entries allowed (interpreted as max entries, not unique wallets).
-     * @param _overflowRecipient Optional address to receive surplus funds. If zero, defaults to organizer.
+     * @notice Creates a new prize pool (escrow) using the default custody strategy.
+     * @dev Executed by {DFSEscrowSetupModule-createEscrow} via delegatecall.
      */
     function createEscrow(
-        address _token,
-        uint256 _dues,
-        uint256 _endTime,
-        string calldata _vaultName,
-        uint256 _maxParticipants,
-        address _overflowRecipient
-    ) external nonReentrant onlyAuthorizedCreator {
-        if (_token == address(0)) revert InvalidToken();
-        if (_dues < MINIMUM_DUES) revert InvalidDues();
-        if (bytes(_vaultName).length == 0) revert EmptyLeagueName();
-        if (bytes(_vaultName).length > MAX_LEAGUE_NAME_LENGTH) revert LeagueNameTooLong();
-        if (_endTime < block.timestamp + MINIMUM_ESCROW_DURATION) revert EndTimeTooSoon();
-        if (_maxParticipants == 0 || _maxParticipants > MAX_PARTICIPANTS_CAP) revert InvalidMaxParticipants();
-
-        uint256 escrowId = nextEscrowId;
-
-        // Deploy a new Yearn vault for this escrow.
-        // The DFSEscrowManager will be the role_manager, giving it control over the vault.
-        // For simplicity, the vault symbol is derived from its name.
-        // Sanitize a symbol from the provided name: uppercase A-Z0-9 only, max 11 chars
-        string memory sanitizedSymbol = _sanitizeSymbol(_vaultName);
-
-        address newVaultAddress = IVaultFactory(yearnVaultFactory).deploy_new_vault(
-            _token,
-            _vaultName,
-            sanitizedSymbol,
-            address(this), // role_manager
-            0 // profit_max_unlock_time
-        );
-
-        // --- Configure the new vault ---
-        IYearnVault newVault = IYearnVault(newVaultAddress);
-
-        // As the role_manager, the DFSEscrowManager gives itself the DEPOSIT_LIMIT_MANAGER role.
-        // The role enum is: DEPOSIT_LIMIT_MANAGER = 2**8 = 256
-        newVault.set_role(address(this), 256);
-
-        // With the new role, it sets the deposit limit to be effectively infinite.
-        newVault.set_deposit_limit(type(uint256).max, true);
-
-        // Store the new escrow's data.
-        Escrow storage newEscrow = escrows[escrowId];
-        newEscrow.organizer = msg.sender;
-        newEscrow.yearnVault = newVault;
-        newEscrow.token = IERC20(_token);
-        newEscrow.dues = _dues;
-        newEscrow.endTime = _endTime;
-        newEscrow.maxParticipants = _maxParticipants;
-        newEscrow.leagueName = _vaultName;
-        newEscrow.totalEntries = 0; // Initialize total entries to 0
-
-        // Track the created escrow
-        createdEscrows[msg.sender].push(escrowId);
-        newEscrow.activeArrayIndex = activeEscrowIds.length;
-        activeEscrowIds.push(escrowId);
-
-        nextEscrowId++;
-
-        // Set overflow recipient if provided
-        if (_overflowRecipient != address(0)) {
-            overflowRecipient[escrowId] = _overflowRecipient;
-            emit OverflowRecipientSet(escrowId, _overflowRecipient);
-        }
+        address,
+        uint256,
+        uint256,
+        string calldata,
+        uint256,
+        uint256,
+        uint256,
+        PayoutTier[] calldata,
+        address
+    ) external {
+        _delegateToSetupModule();
+    }
 
-        emit EscrowCreated(
-            escrowId,
-            msg.sender,
-            newVaultAddress,
-            _token,
-            _dues,
-            _endTime
-        );
+    /**
+     * @notice Creates a new prize pool (escrow) whose funds are held by a specific registered strategy.
+     * @dev Executed by {DFSEscrowSetupModule-createEscrowWithStrategy} via delegatecall.
+     */
+    function createEscrowWithStrategy(
+        address,
+        uint256,
+        uint256,
+        string calldata,
+        uint256,
+        uint256,
+        uint256,
+        PayoutTier[] calldata,
+        address,
+        address
+    ) external {
+        _delegateToSetupModule();
+    }
 
-        // NOTE: For DFS, organizer does NOT automatically join upon creation.
-        // Admin-created escrows start empty; users join by paying dues.
+    /**
+     * @notice Creates a new prize pool (escrow) whose funds are supplied to an Aave-style lending pool.
+     * @dev Executed by {DFSEscrowSetupModule-createEscrowWithPool} via delegatecall.
+     */
+    function createEscrowWithPool(
+        address,
+        uint256,
+        uint256,
+        string calldata,
+        uint256,
+        uint256,
+        uint256,
+        PayoutTier[] calldata,
+        address,
+        address
+    ) external {
+        _delegateToSetupModule();
     }
 
     // --- Internal Helpers ---
-    function _sanitizeSymbol(string memory name) internal pure returns (string memory) {
-        bytes memory src = bytes(name);
-        uint256 maxLen = 11;
-        bytes memory tmp = new bytes(maxLen);
-        uint256 len = 0;
-        for (uint256 i = 0; i < src.length && len < maxLen; i++) {
-            uint8 c = uint8(src[i]);
-            // convert lowercase to uppercase
-            if (c >= 97 && c <= 122) {
-                c = c - 32;
-            }
-            bool isAlpha = (c >= 65 && c <= 90); // A-Z
-            bool isDigit = (c >= 48 && c <= 57); // 0-9
-            if (isAlpha || isDigit) {
-                tmp[len] = bytes1(c);
-                len++;
-            }
-        }
-        if (len == 0) {
-            return "FV";
-        }
-        bytes memory out = new bytes(len);
-        for (uint256 j = 0; j < len; j++) {
-            out[j] = tmp[j];
+
+    /**
+     * @notice Restricts upgrades of the implementation behind the proxy to the default admin.
+     */
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    /**
+     * @notice Forwards the current call to the settlement module, which runs it against this contract's storage.
+     * @dev Reverts bubble up unchanged, so the module's custom errors surface as this contract's errors.
+     */
+    function _delegateToSettlementModule() internal {
+        Address.functionDelegateCall(settlementModule, msg.data);
+    }
+
+    /**
+     * @notice Forwards the current call to the setup module, which runs it against this contract's storage.
+     */
+    function _delegateToSetupModule() internal {
+        Address.functionDelegateCall(setupModule, msg.data);
+    }
+
+    /**
+     * @notice Applies an EIP-2612 permit from `_owner` to this contract.
+     * @dev Anyone can submit a permit seen in the mempool before the owner's transaction lands. That
+     * consumes the nonce and makes `permit` revert, but the allowance is still in place, so a failed
+     * permit only reverts if the allowance does not cover `_value`.
+     */
+    function _permit(
+        IERC20 _token,
+        address _owner,
+        uint256 _value,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) internal {
+        try IERC20Permit(address(_token)).permit(_owner, address(this), _value, _deadline, _v, _r, _s) {} catch {
+            if (_token.allowance(_owner, address(this)) < _value) revert PermitFailed();
         }
-        return string(out);
     }
 
     /**
      * @notice Joins an existing prize pool with a specified number of entries.
-     * @dev Transfers `dues * numEntries` from the caller into the escrow's Yearn Vault.
+     * @dev Transfers `dues * numEntries` from the caller into the escrow's strategy.
      * Supports multi-entry: users can join with multiple entries in a single transaction.
      * @param _escrowId The ID of the escrow to join.
      * @param _numEntries The number of entries to purchase (must be > 0).
      */
-    function joinEscrow(uint256 _escrowId, uint256 _numEntries) external nonReentrant {
+    function joinEscrow(uint256 _escrowId, uint256 _numEntries) external whenNotPaused nonReentrant {
+        _joinEscrow(_escrowId, msg.sender, msg.sender, _numEntries);
+    }
+
+    /**
+     * @notice Buys entries for another wallet, e.g. a gift or a fiat checkout paying in the player's name.
+     * @dev Dues are pulled from the caller and the entries are credited to `_beneficiary`, whose per-user
+     * limit applies. The caller stays the payer of record: the beneficiary cannot withdraw these entries
+     * with `leaveEscrow`, and cancellation refunds for them go to the caller.
+     * @param _escrowId The ID of the escrow to join.
+     * @param _beneficiary The player credited with the entries.
+     * @param _numEntries The number of entries to purchase (must be > 0).
+     */
+    function joinEscrowFor(
+        uint256 _escrowId,
+        address _beneficiary,
+        uint256 _numEntries
+    ) external whenNotPaused nonReentrant {
+        if (_beneficiary == address(0)) revert InvalidToken();
+        _joinEscrow(_escrowId, msg.sender, _beneficiary, _numEntries);
+    }
+
+    /**
+     * @notice Joins an existing prize pool using an EIP-2612 permit instead of a prior `approve`.
+     * @dev The permit must be signed by the caller for this contract as spender and a value of at
+     * least `dues * numEntries`. See `joinEscrow` for the join rules.
+     * @param _escrowId The ID of the escrow to join.
+     * @param _numEntries The number of entries to purchase (must be > 0).
+     * @param _deadline The permit deadline.
+     * @param _v The permit signature `v`.
+     * @param _r The permit signature `r`.
+     * @param _s The permit signature `s`.
+     */
+    function joinEscrowWithPermit(
+        uint256 _escrowId,
+        uint256 _numEntries,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+        _permit(escrow.token, msg.sender, escrow.dues * _numEntries, _deadline, _v, _r, _s);
+        _joinEscrow(_escrowId, msg.sender, msg.sender, _numEntries);
+    }
+
+    /**
+     * @notice Joins an escrow on behalf of a player who signed an EIP-712 `JoinRequest`.
+     * @dev Lets a relayer pay the gas for players who hold no native token. Entries are recorded
+     * for `_request.player` and dues are pulled from the player, who must have approved this contract.
+     * The request's nonce must equal `nonces(player)` and is consumed, so each signature works once.
+     * @param _request The signed join request.
+     * @param _signature The player's EIP-712 signature over `_request`.
+     */
+    function joinEscrowWithSignature(
+        JoinRequest calldata _request,
+        bytes calldata _signature
+    ) external whenNotPaused nonReentrant {
+        _useJoinRequest(_request, _signature);
+        _joinEscrow(_request.escrowId, _request.player, _request.player, _request.numEntries);
+    }
+
+    /**
+     * @notice Joins an escrow on behalf of a player using a signed `JoinRequest` and an EIP-2612 permit.
+     * @dev Same as `joinEscrowWithSignature`, but the player also signs a permit for at least
+     * `dues * numEntries`, so no prior approval (and no native token) is needed at all.
+     * @param _request The signed join request.
+     * @param _signature The player's EIP-712 signature over `_request`.
+     * @param _permitDeadline The permit deadline.
+     * @param _v The permit signature `v`.
+     * @param _r The permit signature `r`.
+     * @param _s The permit signature `s`.
+     */
+    function joinEscrowWithSignatureAndPermit(
+        JoinRequest calldata _request,
+        bytes calldata _signature,
+        uint256 _permitDeadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused nonReentrant {
+        _useJoinRequest(_request, _signature);
+        Escrow storage escrow = escrows[_request.escrowId];
+        _permit(escrow.token, _request.player, escrow.dues * _request.numEntries, _permitDeadline, _v, _r, _s);
+        _joinEscrow(_request.escrowId, _request.player, _request.player, _request.numEntries);
+    }
+
+    /**
+     * @notice Verifies a signed `JoinRequest` and consumes its nonce.
+     */
+    function _useJoinRequest(JoinRequest calldata _request, bytes calldata _signature) internal {
+        if (block.timestamp > _request.deadline) revert SignatureExpired();
+
+        bytes32 digest = hashJoinRequest(_request);
+        if (ECDSA.recover(digest, _signature) != _request.player) revert InvalidSignature();
+
+        _useCheckedNonce(_request.player, _request.nonce);
+        emit SignedJoinRelayed(_request.escrowId, _request.player, msg.sender, _request.nonce);
+    }
+
+    /**
+     * @notice Shared join logic for direct, permit, signed and gifted joins.
+     * @dev Records entries for `_participant` and pulls the dues from `_payer`.
+     */
+    function _joinEscrow(uint256 _escrowId, address _payer, address _participant, uint256 _numEntries) internal {
         if (_numEntries == 0) revert InvalidAmount();
         
         Escrow storage escrow = escrows[_escrowId];
 
+        if (escrow.cancelled) revert EscrowIsCancelled();
         if (block.timestamp > escrow.endTime) revert EscrowEnded();
         
         // Check if adding these entries would exceed the user's max entries per escrow
-        uint256 currentUserEntries = userEntryCount[_escrowId][msg.sender];
-        if (currentUserEntries + _numEntries > maxEntriesPerUser) {
-            revert ExceedsMaxEntriesPerUser();
+        uint256 currentUserEntries = userEntryCount[_escrowId][_participant];
+        uint256 entryLimit = getMaxEntriesPerUser(_escrowId);
+        if (currentUserEntries + _numEntries > entryLimit) {
+            revert ExceedsMaxEntriesPerUser(entryLimit);
         }
         
         // Check if adding these entries would exceed the escrow's max participants (interpreted as max entries)
@@ -292,50 +300,300 @@ contract DFSEscrowManager is ReentrancyGuard, Ownable {
         }
 
         // Update entry counts
-        userEntryCount[_escrowId][msg.sender] += _numEntries;
+        userEntryCount[_escrowId][_participant] += _numEntries;
         escrow.totalEntries += _numEntries;
         
         // If this is the user's first entry in this escrow, mark them as a participant
-        bool isFirstEntry = currentUserEntries == 0;
-        if (isFirstEntry) {
-            escrow.participants[msg.sender] = true;
-            escrow.participantsList.push(msg.sender);
-            joinedEscrows[msg.sender].push(_escrowId);
+        if (currentUserEntries == 0) {
+            _addParticipant(_escrowId, escrow, _participant);
         }
 
+        if (_payer != _participant) {
+            giftedEntryCount[_escrowId][_participant] += _numEntries;
+            purchasedEntryCount[_escrowId][_payer] += _numEntries;
+        }
+
+        _issueEntryIds(_escrowId, _participant, _numEntries);
+
         // Calculate total dues required
         uint256 totalDues = escrow.dues * _numEntries;
 
-        // The user must have approved this contract to spend their tokens.
+        // The user must have approved this contract to spend their tokens (directly or via permit).
         // First, transfer the funds from the user to this DFSEscrowManager contract.
-        escrow.token.safeTransferFrom(msg.sender, address(this), totalDues);
-        
-        // Then, approve the Yearn vault to pull the funds from this contract.
-        escrow.token.forceApprove(address(escrow.yearnVault), 0);
-        escrow.token.forceApprove(address(escrow.yearnVault), totalDues);
+        escrow.token.safeTransferFrom(_payer, address(this), totalDues);
+
+        // Then, hand the funds to the escrow's strategy (or hold them for a lending-pool escrow).
+        _depositToEscrow(_escrowId, escrow, totalDues);
 
-        // Finally, deposit the funds into the Yearn vault.
-        // The DFSEscrowManager contract receives the shares, acting as custodian for the participants.
-        escrow.yearnVault.deposit(totalDues, address(this));
+        if (escrow.ticketed) {
+            entryTicket.mint(_participant, _escrowId, _numEntries);
+        }
 
-        emit ParticipantJoined(_escrowId, msg.sender, _numEntries);
+        emit ParticipantJoined(_escrowId, _participant, _numEntries);
+        if (_payer != _participant) {
+            emit EntriesGifted(_escrowId, _payer, _participant, _numEntries);
+        }
     }
 
     /**
-     * @notice Sets the overflow recipient for an escrow.
-     * @dev Can only be called by the organizer before payouts are complete.
-     * @param _escrowId The ID of the escrow.
-     * @param _recipient The address to receive surplus funds (cannot be zero address).
+     * @notice Withdraws some or all of the caller's entries before the contest locks.
+     * @dev Returns `dues * numEntries` from the escrow's strategy to the caller (less any strategy slippage).
+     * A player left with zero entries is removed from the participant list (swap-and-pop, so list order
+     * is not preserved) and from `joinedEscrows`. Disabled `leaveCutoff` seconds before `endTime`.
+     * The caller's most recently received entry IDs are the ones withdrawn.
+     * Only entries the caller paid for can be withdrawn; entries bought for them via `joinEscrowFor` stay in.
+     * @param _escrowId The ID of the escrow to leave.
+     * @param _numEntries The number of entries to withdraw (must be > 0).
      */
-    function setOverflowRecipient(uint256 _escrowId, address _recipient) external {
+    function leaveEscrow(uint256 _escrowId, uint256 _numEntries) external whenNotPaused nonReentrant {
+        if (_numEntries == 0) revert InvalidAmount();
+
         Escrow storage escrow = escrows[_escrowId];
-        
-        if (msg.sender != escrow.organizer) revert NotOrganizer();
-        if (_recipient == address(0)) revert InvalidToken();
-        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
-        
-        overflowRecipient[_escrowId] = _recipient;
-        emit OverflowRecipientSet(_escrowId, _recipient);
+
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        if (block.timestamp > escrow.endTime) revert EscrowEnded();
+        if (escrow.endTime - block.timestamp < escrow.leaveCutoff) revert LeaveWindowClosed();
+
+        uint256 currentUserEntries = userEntryCount[_escrowId][msg.sender];
+        uint256 paidEntries = currentUserEntries - giftedEntryCount[_escrowId][msg.sender];
+        if (_numEntries > paidEntries) revert InsufficientEntries(_numEntries, paidEntries);
+
+        // --- EFFECTS (CEI) ---
+        userEntryCount[_escrowId][msg.sender] = currentUserEntries - _numEntries;
+        escrow.totalEntries -= _numEntries;
+        _moveLatestEntryIds(_escrowId, msg.sender, RETIRED_ENTRY_OWNER, _numEntries);
+
+        if (currentUserEntries == _numEntries) {
+            _removeParticipant(_escrowId, escrow, msg.sender);
+        }
+
+        // --- INTERACTIONS ---
+        if (escrow.ticketed) {
+            entryTicket.burn(msg.sender, _escrowId, _numEntries);
+        }
+        uint256 refundAmount = _withdrawAssets(_escrowId, escrow, escrow.dues * _numEntries);
+
+        emit ParticipantLeft(_escrowId, msg.sender, _numEntries, refundAmount);
+
+        escrow.token.safeTransfer(msg.sender, refundAmount);
+    }
+
+    /**
+     * @notice Moves entries along with a transfer of their entry tickets.
+     * @dev Can only be called by `entryTicket`, before the escrow ends. Like `leaveEscrow`, only entries
+     * the sender paid for can be moved, and they carry their refund on cancellation with them. The
+     * recipient is subject to the escrow's per-wallet entry limit and receives the sender's most recently
+     * received entry IDs.
+     * @param _from The current holder of the entries.
+     * @param _to The new holder of the entries.
+     * @param _escrowId The ID of the escrow (the ticket's token ID).
+     * @param _numEntries The number of entries to move.
+     */
+    function onTicketTransfer(
+        address _from,
+        address _to,
+        uint256 _escrowId,
+        uint256 _numEntries
+    ) external whenNotPaused nonReentrant {
+        if (msg.sender != address(entryTicket)) revert NotEntryTicket();
+
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        if (block.timestamp > escrow.endTime) revert TicketsLocked();
+        if (_from == _to || _numEntries == 0) return;
+
+        uint256 fromEntries = userEntryCount[_escrowId][_from];
+        uint256 paidEntries = fromEntries - giftedEntryCount[_escrowId][_from];
+        if (_numEntries > paidEntries) revert InsufficientEntries(_numEntries, paidEntries);
+
+        uint256 toEntries = userEntryCount[_escrowId][_to];
+        uint256 entryLimit = getMaxEntriesPerUser(_escrowId);
+        if (toEntries + _numEntries > entryLimit) revert ExceedsMaxEntriesPerUser(entryLimit);
+
+        userEntryCount[_escrowId][_from] = fromEntries - _numEntries;
+        userEntryCount[_escrowId][_to] = toEntries + _numEntries;
+
+        if (toEntries == 0) {
+            _addParticipant(_escrowId, escrow, _to);
+        }
+        if (fromEntries == _numEntries) {
+            _removeParticipant(_escrowId, escrow, _from);
+        }
+
+        _moveLatestEntryIds(_escrowId, _from, _to, _numEntries);
+
+        emit EntriesTransferred(_escrowId, _from, _to, _numEntries);
+    }
+
+    /**
+     * @notice Assigns the next `_numEntries` sequential entry IDs of an escrow to `_owner`.
+     */
+    function _issueEntryIds(uint256 _escrowId, address _owner, uint256 _numEntries) internal {
+        uint256 firstEntryId = entryIdCount[_escrowId] + 1;
+        entryIdCount[_escrowId] = firstEntryId + _numEntries - 1;
+        _setEntryRunOwner(_escrowId, firstEntryId, _numEntries, _owner);
+        _pushEntryRange(_escrowId, _owner, firstEntryId, _numEntries);
+
+        emit EntriesIssued(_escrowId, _owner, firstEntryId, _numEntries);
+    }
+
+    /**
+     * @notice Moves the `_numEntries` most recently received entry IDs of `_from` in an escrow to `_to`,
+     * or releases them if `_to` is RETIRED_ENTRY_OWNER.
+     */
+    function _moveLatestEntryIds(uint256 _escrowId, address _from, address _to, uint256 _numEntries) internal {
+        EntryRange[] storage fromRanges = userEntryRanges[_escrowId][_from];
+        while (_numEntries > 0) {
+            EntryRange storage range = fromRanges[fromRanges.length - 1];
+            uint256 rangeEntries = range.numEntries;
+            uint256 moved = _numEntries < rangeEntries ? _numEntries : rangeEntries;
+            uint256 firstMoved = range.firstEntryId + rangeEntries - moved;
+
+            if (moved == rangeEntries) {
+                fromRanges.pop();
+            } else {
+                range.numEntries = uint128(rangeEntries - moved);
+            }
+            _setEntryRunOwner(_escrowId, firstMoved, moved, _to);
+            if (_to != RETIRED_ENTRY_OWNER) {
+                _pushEntryRange(_escrowId, _to, firstMoved, moved);
+            }
+            _numEntries -= moved;
+        }
+    }
+
+    /**
+     * @notice Records `_owner` as the owner of a run of entry IDs, at its first ID and at every checkpoint in it.
+     * @dev Runs are only ever moved whole or by their tail (see _moveLatestEntryIds), and a user's runs are
+     * never merged, so a moved run holds no other run's first ID and the ID after it starts another run
+     * (or is not yet issued); overwriting its checkpoints leaves no stale owner inside or after it.
+     */
+    function _setEntryRunOwner(uint256 _escrowId, uint256 _firstEntryId, uint256 _numEntries, address _owner) internal {
+        mapping(uint256 => address) storage checkpoints = entryOwnerCheckpoints[_escrowId];
+        checkpoints[_firstEntryId] = _owner;
+
+        uint256 checkpoint = (_firstEntryId / ENTRY_CHECKPOINT_INTERVAL + 1) * ENTRY_CHECKPOINT_INTERVAL;
+        for (; checkpoint < _firstEntryId + _numEntries; checkpoint += ENTRY_CHECKPOINT_INTERVAL) {
+            checkpoints[checkpoint] = _owner;
+        }
+    }
+
+    /**
+     * @notice Appends a run of entry IDs to a user's runs. Consecutive runs are kept apart, as each one
+     * starts at its own checkpoint.
+     */
+    function _pushEntryRange(uint256 _escrowId, address _owner, uint256 _firstEntryId, uint256 _numEntries) internal {
+        userEntryRanges[_escrowId][_owner].push(
+            EntryRange({firstEntryId: uint128(_firstEntryId), numEntries: uint128(_numEntries)})
+        );
+    }
+
+    /**
+     * @notice Adds a player's first entry to an escrow's participant tracking.
+     */
+    function _addParticipant(uint256 _escrowId, Escrow storage escrow, address _participant) internal {
+        escrow.participants[_participant] = true;
+        escrow.participantIndex[_participant] = escrow.participantsList.length;
+        escrow.participantsList.push(_participant);
+        joinedEscrowIndex[_participant][_escrowId] = joinedEscrows[_participant].length;
+        joinedEscrows[_participant].push(_escrowId);
+    }
+
+    /**
+     * @notice Removes a player with no remaining entries from an escrow's participant tracking in O(1).
+     */
+    function _removeParticipant(uint256 _escrowId, Escrow storage escrow, address _participant) internal {
+        escrow.participants[_participant] = false;
+
+        // Swap-and-pop from the escrow's participant list
+        uint256 index = escrow.participantIndex[_participant];
+        address lastParticipant = escrow.participantsList[escrow.participantsList.length - 1];
+        escrow.participantsList[index] = lastParticipant;
+        escrow.participantIndex[lastParticipant] = index;
+        escrow.participantsList.pop();
+        delete escrow.participantIndex[_participant];
+
+        // Swap-and-pop from the player's joined escrows
+        uint256[] storage joined = joinedEscrows[_participant];
+        uint256 joinedIndex = joinedEscrowIndex[_participant][_escrowId];
+        uint256 lastEscrowId = joined[joined.length - 1];
+        joined[joinedIndex] = lastEscrowId;
+        joinedEscrowIndex[_participant][lastEscrowId] = joinedIndex;
+        joined.pop();
+        delete joinedEscrowIndex[_participant][_escrowId];
+    }
+
+    /**
+     * @notice Sets the overflow recipient for an escrow.
+     * @dev Executed by {DFSEscrowSetupModule-setOverflowRecipient} via delegatecall.
+     */
+    function setOverflowRecipient(uint256, address) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Sets how long before `endTime` players lose the ability to call `leaveEscrow`.
+     * @dev Executed by {DFSEscrowSetupModule-setLeaveCutoff} via delegatecall.
+     */
+    function setLeaveCutoff(uint256, uint256) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Moves an escrow's `endTime`, within `maxEndTimeExtension` of the `endTime` set at creation.
+     * @dev Executed by {DFSEscrowSetupModule-updateEndTime} via delegatecall.
+     */
+    function updateEndTime(uint256, uint256) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Declares or raises an escrow's guaranteed prize.
+     * @dev Executed by {DFSEscrowSetupModule-setGuaranteedPrize} via delegatecall.
+     */
+    function setGuaranteedPrize(uint256, uint256) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Deposits guarantee funds that cover the overlay of a guaranteed prize pool.
+     * @dev Executed by {DFSEscrowSetupModule-depositGuarantee} via delegatecall.
+     */
+    function depositGuarantee(uint256, uint256) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Sets the max entries per wallet for an escrow.
+     * @dev Executed by {DFSEscrowSetupModule-setEscrowMaxEntriesPerUser} via delegatecall.
+     */
+    function setEscrowMaxEntriesPerUser(uint256, uint256) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Starts handing an escrow over to a new organizer, who must call `acceptOrganizer`.
+     * @dev Executed by {DFSEscrowSetupModule-transferOrganizer} via delegatecall.
+     */
+    function transferOrganizer(uint256, address) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Completes a handover started with `transferOrganizer`.
+     * @dev Executed by {DFSEscrowSetupModule-acceptOrganizer} via delegatecall.
+     */
+    function acceptOrganizer(uint256) external {
+        _delegateToSetupModule();
+    }
+
+    /**
+     * @notice Approves or revokes a delegate operator who may settle an escrow for its organizer.
+     * @dev Executed by {DFSEscrowSetupModule-setEscrowOperator} via delegatecall.
+     */
+    function setEscrowOperator(uint256, address, bool) external {
+        _delegateToSetupModule();
     }
 
     /**
@@ -344,191 +602,466 @@ contract DFSEscrowManager is ReentrancyGuard, Ownable {
      * @param _escrowId The ID of the escrow to fund.
      * @param _amount The amount of tokens to add.
      */
-    function addToPool(uint256 _escrowId, uint256 _amount) external nonReentrant {
+    function addToPool(uint256 _escrowId, uint256 _amount) external whenNotPaused nonReentrant {
+        _addToPool(_escrowId, _amount);
+    }
+
+    /**
+     * @notice Adds funds to an escrow pool using an EIP-2612 permit instead of a prior `approve`.
+     * @dev The permit must be signed by the caller for this contract as spender and a value of at least `_amount`.
+     * @param _escrowId The ID of the escrow to fund.
+     * @param _amount The amount of tokens to add.
+     * @param _deadline The permit deadline.
+     * @param _v The permit signature `v`.
+     * @param _r The permit signature `r`.
+     * @param _s The permit signature `s`.
+     */
+    function addToPoolWithPermit(
+        uint256 _escrowId,
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused nonReentrant {
+        _permit(escrows[_escrowId].token, msg.sender, _amount, _deadline, _v, _r, _s);
+        _addToPool(_escrowId, _amount);
+    }
+
+    /**
+     * @notice Shared top-up logic for `addToPool` and `addToPoolWithPermit`.
+     */
+    function _addToPool(uint256 _escrowId, uint256 _amount) internal {
         if (_amount == 0) revert InvalidAmount();
 
         Escrow storage escrow = escrows[_escrowId];
 
+        if (escrow.cancelled) revert EscrowIsCancelled();
+
+        // Record the contribution so it can be refunded if the escrow is cancelled
+        poolContributions[_escrowId][msg.sender] += _amount;
+        escrow.totalContributions += _amount;
+
         // Transfer funds from the sender to this contract
         escrow.token.safeTransferFrom(msg.sender, address(this), _amount);
 
-        // Approve the vault to spend the tokens
-        escrow.token.forceApprove(address(escrow.yearnVault), 0);
-        escrow.token.forceApprove(address(escrow.yearnVault), _amount);
-
-        // Deposit into the Yearn vault
-        escrow.yearnVault.deposit(_amount, address(this));
+        // Hand the funds to the escrow's strategy (or hold them for a lending-pool escrow)
+        _depositToEscrow(_escrowId, escrow, _amount);
 
         emit PoolFunded(_escrowId, msg.sender, _amount);
     }
 
+    /**
+     * @notice Supplies a lending-pool escrow's pending funds to its Aave pool.
+     * @dev Executed by {DFSSettlementModule-investEscrowFunds} via delegatecall.
+     */
+    function investEscrowFunds(uint256) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Withdraws a lending-pool escrow's full position (principal plus yield) back into this contract.
+     * @dev Executed by {DFSSettlementModule-withdrawEscrowFunds} via delegatecall.
+     */
+    function withdrawEscrowFunds(uint256, uint256) external {
+        _delegateToSettlementModule();
+    }
+
     /**
      * @notice Distributes the winnings to the specified winners.
-     * @dev Can only be called by the organizer after the escrow has ended.
-     * Withdraws the total required amount from the Yearn Vault and distributes it.
-     * @param _escrowId The ID of the escrow to distribute.
-     * @param _winners An array of winner addresses.
-     * @param _amounts An array of amounts corresponding to each winner.
+     * @dev Executed by {DFSSettlementModule-distributeWinnings} via delegatecall.
      */
-    function distributeWinnings(
-        uint256 _escrowId,
-        address[] calldata _winners,
-        uint256[] calldata _amounts
-    ) external nonReentrant {
-        Escrow storage escrow = escrows[_escrowId];
+    function distributeWinnings(uint256, address[] calldata, uint256[] calldata) external {
+        _delegateToSettlementModule();
+    }
 
-        if (msg.sender != escrow.organizer) revert NotOrganizer();
-        if (block.timestamp < escrow.endTime) revert EscrowNotEnded();
-        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
-        if (_winners.length > MAX_RECIPIENTS) revert TooManyRecipients();
-        if (_winners.length != _amounts.length) revert PayoutArraysMismatch();
-        
-        // Handle zero winners case: withdraw all funds and send to overflow recipient
-        if (_winners.length == 0) {
-            uint256 maxWithdrawable = escrow.yearnVault.maxWithdraw(address(this));
-            
-            // Determine overflow recipient (defaults to organizer if not set)
-            address overflowTo = overflowRecipient[_escrowId];
-            if (overflowTo == address(0)) {
-                overflowTo = escrow.organizer;
-            }
-            
-            // Mark payouts as complete
-            escrow.payoutsComplete = true;
-            
-            // O(1) removal from the active list
-            uint256 indexToRemove = escrow.activeArrayIndex;
-            uint256 lastEscrowId = activeEscrowIds[activeEscrowIds.length - 1];
-            activeEscrowIds[indexToRemove] = lastEscrowId;
-            escrows[lastEscrowId].activeArrayIndex = indexToRemove;
-            activeEscrowIds.pop();
-            
-            // Emit event with overflow info
-            emit WinningsDistributed(_escrowId, _winners, _amounts, overflowTo, 0);
-            
-            // Withdraw all funds and send to overflow recipient
-            if (maxWithdrawable > 0) {
-                uint256 balanceBefore = escrow.token.balanceOf(address(this));
-                escrow.yearnVault.withdraw(maxWithdrawable, address(this), address(this));
-                uint256 withdrawnAmount = escrow.token.balanceOf(address(this)) - balanceBefore;
-                
-                if (withdrawnAmount > 0) {
-                    escrow.token.safeTransfer(overflowTo, withdrawnAmount);
-                }
-            }
-            
-            return;
-        }
+    /**
+     * @notice Distributes the prize pool to ranked winners using the escrow's payout table.
+     * @dev Executed by {DFSSettlementModule-distributeByPayoutTable} via delegatecall.
+     */
+    function distributeByPayoutTable(uint256, address[] calldata) external {
+        _delegateToSettlementModule();
+    }
 
+    /**
+     * @notice Distributes winnings to winning entries, paying each owner the sum of its entries' amounts.
+     * @dev Executed by {DFSSettlementModule-distributeWinningsByEntry} via delegatecall.
+     */
+    function distributeWinningsByEntry(uint256, uint256[] calldata, uint256[] calldata) external {
+        _delegateToSettlementModule();
+    }
 
-        // Use a memory array to track paid addresses to prevent duplicates in a single call.
-        address[] memory paidAddresses = new address[](_winners.length);
-        uint256 totalPayout;
-        for (uint256 i = 0; i < _winners.length; i++) {
-            address winner = _winners[i];
-            // Ensure each winner is a participant in the escrow
-            if (!escrow.participants[winner]) {
-                revert WinnerNotParticipant();
-            }
-            // Check for duplicates
-            for (uint256 j = 0; j < i; j++) {
-                if (paidAddresses[j] == winner) {
-                    revert NoDuplicateWinners();
-                }
-            }
-            paidAddresses[i] = winner;
-            totalPayout += _amounts[i];
-        }
+    /**
+     * @notice Distributes prizes to winners grouped by finishing position, splitting tied places evenly.
+     * @dev Executed by {DFSSettlementModule-distributeTiedWinnings} via delegatecall.
+     */
+    function distributeTiedWinnings(uint256, address[][] calldata, uint256[] calldata) external {
+        _delegateToSettlementModule();
+    }
 
-        uint256 maxWithdrawable = escrow.yearnVault.maxWithdraw(address(this));
+    /**
+     * @notice Proposes an escrow's final results, opening the challenge window before they can be paid.
+     * @dev Executed by {DFSSettlementModule-proposeResults} via delegatecall.
+     */
+    function proposeResults(uint256, bytes32) external {
+        _delegateToSettlementModule();
+    }
 
-        // Require that total payout does not exceed max withdrawable
-        if (totalPayout > maxWithdrawable) {
-            revert InsufficientPool(totalPayout, maxWithdrawable);
-        }
+    /**
+     * @notice Vetoes a pending results proposal during its challenge window.
+     * @dev Executed by {DFSSettlementModule-vetoResults} via delegatecall.
+     */
+    function vetoResults(uint256) external {
+        _delegateToSettlementModule();
+    }
 
-        // Determine overflow recipient (defaults to organizer if not set)
-        address overflowTo = overflowRecipient[_escrowId];
-        if (overflowTo == address(0)) {
-            overflowTo = escrow.organizer;
-        }
+    /**
+     * @notice Pays out a proposal that survived its challenge window.
+     * @dev Executed by {DFSSettlementModule-finalizeResults} via delegatecall.
+     */
+    function finalizeResults(uint256, address[] calldata, uint256[] calldata) external {
+        _delegateToSettlementModule();
+    }
 
-        // --- EFFECTS (CEI) ---
-        // Mark payouts as complete
-        escrow.payoutsComplete = true;
-
-        // O(1) removal from the active list
-        uint256 indexToRemove = escrow.activeArrayIndex;
-        uint256 lastEscrowId = activeEscrowIds[activeEscrowIds.length - 1];
-        // Move the last element to the place of the one to be removed
-        activeEscrowIds[indexToRemove] = lastEscrowId;
-        // Update the index of the element that was moved
-        escrows[lastEscrowId].activeArrayIndex = indexToRemove;
-        // Remove the last element, which is now a duplicate
-        activeEscrowIds.pop();
+    /**
+     * @notice Distributes winnings attested by at least `scorerThreshold` registered scorers.
+     * @dev Executed by {DFSSettlementModule-distributeWinningsWithAttestations} via delegatecall.
+     */
+    function distributeWinningsWithAttestations(
+        uint256,
+        address[] calldata,
+        uint256[] calldata,
+        bytes[] calldata
+    ) external {
+        _delegateToSettlementModule();
+    }
 
-        // --- INTERACTIONS ---
-        uint256 overflowAmount = 0;
-        if (maxWithdrawable > 0) {
-            uint256 balanceBefore = escrow.token.balanceOf(address(this));
-            escrow.yearnVault.withdraw(maxWithdrawable, address(this), address(this));
-            uint256 withdrawnAmount = escrow.token.balanceOf(address(this)) - balanceBefore;
-
-            // Ensure we withdrew at least the required amount
-            if (withdrawnAmount < totalPayout) {
-                revert InsufficientWithdrawn(withdrawnAmount, totalPayout);
-            }
+    /**
+     * @notice Records results attested by at least `scorerThreshold` registered scorers, for any settlement mode.
+     * @dev Executed by {DFSSettlementModule-attestResults} via delegatecall.
+     */
+    function attestResults(uint256, bytes32, bytes[] calldata) external {
+        _delegateToSettlementModule();
+    }
 
-            // Distribute exact amounts to all winners
-            for (uint256 i = 0; i < _winners.length; i++) {
-                uint256 amount = _amounts[i];
-                if (amount > 0) {
-                    escrow.token.safeTransfer(_winners[i], amount);
-                }
-            }
+    /**
+     * @notice Commits the final results of an escrow as a Merkle root of (winner, amount) leaves.
+     * @dev Executed by {DFSSettlementModule-postMerkleRoot} via delegatecall.
+     */
+    function postMerkleRoot(uint256, bytes32, uint256, uint256) external {
+        _delegateToSettlementModule();
+    }
 
-            // Calculate and transfer overflow to recipient
-            overflowAmount = withdrawnAmount - totalPayout;
-        }
+    /**
+     * @notice Claims the caller's winnings from an escrow settled via `postMerkleRoot`.
+     * @dev Executed by {DFSSettlementModule-claimWinnings} via delegatecall.
+     */
+    function claimWinnings(uint256, uint256, bytes32[] calldata) external {
+        _delegateToSettlementModule();
+    }
 
-        // Emit the distribution event after interactions (includes overflow info)
-        emit WinningsDistributed(_escrowId, _winners, _amounts, overflowTo, overflowAmount);
+    /**
+     * @notice Sends winnings left unclaimed after the claim deadline to the overflow recipient.
+     * @dev Executed by {DFSSettlementModule-sweepUnclaimedWinnings} via delegatecall.
+     */
+    function sweepUnclaimedWinnings(uint256) external {
+        _delegateToSettlementModule();
+    }
 
-        // Transfer overflow amount if any
-        if (overflowAmount > 0) {
-            escrow.token.safeTransfer(overflowTo, overflowAmount);
-        }
+    /**
+     * @notice Opens a multi-transaction settlement for an escrow with a committed payout total.
+     * @dev Executed by {DFSSettlementModule-openSettlement} via delegatecall.
+     */
+    function openSettlement(uint256, uint256) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Pays a batch of winners from an open settlement.
+     * @dev Executed by {DFSSettlementModule-distributeWinningsBatch} via delegatecall.
+     */
+    function distributeWinningsBatch(uint256, address[] calldata, uint256[] calldata) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Completes an open settlement and sends the remainder to the overflow recipient.
+     * @dev Executed by {DFSSettlementModule-finalizeSettlement} via delegatecall.
+     */
+    function finalizeSettlement(uint256) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Cancels an escrow and opens pull-based refunds for participants and sponsors.
+     * @dev Executed by {DFSSettlementModule-cancelEscrow} via delegatecall.
+     */
+    function cancelEscrow(uint256) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Cancels an escrow that ended without reaching its minimum entries, opening refunds.
+     * @dev Executed by {DFSSettlementModule-cancelUnderfilledEscrow} via delegatecall.
+     */
+    function cancelUnderfilledEscrow(uint256) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Emergency exit: pulls an escrow's funds out of its vault and opens refunds.
+     * @dev Executed by {DFSSettlementModule-emergencyWithdraw} via delegatecall.
+     */
+    function emergencyWithdraw(uint256) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Claims the caller's refund from a cancelled escrow.
+     * @dev Executed by {DFSSettlementModule-claimRefund} via delegatecall.
+     */
+    function claimRefund(uint256) external {
+        _delegateToSettlementModule();
+    }
+
+    /**
+     * @notice Pauses escrow creation, joins, leaves, top-ups and payouts.
+     * @dev Can only be called by a pauser. Pull-based exits (`claimRefund`, `claimWinnings`,
+     * `sweepUnclaimedWinnings`) and `cancelEscrow` stay available, and `emergencyWithdraw` requires it.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @notice Lifts a pause set with `pause`.
+     * @dev Can only be called by a pauser.
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
     }
 
     /**
      * @notice Sets the maximum number of entries allowed per user per escrow.
-     * @dev Can only be called by the contract owner.
+     * @dev Can only be called by a config admin.
      * @param _newMaxEntriesPerUser The new maximum entries per user (must be > 0).
      */
-    function setMaxEntriesPerUser(uint256 _newMaxEntriesPerUser) external onlyOwner {
+    function setMaxEntriesPerUser(uint256 _newMaxEntriesPerUser) external onlyRole(CONFIG_ADMIN_ROLE) {
         if (_newMaxEntriesPerUser == 0) revert InvalidMaxEntries();
         maxEntriesPerUser = _newMaxEntriesPerUser;
         emit MaxEntriesPerUserUpdated(_newMaxEntriesPerUser);
     }
 
+    /**
+     * @notice Sets the protocol fee charged on entry dues at settlement.
+     * @dev Can only be called by a config admin. Only affects escrows created afterwards,
+     * since each escrow snapshots the fee at creation.
+     * @param _newProtocolFeeBps The new fee in basis points (max MAX_PROTOCOL_FEE_BPS).
+     */
+    function setProtocolFee(uint256 _newProtocolFeeBps) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_newProtocolFeeBps > MAX_PROTOCOL_FEE_BPS) revert InvalidFee();
+        protocolFeeBps = _newProtocolFeeBps;
+        emit ProtocolFeeUpdated(_newProtocolFeeBps);
+    }
+
+    /**
+     * @notice Sets the challenge window between `proposeResults` and `finalizeResults`.
+     * @dev Can only be called by a config admin. While non-zero, every settlement mode only pays out
+     * results proposed at least a window earlier. Proposals already pending keep their deadline.
+     * @param _newChallengeWindow The window in seconds (at most MAX_CHALLENGE_WINDOW; zero disables it).
+     */
+    function setChallengeWindow(uint256 _newChallengeWindow) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_newChallengeWindow > MAX_CHALLENGE_WINDOW) revert InvalidChallengeWindow();
+        challengeWindow = _newChallengeWindow;
+        emit ChallengeWindowUpdated(_newChallengeWindow);
+    }
+
+    /**
+     * @notice Sets how far past its creation-time `endTime` an organizer may push an escrow's `endTime`.
+     * @dev Can only be called by a config admin. Applies to every escrow, including existing ones.
+     * @param _newMaxEndTimeExtension The maximum extension in seconds (zero allows no extension).
+     */
+    function setMaxEndTimeExtension(uint256 _newMaxEndTimeExtension) external onlyRole(CONFIG_ADMIN_ROLE) {
+        maxEndTimeExtension = _newMaxEndTimeExtension;
+        emit MaxEndTimeExtensionUpdated(_newMaxEndTimeExtension);
+    }
+
+    /**
+     * @notice Adds or removes a scoring service whose signatures can attest results.
+     * @dev Can only be called by a config admin. Removal reverts if it would leave fewer scorers than the threshold.
+     * @param _scorer The scorer's signing address.
+     * @param _isScorer True to add, false to remove.
+     */
+    function setScorer(address _scorer, bool _isScorer) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_scorer == address(0)) revert InvalidToken();
+        if (isScorer[_scorer] == _isScorer) return;
+
+        if (_isScorer) {
+            scorerCount++;
+        } else {
+            if (scorerCount - 1 < scorerThreshold) revert InvalidScorerThreshold();
+            scorerCount--;
+        }
+        isScorer[_scorer] = _isScorer;
+        emit ScorerUpdated(_scorer, _isScorer);
+    }
+
+    /**
+     * @notice Sets how many scorer signatures a settlement needs.
+     * @dev Can only be called by a config admin. While non-zero, escrows can only be settled with scorer
+     * signatures, through `distributeWinningsWithAttestations` or `attestResults`; zero returns settlement
+     * to organizers.
+     * @param _newThreshold The number of distinct scorers required (at most `scorerCount`).
+     */
+    function setScorerThreshold(uint256 _newThreshold) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_newThreshold > scorerCount) revert InvalidScorerThreshold();
+        scorerThreshold = _newThreshold;
+        emit ScorerThresholdUpdated(_newThreshold);
+    }
+
+    /**
+     * @notice Sets the companion contract that mints a transferable ERC-1155 ticket for every entry.
+     * @dev Can only be called by a config admin, and only once. The ticket contract must have been deployed
+     * for this manager. Only escrows created afterwards are ticketed.
+     * @param _entryTicket The DFSEntryTicket contract.
+     */
+    function setEntryTicket(address _entryTicket) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (address(entryTicket) != address(0)) revert EntryTicketAlreadySet();
+        if (_entryTicket.code.length == 0 || IEntryTicket(_entryTicket).manager() != address(this)) {
+            revert InvalidEntryTicket();
+        }
+        entryTicket = IEntryTicket(_entryTicket);
+        emit EntryTicketSet(_entryTicket);
+    }
+
+    /**
+     * @notice Sets the address that receives protocol fees.
+     * @dev Can only be called by a config admin.
+     * @param _newFeeRecipient The new fee recipient (cannot be zero address).
+     */
+    function setFeeRecipient(address _newFeeRecipient) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_newFeeRecipient == address(0)) revert InvalidToken();
+        feeRecipient = _newFeeRecipient;
+        emit FeeRecipientUpdated(_newFeeRecipient);
+    }
+
+    /**
+     * @notice Adds or removes an Aave pool from the lending allowlist.
+     * @dev Can only be called by a config admin. Only affects escrows created afterwards.
+     * @param _pool The pool address.
+     * @param _allowed Whether escrows may be created against this pool.
+     */
+    function setPoolAllowed(address _pool, bool _allowed) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_pool == address(0)) revert InvalidToken();
+        allowedPools[_pool] = _allowed;
+        emit PoolAllowlistUpdated(_pool, _allowed);
+    }
+
+    /**
+     * @notice Adds or removes a token from the lending asset allowlist.
+     * @dev Can only be called by a config admin. Only affects escrows created afterwards.
+     * @param _asset The token address.
+     * @param _allowed Whether lending-pool escrows may use this token.
+     */
+    function setPoolAssetAllowed(address _asset, bool _allowed) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_asset == address(0)) revert InvalidToken();
+        allowedPoolAssets[_asset] = _allowed;
+        emit PoolAssetAllowlistUpdated(_asset, _allowed);
+    }
+
+    /**
+     * @notice Pauses or unpauses `investEscrowFunds` and `withdrawEscrowFunds`.
+     * @dev Can only be called by a config admin. Cancellation can still unwind positions while paused.
+     * @param _paused The new paused state.
+     */
+    function setLendingPaused(bool _paused) external onlyRole(CONFIG_ADMIN_ROLE) {
+        lendingPaused = _paused;
+        emit LendingPausedUpdated(_paused);
+    }
+
+    /**
+     * @notice Registers or deregisters a custody strategy adapter.
+     * @dev Can only be called by a config admin. Only affects escrows created afterwards; existing
+     * escrows keep withdrawing from the strategy they were created with. The default strategy
+     * cannot be deregistered.
+     * @param _strategy The `IEscrowStrategy` adapter (deployed for this manager).
+     * @param _registered Whether escrows may be created with this strategy.
+     */
+    function setStrategyRegistered(address _strategy, bool _registered) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_strategy == address(0)) revert InvalidToken();
+        if (!_registered && _strategy == defaultStrategy) revert InvalidToken();
+        registeredStrategies[_strategy] = _registered;
+        emit StrategyRegistrationUpdated(_strategy, _registered);
+    }
+
+    /**
+     * @notice Sets the strategy used by `createEscrow`.
+     * @dev Can only be called by a config admin. The strategy must already be registered.
+     * @param _strategy The registered strategy to use by default.
+     */
+    function setDefaultStrategy(address _strategy) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (!registeredStrategies[_strategy]) revert StrategyNotRegistered();
+        defaultStrategy = _strategy;
+        emit DefaultStrategyUpdated(_strategy);
+    }
+
+    /**
+     * @notice Adds a token to the escrow token allowlist, or updates its dues bounds.
+     * @dev Can only be called by a config admin. Reads the token's decimals, so the token must
+     * implement `decimals()`. Only affects escrows created afterwards.
+     * @param _token The token address.
+     * @param _minDues Minimum dues in the token's native decimals (zero defaults to one whole token).
+     * @param _maxDues Maximum dues in the token's native decimals (zero for no maximum).
+     */
+    function addEscrowToken(address _token, uint256 _minDues, uint256 _maxDues) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (_token == address(0)) revert InvalidToken();
+
+        uint8 tokenDecimals = IERC20Metadata(_token).decimals();
+        if (_minDues == 0) {
+            _minDues = 10 ** tokenDecimals;
+        }
+        if (_maxDues != 0 && _maxDues < _minDues) revert InvalidDues();
+
+        tokenConfigs[_token] = TokenConfig({
+            allowed: true,
+            decimals: tokenDecimals,
+            minDues: _minDues,
+            maxDues: _maxDues
+        });
+        emit EscrowTokenAdded(_token, tokenDecimals, _minDues, _maxDues);
+    }
+
+    /**
+     * @notice Removes a token from the escrow token allowlist.
+     * @dev Can only be called by a config admin. Existing escrows in the token are unaffected.
+     * @param _token The token address.
+     */
+    function removeEscrowToken(address _token) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (!tokenConfigs[_token].allowed) revert TokenNotAllowed(_token);
+        delete tokenConfigs[_token];
+        emit EscrowTokenRemoved(_token);
+    }
+
     /**
      * @notice Adds an address to the authorized creators whitelist.
-     * @dev Can only be called by the contract owner.
+     * @dev Wrapper around `grantRole(CREATOR_ROLE, _creator)`, kept for existing scripts. Can only be
+     * called by an admin of CREATOR_ROLE.
      * @param _creator The address to authorize for creating escrows.
      */
-    function addAuthorizedCreator(address _creator) external onlyOwner {
+    function addAuthorizedCreator(address _creator) external {
         if (_creator == address(0)) revert InvalidToken();
-        authorizedCreators[_creator] = true;
+        grantRole(CREATOR_ROLE, _creator);
         emit AuthorizedCreatorAdded(_creator);
     }
 
     /**
      * @notice Removes an address from the authorized creators whitelist.
-     * @dev Can only be called by the contract owner.
+     * @dev Wrapper around `revokeRole(CREATOR_ROLE, _creator)`, kept for existing scripts. Can only be
+     * called by an admin of CREATOR_ROLE.
      * @param _creator The address to remove from authorized creators.
      */
-    function removeAuthorizedCreator(address _creator) external onlyOwner {
-        authorizedCreators[_creator] = false;
+    function removeAuthorizedCreator(address _creator) external {
+        revokeRole(CREATOR_ROLE, _creator);
         emit AuthorizedCreatorRemoved(_creator);
     }
 
@@ -544,7 +1077,8 @@ contract DFSEscrowManager is ReentrancyGuard, Ownable {
     }
 
     /**
-     * @notice Returns the list of escrow IDs created by a user.
+     * @notice Returns the list of escrow IDs a user organizes: those they created, minus any handed over
+     * to a new organizer, plus any handed over to them. Handovers do not preserve the list order.
      * @param _user The address of the user.
      * @return An array of escrow IDs.
      */
@@ -585,6 +1119,8 @@ contract DFSEscrowManager is ReentrancyGuard, Ownable {
 
     /**
      * @notice Returns the core details of a specific escrow pool.
+     * @dev An escrow that ends with `totalEntries` below `minEntries` can be cancelled by anyone via
+     * `cancelUnderfilledEscrow`.
      * @param _escrowId The ID of the escrow to query.
      */
     function getEscrowDetails(uint256 _escrowId)
@@ -592,26 +1128,143 @@ contract DFSEscrowManager is ReentrancyGuard, Ownable {
         view
         returns (
             address organizer,
-            address yearnVault,
+            address vault,
             address token,
             uint256 dues,
             uint256 endTime,
             string memory leagueName,
-            bool payoutsComplete
+            bool payoutsComplete,
+            bool cancelled,
+            uint256 totalEntries,
+            uint256 minEntries
         )
     {
         Escrow storage escrow = escrows[_escrowId];
         return (
             escrow.organizer,
-            address(escrow.yearnVault),
+            escrow.vault,
             address(escrow.token),
             escrow.dues,
             escrow.endTime,
             escrow.leagueName,
-            escrow.payoutsComplete
+            escrow.payoutsComplete,
+            escrow.cancelled,
+            escrow.totalEntries,
+            escrow.minEntries
         );
     }
-    
+
+    /**
+     * @notice Returns the payout table stored for an escrow at creation.
+     * @param _escrowId The ID of the escrow to query.
+     * @return The tiers in ascending rank order (empty if the escrow has none).
+     */
+    function getPayoutTable(uint256 _escrowId) external view returns (PayoutTier[] memory) {
+        return payoutTables[_escrowId];
+    }
+
+    /**
+     * @notice Returns the guarantee position of a guaranteed prize pool.
+     * @param _escrowId The ID of the escrow to query.
+     * @return guaranteedPrize The minimum total prize promised to winners.
+     * @return prizeFunding Entry dues (net of the protocol fee) plus `addToPool` contributions.
+     * @return overlay The shortfall the guarantee currently has to cover.
+     * @return guaranteeDeposited Guarantee funds deposited so far.
+     */
+    function getOverlay(uint256 _escrowId)
+        external
+        view
+        returns (uint256 guaranteedPrize, uint256 prizeFunding, uint256 overlay, uint256 guaranteeDeposited)
+    {
+        Escrow storage escrow = escrows[_escrowId];
+        guaranteedPrize = escrow.guaranteedPrize;
+        prizeFunding = escrow.dues * escrow.totalEntries - _calculateFee(escrow) + escrow.totalContributions;
+        overlay = guaranteedPrize > prizeFunding ? guaranteedPrize - prizeFunding : 0;
+        guaranteeDeposited = escrow.guaranteeDeposited;
+    }
+
+    /**
+     * @notice Returns the lending state of an escrow created with `createEscrowWithPool`.
+     * @param _escrowId The ID of the escrow to query.
+     */
+    function getLendingPosition(uint256 _escrowId)
+        external
+        view
+        returns (
+            address pool,
+            uint256 pendingToInvest,
+            uint256 principalInvested,
+            uint256 withdrawnAssets,
+            bool invested,
+            bool withdrawn
+        )
+    {
+        Escrow storage escrow = escrows[_escrowId];
+        return (
+            address(escrow.lendingPool),
+            escrow.pendingToInvest,
+            escrow.principalInvested,
+            escrow.withdrawnAssets,
+            escrow.invested,
+            escrow.lendingWithdrawn
+        );
+    }
+
+    /**
+     * @notice Returns the hash a results proposal must commit to for the given payout arrays.
+     * @param _winners The winner addresses.
+     * @param _amounts The amounts, in the same order.
+     * @return The results hash accepted by `proposeResults` and checked by `finalizeResults`.
+     */
+    function hashResults(address[] calldata _winners, uint256[] calldata _amounts) external pure returns (bytes32) {
+        return _hashResults(_winners, _amounts);
+    }
+
+    /**
+     * @notice Returns the EIP-712 digest a scorer signs to attest an escrow's results.
+     * @param _escrowId The ID of the escrow.
+     * @param _winners The winner addresses.
+     * @param _amounts The amounts, in the same order.
+     * @return The typed-data hash under this contract's domain.
+     */
+    function hashScoringAttestation(
+        uint256 _escrowId,
+        address[] calldata _winners,
+        uint256[] calldata _amounts
+    ) external view returns (bytes32) {
+        return _hashScoringAttestation(_escrowId, _winners, _amounts);
+    }
+
+    /**
+     * @notice Returns the EIP-712 digest a scorer signs to attest the results hash of any settlement mode.
+     * @param _escrowId The ID of the escrow.
+     * @param _resultsHash The results hash, formed as for `proposeResults`.
+     * @return The typed-data hash under this contract's domain.
+     */
+    function hashResultsAttestation(uint256 _escrowId, bytes32 _resultsHash) external view returns (bytes32) {
+        return _hashResultsAttestation(_escrowId, _resultsHash);
+    }
+
+    /**
+     * @notice Returns the EIP-712 digest a player signs for a `JoinRequest`.
+     * @param _request The join request.
+     * @return The typed-data hash under this contract's domain.
+     */
+    function hashJoinRequest(JoinRequest calldata _request) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    JOIN_REQUEST_TYPEHASH,
+                    _request.player,
+                    _request.escrowId,
+                    _request.numEntries,
+                    _request.nonce,
+                    _request.deadline
+                )
+            )
+        );
+    }
+
     /**
      * @notice Returns the number of entries a user has in a specific escrow.
      * @param _escrowId The ID of the escrow.
@@ -621,7 +1274,50 @@ contract DFSEscrowManager is ReentrancyGuard, Ownable {
     function getUserEntryCount(uint256 _escrowId, address _user) external view returns (uint256) {
         return userEntryCount[_escrowId][_user];
     }
+
+    /**
+     * @notice Returns the IDs of a user's current entries in a specific escrow.
+     * @param _escrowId The ID of the escrow.
+     * @param _user The address of the user.
+     * @return The user's entry IDs, in the order the user received them (by joining or by ticket transfer).
+     */
+    function getUserEntryIds(uint256 _escrowId, address _user) external view returns (uint256[] memory) {
+        EntryRange[] storage ranges = userEntryRanges[_escrowId][_user];
+        uint256[] memory entryIds = new uint256[](userEntryCount[_escrowId][_user]);
+        uint256 count;
+        for (uint256 i = 0; i < ranges.length; i++) {
+            for (uint256 j = 0; j < ranges[i].numEntries; j++) {
+                entryIds[count++] = ranges[i].firstEntryId + j;
+            }
+        }
+        return entryIds;
+    }
+
+    /**
+     * @notice Returns the current owner of an entry ID in a specific escrow.
+     * @param _escrowId The ID of the escrow.
+     * @param _entryId The entry ID.
+     * @return The owner, or the zero address if the ID was never issued or the entry has been withdrawn.
+     */
+    function getEntryOwner(uint256 _escrowId, uint256 _entryId) external view returns (address) {
+        return _entryOwner(_escrowId, _entryId);
+    }
     
+    /**
+     * @notice Returns the max entries per wallet that currently applies to an escrow.
+     * @dev The escrow's own limit, capped by the global `maxEntriesPerUser` (which also applies when
+     * the escrow has no limit of its own).
+     * @param _escrowId The ID of the escrow.
+     * @return The effective per-wallet entry limit.
+     */
+    function getMaxEntriesPerUser(uint256 _escrowId) public view returns (uint256) {
+        uint256 escrowLimit = escrows[_escrowId].maxEntriesPerUser;
+        if (escrowLimit == 0 || escrowLimit > maxEntriesPerUser) {
+            return maxEntriesPerUser;
+        }
+        return escrowLimit;
+    }
+
     /**
      * @notice Returns the total number of entries for a specific escrow.
      * @param _escrowId The ID of the escrow.
@@ -631,12 +1327,23 @@ contract DFSEscrowManager is ReentrancyGuard, Ownable {
         return escrows[_escrowId].totalEntries;
     }
     
+    /**
+     * @notice Checks if an address is a delegate operator of an escrow's current organizer.
+     * @param _escrowId The ID of the escrow.
+     * @param _operator The address to check.
+     * @return True if the address may settle the escrow as a delegate.
+     */
+    function isEscrowOperator(uint256 _escrowId, address _operator) external view returns (bool) {
+        return escrowOperators[_escrowId][escrows[_escrowId].organizer][_operator];
+    }
+
     /**
      * @notice Checks if an address is authorized to create escrows.
+     * @dev Equivalent to `hasRole(CREATOR_ROLE, _address)`.
      * @param _address The address to check.
      * @return True if the address is authorized, false otherwise.
      */
     function isAuthorizedCreator(address _address) external view returns (bool) {
-        return authorizedCreators[_address];
+        return hasRole(CREATOR_ROLE, _address);
     }
 }
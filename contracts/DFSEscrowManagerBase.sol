@@ -0,0 +1,685 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {IEscrowStrategy} from "./interfaces/IEscrowStrategy.sol";
+import {IPool} from "./interfaces/IPool.sol";
+import {IEntryTicket} from "./interfaces/IEntryTicket.sol";
+
+/**
+ * @title DFSEscrowManagerBase
+ * @author aiSports
+ * @notice Storage, events, errors and shared internal logic of DFSEscrowManager.
+ * @dev DFSEscrowManager delegatecalls DFSSettlementModule and DFSEscrowSetupModule so that the manager
+ * stays under the EIP-170 contract size limit. All three inherit this contract and therefore share one
+ * storage layout: state variables may only be declared here (immutables are fine elsewhere). The manager
+ * is deployed behind an ERC-1967 proxy, so upgrades may only append state variables (and struct members
+ * of mapped structs); `test/StorageLayout.ts` checks this against `storage-layouts/DFSEscrowManager.json`.
+ * Storage is set up by `DFSEscrowManager.initialize`, so state variables must not have inline initializers.
+ */
+abstract contract DFSEscrowManagerBase is ReentrancyGuard, AccessControl, Pausable, EIP712, Nonces {
+    using SafeERC20 for IERC20;
+
+    // --- Constants ---
+    uint256 public constant MAX_RECIPIENTS = 100; // Increased for DFS scale (from 30)
+    uint256 public constant MAX_LEAGUE_NAME_LENGTH = 50; // max length of the league name to prevent overflows
+    uint256 public constant MINIMUM_ESCROW_DURATION = 1 hours; // Shorter duration for daily contests (changed from 1 days)
+    uint256 public constant MAX_PARTICIPANTS_CAP = 100_000; // Increased for DFS scale (from 10_000)
+    uint256 public constant MINIMUM_CLAIM_PERIOD = 7 days; // Minimum window for winners to claim Merkle payouts
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+    uint256 public constant MAX_PROTOCOL_FEE_BPS = 2_000; // Rake can never exceed 20% of entry dues
+    uint256 public constant MAX_CHALLENGE_WINDOW = 7 days; // Caps how long a results veto can delay payouts
+    uint256 internal constant RAY = 1e27; // Precision of Aave liquidity indexes
+    uint256 internal constant ENTRY_CHECKPOINT_INTERVAL = 32; // Spacing of entry owner checkpoints within a run
+    address internal constant RETIRED_ENTRY_OWNER = address(1); // Checkpoint value of withdrawn entry IDs
+    // --- Roles (DEFAULT_ADMIN_ROLE grants and revokes all of them) ---
+    bytes32 public constant CREATOR_ROLE = keccak256("CREATOR_ROLE"); // Creates escrows
+    // Settles any escrow on its organizer's behalf (e.g. the backend signer)
+    bytes32 public constant PAYOUT_OPERATOR_ROLE = keccak256("PAYOUT_OPERATOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE"); // Pauses and unpauses the manager
+    bytes32 public constant CONFIG_ADMIN_ROLE = keccak256("CONFIG_ADMIN_ROLE"); // Manages configuration and allowlists
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE"); // Vetoes proposed results
+
+    bytes32 public constant JOIN_REQUEST_TYPEHASH =
+        keccak256("JoinRequest(address player,uint256 escrowId,uint256 numEntries,uint256 nonce,uint256 deadline)");
+    bytes32 public constant SCORING_ATTESTATION_TYPEHASH =
+        keccak256("ScoringAttestation(uint256 escrowId,bytes32 winnersHash,bytes32 amountsHash)");
+    bytes32 public constant RESULTS_ATTESTATION_TYPEHASH =
+        keccak256("ResultsAttestation(uint256 escrowId,bytes32 resultsHash)");
+
+    // --- State Variables ---
+    // Approved escrow tokens; dues bounds are in the token's native decimals
+    struct TokenConfig {
+        bool allowed;
+        uint8 decimals;
+        uint256 minDues;
+        uint256 maxDues; // Zero means no maximum
+    }
+
+    mapping(address => TokenConfig) public tokenConfigs;
+
+    uint256 public nextEscrowId;
+
+    // Custody strategies config admins have approved, and the one used by createEscrow
+    mapping(address => bool) public registeredStrategies;
+    address public defaultStrategy;
+    
+    // Multi-entry configuration
+    uint256 public maxEntriesPerUser; // Admin-settable max entries per user; default and upper bound for escrows
+
+    // Platform rake configuration (snapshotted into each escrow at creation)
+    uint256 public protocolFeeBps;
+    address public feeRecipient;
+
+    // Dispute window between proposeResults and finalizeResults; zero allows direct distributeWinnings
+    uint256 public challengeWindow;
+
+    // Independent scoring services; while scorerThreshold is non-zero, payouts need that many scorer signatures
+    mapping(address => bool) public isScorer;
+    uint256 public scorerCount;
+    uint256 public scorerThreshold;
+
+    // Companion ERC-1155 contract minting a transferable ticket per entry; zero until a config admin sets it
+    IEntryTicket public entryTicket;
+
+    // Aave-style lending guardrails
+    mapping(address => bool) public allowedPools;
+    mapping(address => bool) public allowedPoolAssets;
+    bool public lendingPaused;
+
+    // User-centric tracking (createdEscrows lists the escrows a user currently organizes)
+    mapping(address => uint256[]) public createdEscrows;
+    mapping(address => uint256[]) public joinedEscrows;
+    // Position of each escrow in joinedEscrows[user], for O(1) removal when a player leaves
+    mapping(address => mapping(uint256 => uint256)) internal joinedEscrowIndex;
+    uint256[] public activeEscrowIds;
+    
+    // Multi-entry tracking: escrowId => user => entry count
+    mapping(uint256 => mapping(address => uint256)) public userEntryCount;
+
+    // Deprecated: per-entry owners, replaced by entryOwnerCheckpoints. Kept so later slots don't move.
+    mapping(uint256 => mapping(uint256 => address)) internal entryOwner;
+    // escrowId => number of entry IDs issued so far
+    mapping(uint256 => uint256) public entryIdCount;
+    // Deprecated: per-user entry ID lists, replaced by userEntryRanges. Kept so later slots don't move.
+    mapping(uint256 => mapping(address => uint256[])) internal userEntryIds;
+
+    // Entries bought via joinEscrowFor, whose payer stays the payer of record for refunds:
+    // escrowId => player => entries paid for by other wallets
+    mapping(uint256 => mapping(address => uint256)) public giftedEntryCount;
+    // escrowId => payer => entries bought for other wallets
+    mapping(uint256 => mapping(address => uint256)) public purchasedEntryCount;
+
+    // Sponsor tracking: escrowId => contributor => amount added via addToPool
+    mapping(uint256 => mapping(address => uint256)) public poolContributions;
+
+    // Refund tracking for cancelled escrows: escrowId => account => claimed
+    mapping(uint256 => mapping(address => bool)) public refundClaimed;
+
+    struct Escrow {
+        address organizer;
+        IEscrowStrategy strategy; // Custody adapter; zero for lending-pool escrows
+        address vault; // Vault reported by the strategy at creation (zero if it holds funds directly)
+        IERC20 token;
+        uint256 dues;
+        uint256 endTime;
+        mapping(address => bool) participants;
+        bool payoutsComplete;
+        uint256 maxParticipants;
+        uint256 maxEntriesPerUser; // Per-escrow entry limit; zero means use the global maxEntriesPerUser
+        uint256 minEntries; // Entries required by endTime, else anyone can cancel for refunds; zero for none
+        bool ticketed; // Entries are mirrored by entryTicket balances (a ticket contract was set at creation)
+        address[] participantsList;
+        mapping(address => uint256) participantIndex; // Position in participantsList, for O(1) removal
+        uint256 activeArrayIndex;
+        string leagueName;
+        uint256 totalEntries; // Total entries across all users for this escrow
+        uint256 totalContributions; // Total sponsor funds added via addToPool
+        bool cancelled;
+        uint256 refundableAssets; // Assets recovered from the strategy on cancellation
+        uint256 feeBps; // Protocol fee snapshot taken at creation
+        uint256 leaveCutoff; // Seconds before endTime after which leaveEscrow is disabled
+        // Guaranteed prize pools: the guarantee covers any shortfall ("overlay") and is repaid first from surplus
+        uint256 guaranteedPrize; // Minimum total paid to winners; zero for none
+        address guarantor; // Account whose guarantee deposits are held with the escrow
+        uint256 guaranteeDeposited; // Guarantee funds deposited via depositGuarantee
+        // Aave-style lending. Only used when lendingPool is set, in which case no strategy is used.
+        IPool lendingPool;
+        uint256 pendingToInvest; // Funds held in this contract, not yet supplied to the pool
+        uint256 principalInvested; // Amount supplied to the pool by investEscrowFunds
+        uint256 withdrawnAssets; // Amount returned from the pool by withdrawEscrowFunds
+        bool invested;
+        bool lendingWithdrawn;
+    }
+
+    mapping(uint256 => Escrow) public escrows;
+
+    // Overflow recipient mapping: escrowId => recipient address
+    // If unset (zero), defaults to escrow.organizer
+    mapping(uint256 => address) public overflowRecipient;
+
+    // Results awaiting their challenge window before payout
+    struct ResultProposal {
+        bytes32 resultsHash; // hashResults(winners, amounts), or keccak256 of a settlement call's calldata
+        uint256 challengeDeadline; // Veto allowed before, finalization at or after; zero when none is pending
+        bool attested; // Set by attestResults, whose results need no challenge window
+    }
+
+    mapping(uint256 => ResultProposal) public resultProposals;
+
+    // Organizer handover: escrowId => address that must call acceptOrganizer
+    mapping(uint256 => address) public pendingOrganizer;
+
+    // Settlement delegates: escrowId => organizer => operator => approved.
+    // Keyed by organizer so that a handover drops the previous organizer's delegates.
+    mapping(uint256 => mapping(address => mapping(address => bool))) internal escrowOperators;
+
+    // Merkle-root payouts for fields too large for distributeWinnings
+    struct MerklePayout {
+        bytes32 merkleRoot;
+        uint256 totalPayout; // Sum of all leaf amounts committed by the organizer
+        uint256 unclaimedAmount; // Withdrawn funds still reserved for winners
+        uint256 claimDeadline;
+    }
+
+    mapping(uint256 => MerklePayout) public merklePayouts;
+
+    // Merkle claim tracking: escrowId => winner => claimed
+    mapping(uint256 => mapping(address => bool)) public winningsClaimed;
+
+    // Multi-transaction settlement for large winner lists
+    struct BatchSettlement {
+        bool open;
+        uint256 committedTotal; // Total the organizer commits to pay across all batches
+        uint256 paidTotal; // Amount paid out so far
+        uint256 withdrawnAmount; // Assets withdrawn from the strategy when settlement was opened
+    }
+
+    mapping(uint256 => BatchSettlement) public batchSettlements;
+
+    // Batch duplicate protection: escrowId => winner => paid in an earlier batch
+    mapping(uint256 => mapping(address => bool)) public settlementPaid;
+
+    // Payout table tier: every rank after the previous tier's lastRank, up to and including this
+    // lastRank, is paid `bps` of the prize pool (e.g. {1, 2000}, {5, 500}, {50, 50})
+    struct PayoutTier {
+        uint256 lastRank;
+        uint256 bps;
+    }
+
+    // Payout tables stored at creation for distributeByPayoutTable: escrowId => tiers, by ascending rank
+    mapping(uint256 => PayoutTier[]) internal payoutTables;
+
+    // Furthest past its creation-time endTime that an organizer may push an escrow's endTime; zero allows none
+    uint256 public maxEndTimeExtension;
+    // escrowId => endTime set at creation; recorded by the first updateEndTime, zero until then
+    mapping(uint256 => uint256) public originalEndTime;
+
+    // Aave positions, as scaled balances (supplied amount / liquidity index at supply). Escrows on the same pool
+    // and asset share the manager's aToken balance, so each one only withdraws its own scaled balance.
+    // escrowId => scaled balance while invested
+    mapping(uint256 => uint256) public lendingScaledBalance;
+    // pool => asset => scaled balance of all escrows currently invested there
+    mapping(address => mapping(address => uint256)) internal totalLendingScaledBalance;
+
+    // Position of each escrow in createdEscrows[organizer], for O(1) removal on an organizer handover
+    mapping(address => mapping(uint256 => uint256)) internal createdEscrowIndex;
+
+    // Per-entry identity. Entry IDs are issued sequentially from 1 per escrow and never reused, and are owned in
+    // runs of consecutive IDs, so joins, leaves and transfers cost O(numEntries / ENTRY_CHECKPOINT_INTERVAL)
+    // writes. escrowId => entry ID => owner of the run containing it, set at the first ID of each run and at
+    // every multiple of ENTRY_CHECKPOINT_INTERVAL within it (zero elsewhere); see _entryOwner.
+    mapping(uint256 => mapping(uint256 => address)) internal entryOwnerCheckpoints;
+
+    // Run of consecutive entry IDs with one owner
+    struct EntryRange {
+        uint128 firstEntryId;
+        uint128 numEntries;
+    }
+
+    // escrowId => user => runs of the user's current entry IDs, in the order the user received them
+    mapping(uint256 => mapping(address => EntryRange[])) internal userEntryRanges;
+
+    // EIP-712 signed join, submitted by a relayer on the player's behalf
+    struct JoinRequest {
+        address player;
+        uint256 escrowId;
+        uint256 numEntries;
+        uint256 nonce; // Must equal nonces(player); consumed on use
+        uint256 deadline;
+    }
+
+    // --- Events ---
+    event EscrowCreated(
+        uint256 indexed escrowId,
+        address indexed organizer,
+        address vault,
+        address indexed token,
+        uint256 dues,
+        uint256 endTime
+    );
+
+    event ParticipantJoined(uint256 indexed escrowId, address indexed participant, uint256 numEntries);
+    event ParticipantLeft(uint256 indexed escrowId, address indexed participant, uint256 numEntries, uint256 refundAmount);
+    event LeaveCutoffSet(uint256 indexed escrowId, uint256 leaveCutoff);
+    event EndTimeUpdated(uint256 indexed escrowId, uint256 previousEndTime, uint256 newEndTime);
+    event EscrowMaxEntriesPerUserSet(uint256 indexed escrowId, uint256 maxEntriesPerUser);
+    event PayoutTableSet(uint256 indexed escrowId, PayoutTier[] payoutTable);
+    event GuaranteedPrizeSet(uint256 indexed escrowId, uint256 guaranteedPrize);
+    event GuaranteeDeposited(uint256 indexed escrowId, address indexed guarantor, uint256 amount);
+    event GuaranteeReturned(uint256 indexed escrowId, address indexed guarantor, uint256 amount);
+    event EscrowUnderfilled(uint256 indexed escrowId, uint256 totalEntries, uint256 minEntries);
+    event OrganizerTransferStarted(
+        uint256 indexed escrowId,
+        address indexed organizer,
+        address indexed pendingOrganizer
+    );
+    event OrganizerTransferred(
+        uint256 indexed escrowId,
+        address indexed previousOrganizer,
+        address indexed newOrganizer
+    );
+    event EscrowOperatorUpdated(
+        uint256 indexed escrowId,
+        address indexed organizer,
+        address indexed operator,
+        bool approved
+    );
+    event EntriesGifted(
+        uint256 indexed escrowId,
+        address indexed payer,
+        address indexed beneficiary,
+        uint256 numEntries
+    );
+    event SignedJoinRelayed(uint256 indexed escrowId, address indexed player, address indexed relayer, uint256 nonce);
+
+    event EntriesIssued(uint256 indexed escrowId, address indexed owner, uint256 firstEntryId, uint256 numEntries);
+    event EntriesTransferred(uint256 indexed escrowId, address indexed from, address indexed to, uint256 numEntries);
+    event EntryWinningsDistributed(uint256 indexed escrowId, uint256[] entryIds, uint256[] amounts);
+
+    event WinningsDistributed(
+        uint256 indexed escrowId,
+        address[] winners,
+        uint256[] amounts,
+        address overflowRecipient,
+        uint256 overflowAmount
+    );
+
+    event OverflowRecipientSet(uint256 indexed escrowId, address indexed recipient);
+
+    event PoolFunded(uint256 indexed escrowId, address indexed contributor, uint256 amount);
+    
+    event MaxEntriesPerUserUpdated(uint256 newMaxEntriesPerUser);
+    
+    event EscrowTokenAdded(address indexed token, uint8 decimals, uint256 minDues, uint256 maxDues);
+    event EscrowTokenRemoved(address indexed token);
+
+    event AuthorizedCreatorAdded(address indexed creator);
+    event AuthorizedCreatorRemoved(address indexed creator);
+
+    event StrategyRegistrationUpdated(address indexed strategy, bool registered);
+    event DefaultStrategyUpdated(address indexed strategy);
+
+    event ProtocolFeeUpdated(uint256 newProtocolFeeBps);
+    event FeeRecipientUpdated(address indexed newFeeRecipient);
+    event FeeCollected(uint256 indexed escrowId, address indexed feeRecipient, uint256 amount);
+
+    event EscrowInvested(uint256 indexed escrowId, address indexed pool, address indexed asset, uint256 amount);
+    event EscrowWithdrawn(uint256 indexed escrowId, address indexed pool, address indexed asset, uint256 amount);
+    event PoolAllowlistUpdated(address indexed pool, bool allowed);
+    event PoolAssetAllowlistUpdated(address indexed asset, bool allowed);
+    event LendingPausedUpdated(bool paused);
+
+    event EscrowCancelled(uint256 indexed escrowId, address indexed cancelledBy, uint256 refundableAssets);
+    event RefundClaimed(uint256 indexed escrowId, address indexed account, uint256 amount);
+    event EmergencyWithdrawal(uint256 indexed escrowId, uint256 refundableAssets);
+
+    event MerkleRootPosted(
+        uint256 indexed escrowId,
+        bytes32 merkleRoot,
+        uint256 totalPayout,
+        uint256 claimDeadline,
+        address overflowRecipient,
+        uint256 overflowAmount
+    );
+    event WinningsClaimed(uint256 indexed escrowId, address indexed winner, uint256 amount);
+    event UnclaimedWinningsSwept(uint256 indexed escrowId, address indexed recipient, uint256 amount);
+
+    event ResultsProposed(
+        uint256 indexed escrowId,
+        address indexed proposer,
+        bytes32 resultsHash,
+        uint256 challengeDeadline
+    );
+    event ResultsVetoed(uint256 indexed escrowId, address indexed vetoedBy, bytes32 resultsHash);
+    event ResultsFinalized(uint256 indexed escrowId, address indexed finalizedBy, bytes32 resultsHash);
+    event ChallengeWindowUpdated(uint256 newChallengeWindow);
+    event MaxEndTimeExtensionUpdated(uint256 newMaxEndTimeExtension);
+    event ScorerUpdated(address indexed scorer, bool isScorer);
+    event ScorerThresholdUpdated(uint256 newThreshold);
+    event EntryTicketSet(address indexed entryTicket);
+    event ResultsAttested(uint256 indexed escrowId, address indexed submitter, uint256 signatures);
+
+    event SettlementOpened(uint256 indexed escrowId, uint256 committedTotal, uint256 withdrawnAmount);
+    event WinningsBatchDistributed(uint256 indexed escrowId, address[] winners, uint256[] amounts, uint256 paidTotal);
+    event SettlementFinalized(
+        uint256 indexed escrowId,
+        uint256 paidTotal,
+        address overflowRecipient,
+        uint256 overflowAmount
+    );
+
+    // --- Errors ---
+    error InvalidToken();
+    error InvalidDues();
+    error TokenNotAllowed(address token);
+    error EscrowEnded();
+    error AlreadyParticipating();
+    error NotOrganizer();
+    error EscrowNotEnded();
+    error PayoutsAlreadyComplete();
+    error TooManyRecipients();
+    error NoDuplicateWinners();
+    error NoDuplicateEntries();
+    error InvalidEntry(uint256 entryId);
+    error InvalidEntryTicket();
+    error EntryTicketAlreadySet();
+    error NotEntryTicket();
+    error TicketsLocked();
+    error WinnerHoldsNoTicket();
+    error PayoutArraysMismatch();
+    error PoolFull();
+    error InvalidAmount();
+    error LeagueNameTooLong();
+    error EndTimeTooSoon();
+    error EndTimeTooLate(uint256 latestEndTime);
+    error InvalidMaxParticipants();
+    error InsufficientPool(uint256 totalPayout, uint256 maxWithdrawable);
+    error InsufficientWithdrawn(uint256 withdrawn, uint256 required);
+    error EmptyLeagueName();
+    error WinnerNotParticipant();
+    error InvalidMaxEntries();
+    error InvalidMinEntries();
+    error MinimumEntriesNotMet(uint256 totalEntries, uint256 minEntries);
+    error MinimumEntriesMet();
+    error InvalidGuarantee();
+    error InvalidPayoutTable();
+    error NoPayoutTable();
+    error ExceedsPaidPlaces(uint256 winners, uint256 paidPlaces);
+    error EmptyTieGroup();
+    error NotGuarantor();
+    error GuaranteeNotMet(uint256 totalPayout, uint256 guaranteedPrize);
+    error InsufficientEntries(uint256 requested, uint256 owned);
+    error LeaveWindowClosed();
+    error ExceedsMaxEntriesPerUser(uint256 limit);
+    error ExceedsMaxParticipants();
+    error NotAuthorizedCreator();
+    error PermitFailed();
+    error SignatureExpired();
+    error InvalidSignature();
+    error StrategyNotRegistered();
+    error NotOrganizerOrOwner();
+    error NotPendingOrganizer();
+    error InvalidFee();
+    error PoolNotAllowed();
+    error AssetNotAllowed();
+    error NotLendingEscrow();
+    error NothingToInvest();
+    error AlreadyInvested();
+    error NotInvested();
+    error FundsStillInvested();
+    error LendingIsPaused();
+    error EscrowIsCancelled();
+    error EscrowNotCancelled();
+    error RefundAlreadyClaimed();
+    error NothingToRefund();
+    error EscrowNotFound();
+    error EmergencyWithdrawFailed(uint256 escrowId);
+    error InvalidMerkleRoot();
+    error ClaimDeadlineTooSoon();
+    error NoMerklePayout();
+    error ClaimPeriodEnded();
+    error ClaimPeriodNotEnded();
+    error WinningsAlreadyClaimed();
+    error InvalidProof();
+    error SettlementInProgress();
+    error SettlementNotOpen();
+    error ExceedsCommittedTotal(uint256 paidTotal, uint256 committedTotal);
+    error SettlementIncomplete(uint256 paidTotal, uint256 committedTotal);
+    error InvalidSettlementModule();
+    error InvalidSetupModule();
+    error NoResultsProposed();
+    error ChallengeWindowActive(uint256 challengeDeadline);
+    error ChallengeWindowClosed();
+    error ResultsMismatch();
+    error NotAuditor();
+    error InvalidChallengeWindow();
+    error AttestationsRequired();
+    error ScorersNotConfigured();
+    error InvalidScorerThreshold();
+    error InvalidScorerSignature();
+    error InsufficientAttestations(uint256 signatures, uint256 threshold);
+
+    // --- Constructor ---
+    constructor() EIP712("DFSEscrowManager", "1") {}
+
+    // --- Internal Functions ---
+
+    /**
+     * @notice Returns the overflow recipient for an escrow, defaulting to the organizer if not set.
+     */
+    function _getOverflowRecipient(uint256 _escrowId) internal view returns (address) {
+        address overflowTo = overflowRecipient[_escrowId];
+        if (overflowTo == address(0)) {
+            overflowTo = escrows[_escrowId].organizer;
+        }
+        return overflowTo;
+    }
+
+    /**
+     * @notice Returns the current owner of an entry ID, or zero if it was never issued or has been withdrawn.
+     * @dev Scans back to the nearest checkpoint, at most ENTRY_CHECKPOINT_INTERVAL IDs away.
+     */
+    function _entryOwner(uint256 _escrowId, uint256 _entryId) internal view returns (address) {
+        if (_entryId == 0 || _entryId > entryIdCount[_escrowId]) return address(0);
+
+        mapping(uint256 => address) storage checkpoints = entryOwnerCheckpoints[_escrowId];
+        uint256 entryId = _entryId;
+        while (checkpoints[entryId] == address(0)) entryId--;
+
+        address owner = checkpoints[entryId];
+        return owner == RETIRED_ENTRY_OWNER ? address(0) : owner;
+    }
+
+    /**
+     * @notice Withdraws an escrow's entire lending position into this contract.
+     * @dev Withdraws the escrow's scaled balance at the current liquidity index. The last escrow invested in a
+     * pool and asset withdraws the manager's whole aToken balance, so rounding dust is not left behind.
+     */
+    function _unwindLendingPosition(uint256 _escrowId, Escrow storage escrow, uint256 _minExpectedAssets) internal {
+        escrow.lendingWithdrawn = true;
+
+        address asset = address(escrow.token);
+        uint256 scaledBalance = lendingScaledBalance[_escrowId];
+        uint256 totalScaledBalance = totalLendingScaledBalance[address(escrow.lendingPool)][asset];
+        lendingScaledBalance[_escrowId] = 0;
+        totalLendingScaledBalance[address(escrow.lendingPool)][asset] = totalScaledBalance - scaledBalance;
+
+        uint256 amount = scaledBalance == totalScaledBalance
+            ? type(uint256).max
+            : (scaledBalance * escrow.lendingPool.getReserveNormalizedIncome(asset)) / RAY;
+
+        uint256 balanceBefore = escrow.token.balanceOf(address(this));
+        if (amount != 0) {
+            escrow.lendingPool.withdraw(asset, amount, address(this));
+        }
+        uint256 withdrawnAmount = escrow.token.balanceOf(address(this)) - balanceBefore;
+
+        if (withdrawnAmount < _minExpectedAssets) {
+            revert InsufficientWithdrawn(withdrawnAmount, _minExpectedAssets);
+        }
+        escrow.withdrawnAssets = withdrawnAmount;
+
+        emit EscrowWithdrawn(_escrowId, address(escrow.lendingPool), address(escrow.token), withdrawnAmount);
+    }
+
+    /**
+     * @notice Returns the protocol fee owed by an escrow at settlement.
+     * @dev The fee is charged on entry dues only (`dues * totalEntries`), never on sponsor top-ups,
+     * using the rate snapshotted when the escrow was created.
+     */
+    function _calculateFee(Escrow storage escrow) internal view returns (uint256) {
+        return (escrow.dues * escrow.totalEntries * escrow.feeBps) / BPS_DENOMINATOR;
+    }
+
+    /**
+     * @notice Transfers a collected protocol fee to the fee recipient.
+     */
+    function _collectFee(uint256 _escrowId, Escrow storage escrow, uint256 _fee) internal {
+        if (_fee == 0) {
+            return;
+        }
+        emit FeeCollected(_escrowId, feeRecipient, _fee);
+        escrow.token.safeTransfer(feeRecipient, _fee);
+    }
+
+    /**
+     * @notice Moves tokens already received by this contract into the escrow's custody.
+     * @dev Strategy-backed escrows hand the funds to their strategy, which tracks the position by
+     * escrow ID. Lending-pool escrows hold the funds here until invested.
+     */
+    function _depositToEscrow(uint256 _escrowId, Escrow storage escrow, uint256 _amount) internal {
+        if (address(escrow.lendingPool) != address(0)) {
+            escrow.pendingToInvest += _amount;
+            return;
+        }
+        escrow.token.safeTransfer(address(escrow.strategy), _amount);
+        escrow.strategy.deposit(_escrowId, _amount);
+    }
+
+    /**
+     * @notice Returns the assets an escrow can release for settlement or refunds.
+     * @dev Lending-pool escrows must be unwound with `withdrawEscrowFunds` first.
+     */
+    function _withdrawableAssets(uint256 _escrowId, Escrow storage escrow) internal view returns (uint256) {
+        if (address(escrow.lendingPool) != address(0)) {
+            if (escrow.invested && !escrow.lendingWithdrawn) revert FundsStillInvested();
+            return escrow.pendingToInvest + escrow.withdrawnAssets;
+        }
+        return escrow.strategy.maxWithdraw(_escrowId);
+    }
+
+    /**
+     * @notice Returns everything refundable on cancellation: entry dues, sponsor contributions and guarantee deposits.
+     */
+    function _totalOwed(Escrow storage escrow) internal view returns (uint256) {
+        return escrow.dues * escrow.totalEntries + escrow.totalContributions + escrow.guaranteeDeposited;
+    }
+
+    /**
+     * @notice Withdraws assets from an escrow's strategy (or held balance) into this contract.
+     * @dev Returns the amount actually received, which can be lower than requested if the strategy incurs slippage.
+     */
+    function _withdrawAssets(uint256 _escrowId, Escrow storage escrow, uint256 _assets) internal returns (uint256) {
+        if (_assets == 0) {
+            return 0;
+        }
+        if (address(escrow.lendingPool) != address(0)) {
+            // Funds are already in this contract; release idle funds first, then pool proceeds
+            uint256 fromPending = _assets < escrow.pendingToInvest ? _assets : escrow.pendingToInvest;
+            escrow.pendingToInvest -= fromPending;
+            escrow.withdrawnAssets -= _assets - fromPending;
+            return _assets;
+        }
+        uint256 balanceBefore = escrow.token.balanceOf(address(this));
+        escrow.strategy.withdraw(_escrowId, _assets, address(this));
+        return escrow.token.balanceOf(address(this)) - balanceBefore;
+    }
+
+    /**
+     * @notice Removes an escrow from the active list in O(1).
+     * @dev Moves the last element into the removed slot and updates its stored index.
+     */
+    function _removeActiveEscrow(uint256 _escrowId) internal {
+        uint256 indexToRemove = escrows[_escrowId].activeArrayIndex;
+        uint256 lastEscrowId = activeEscrowIds[activeEscrowIds.length - 1];
+        // Move the last element to the place of the one to be removed
+        activeEscrowIds[indexToRemove] = lastEscrowId;
+        // Update the index of the element that was moved
+        escrows[lastEscrowId].activeArrayIndex = indexToRemove;
+        // Remove the last element, which is now a duplicate
+        activeEscrowIds.pop();
+    }
+
+    /**
+     * @notice Hash of a winners-and-amounts payout; see `hashResults`.
+     */
+    function _hashResults(address[] calldata _winners, uint256[] calldata _amounts) internal pure returns (bytes32) {
+        return keccak256(abi.encode(_winners, _amounts));
+    }
+
+    /**
+     * @notice EIP-712 digest of a `ResultsAttestation`; see `hashResultsAttestation`.
+     */
+    function _hashResultsAttestation(uint256 _escrowId, bytes32 _resultsHash) internal view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(RESULTS_ATTESTATION_TYPEHASH, _escrowId, _resultsHash)));
+    }
+
+    /**
+     * @notice EIP-712 digest of a `ScoringAttestation`; see `hashScoringAttestation`.
+     * @dev The winners and amounts hashes are `keccak256(abi.encodePacked(array))`, matching EIP-712 array encoding.
+     */
+    function _hashScoringAttestation(
+        uint256 _escrowId,
+        address[] calldata _winners,
+        uint256[] calldata _amounts
+    ) internal view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    SCORING_ATTESTATION_TYPEHASH,
+                    _escrowId,
+                    keccak256(abi.encodePacked(_winners)),
+                    keccak256(abi.encodePacked(_amounts))
+                )
+            )
+        );
+    }
+
+    // --- View Functions ---
+
+    /**
+     * @notice Returns the refund an account can claim from a cancelled escrow.
+     * @dev Returns 0 if the escrow is not cancelled or the account has already claimed. Entries bought with
+     * `joinEscrowFor` are refunded to their payer rather than the player holding them.
+     * @param _escrowId The ID of the escrow.
+     * @param _account The participant, sponsor or guarantor address.
+     * @return The amount of tokens claimable by the account.
+     */
+    function getRefundAmount(uint256 _escrowId, address _account) public view returns (uint256) {
+        Escrow storage escrow = escrows[_escrowId];
+        if (!escrow.cancelled || refundClaimed[_escrowId][_account]) {
+            return 0;
+        }
+
+        uint256 paidEntries = userEntryCount[_escrowId][_account] - giftedEntryCount[_escrowId][_account] +
+            purchasedEntryCount[_escrowId][_account];
+        uint256 owed = escrow.dues * paidEntries + poolContributions[_escrowId][_account];
+        if (_account == escrow.guarantor) {
+            owed += escrow.guaranteeDeposited;
+        }
+        uint256 totalOwed = _totalOwed(escrow);
+        if (owed == 0) {
+            return 0;
+        }
+
+        // refundableAssets is capped at totalOwed, so this is the full amount unless the strategy lost funds
+        return (owed * escrow.refundableAssets) / totalOwed;
+    }
+}
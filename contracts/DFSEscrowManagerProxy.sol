@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC1967Proxy} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/**
+ * @title DFSEscrowManagerProxy
+ * @author aiSports
+ * @notice The permanent DFSEscrowManager address: an ERC-1967 proxy to the current implementation.
+ * @dev Deploy with a DFSEscrowManager implementation and `initialize(admin)` as `_data`. Upgrades go
+ * through the implementation's UUPS `upgradeToAndCall`, so this contract has no admin logic of its own.
+ */
+contract DFSEscrowManagerProxy is ERC1967Proxy {
+    constructor(address _implementation, bytes memory _data) ERC1967Proxy(_implementation, _data) {}
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {DFSEscrowManagerBase} from "./DFSEscrowManagerBase.sol";
+
+/**
+ * @title DFSEscrowModule
+ * @author aiSports
+ * @notice Common base of the logic modules that DFSEscrowManager runs via delegatecall.
+ * @dev A module is deployed once and passed to the DFSEscrowManager constructor. Its functions only
+ * run via delegatecall from the manager, so they act on the manager's storage, token balances and roles.
+ */
+abstract contract DFSEscrowModule is DFSEscrowManagerBase {
+    address private immutable _self;
+
+    error NotDelegateCall();
+
+    constructor() {
+        _self = address(this);
+    }
+
+    /**
+     * @notice Rejects direct calls, which would run against this module's own (empty) storage.
+     */
+    modifier onlyDelegateCall() {
+        if (address(this) == _self) revert NotDelegateCall();
+        _;
+    }
+}
@@ -0,0 +1,463 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IEscrowStrategy} from "./interfaces/IEscrowStrategy.sol";
+import {IPool} from "./interfaces/IPool.sol";
+import {DFSEscrowModule} from "./DFSEscrowModule.sol";
+
+/**
+ * @title DFSEscrowSetupModule
+ * @author aiSports
+ * @notice Escrow creation and organizer-side escrow settings of DFSEscrowManager.
+ * @dev Runs only via delegatecall from the manager (see {DFSEscrowModule}).
+ */
+contract DFSEscrowSetupModule is DFSEscrowModule {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Modifier to ensure only authorized creators can create escrows.
+     */
+    modifier onlyAuthorizedCreator() {
+        if (!hasRole(CREATOR_ROLE, msg.sender)) revert NotAuthorizedCreator();
+        _;
+    }
+
+    /**
+     * @notice Creates a new prize pool (escrow) using the default custody strategy.
+     * @dev Note: For DFS, the organizer does NOT automatically join upon creation.
+     * @param _token The ERC20 token for the prize pool (typically PYUSD).
+     * @param _dues The amount required to join (in token's native decimals, within the token's allowlisted bounds).
+     * @param _endTime The timestamp when the escrow closes for new participants.
+     * @param _vaultName The name of the contest (also used to name a per-escrow vault, if the strategy deploys one).
+     * @param _maxParticipants The maximum number of entries allowed (interpreted as max entries, not unique wallets).
+     * @param _maxEntriesPerUser Max entries per wallet for this escrow (zero uses the global `maxEntriesPerUser`).
+     * @param _minEntries Entries needed by `endTime`, below which anyone can cancel for refunds (zero for none).
+     * @param _payoutTable Optional payout tiers for `distributeByPayoutTable` (empty for none).
+     * @param _overflowRecipient Optional address to receive surplus funds. If zero, defaults to organizer.
+     */
+    function createEscrow(
+        address _token,
+        uint256 _dues,
+        uint256 _endTime,
+        string calldata _vaultName,
+        uint256 _maxParticipants,
+        uint256 _maxEntriesPerUser,
+        uint256 _minEntries,
+        PayoutTier[] calldata _payoutTable,
+        address _overflowRecipient
+    ) external onlyDelegateCall whenNotPaused nonReentrant onlyAuthorizedCreator {
+        _createEscrow(
+            _token,
+            _dues,
+            _endTime,
+            _vaultName,
+            _maxParticipants,
+            _maxEntriesPerUser,
+            _minEntries,
+            _payoutTable,
+            _overflowRecipient,
+            defaultStrategy,
+            address(0)
+        );
+    }
+
+    /**
+     * @notice Creates a new prize pool (escrow) whose funds are held by a specific registered strategy.
+     * @dev Same as `createEscrow`, but with an explicit custody strategy instead of `defaultStrategy`.
+     * @param _token The ERC20 token for the prize pool (typically PYUSD).
+     * @param _dues The amount required to join (in token's native decimals, within the token's allowlisted bounds).
+     * @param _endTime The timestamp when the escrow closes for new participants.
+     * @param _vaultName The name of the contest (also used to name a per-escrow vault, if the strategy deploys one).
+     * @param _maxParticipants The maximum number of entries allowed (interpreted as max entries, not unique wallets).
+     * @param _maxEntriesPerUser Max entries per wallet for this escrow (zero uses the global `maxEntriesPerUser`).
+     * @param _minEntries Entries needed by `endTime`, below which anyone can cancel for refunds (zero for none).
+     * @param _payoutTable Optional payout tiers for `distributeByPayoutTable` (empty for none).
+     * @param _overflowRecipient Optional address to receive surplus funds. If zero, defaults to organizer.
+     * @param _strategy A strategy registered via `setStrategyRegistered`.
+     */
+    function createEscrowWithStrategy(
+        address _token,
+        uint256 _dues,
+        uint256 _endTime,
+        string calldata _vaultName,
+        uint256 _maxParticipants,
+        uint256 _maxEntriesPerUser,
+        uint256 _minEntries,
+        PayoutTier[] calldata _payoutTable,
+        address _overflowRecipient,
+        address _strategy
+    ) external onlyDelegateCall whenNotPaused nonReentrant onlyAuthorizedCreator {
+        _createEscrow(
+            _token,
+            _dues,
+            _endTime,
+            _vaultName,
+            _maxParticipants,
+            _maxEntriesPerUser,
+            _minEntries,
+            _payoutTable,
+            _overflowRecipient,
+            _strategy,
+            address(0)
+        );
+    }
+
+    /**
+     * @notice Creates a new prize pool (escrow) whose funds are supplied to an Aave-style lending pool.
+     * @dev No custody strategy is used. Entry dues and top-ups are held in this contract as
+     * `pendingToInvest` until `investEscrowFunds` supplies them to `_pool` after the contest locks,
+     * and must be unwound with `withdrawEscrowFunds` before payout. Both the pool and the token
+     * must be on the admin-managed allowlists.
+     * @param _token The ERC20 token for the prize pool (must be the pool reserve's underlying asset).
+     * @param _dues The amount required to join (in token's native decimals, within the token's allowlisted bounds).
+     * @param _endTime The timestamp when the escrow closes for new participants.
+     * @param _leagueName The name of the contest.
+     * @param _maxParticipants The maximum number of entries allowed (interpreted as max entries, not unique wallets).
+     * @param _maxEntriesPerUser Max entries per wallet for this escrow (zero uses the global `maxEntriesPerUser`).
+     * @param _minEntries Entries needed by `endTime`, below which anyone can cancel for refunds (zero for none).
+     * @param _payoutTable Optional payout tiers for `distributeByPayoutTable` (empty for none).
+     * @param _overflowRecipient Optional address to receive surplus funds. If zero, defaults to organizer.
+     * @param _pool The allowlisted Aave `IPool` to supply funds to.
+     */
+    function createEscrowWithPool(
+        address _token,
+        uint256 _dues,
+        uint256 _endTime,
+        string calldata _leagueName,
+        uint256 _maxParticipants,
+        uint256 _maxEntriesPerUser,
+        uint256 _minEntries,
+        PayoutTier[] calldata _payoutTable,
+        address _overflowRecipient,
+        address _pool
+    ) external onlyDelegateCall whenNotPaused nonReentrant onlyAuthorizedCreator {
+        if (!allowedPools[_pool]) revert PoolNotAllowed();
+        if (!allowedPoolAssets[_token]) revert AssetNotAllowed();
+        _createEscrow(
+            _token,
+            _dues,
+            _endTime,
+            _leagueName,
+            _maxParticipants,
+            _maxEntriesPerUser,
+            _minEntries,
+            _payoutTable,
+            _overflowRecipient,
+            address(0),
+            _pool
+        );
+    }
+
+    /**
+     * @notice Sets the overflow recipient for an escrow.
+     * @dev Can only be called by the organizer before payouts are complete.
+     * @param _escrowId The ID of the escrow.
+     * @param _recipient The address to receive surplus funds (cannot be zero address).
+     */
+    function setOverflowRecipient(uint256 _escrowId, address _recipient) external onlyDelegateCall {
+        Escrow storage escrow = escrows[_escrowId];
+        
+        if (msg.sender != escrow.organizer) revert NotOrganizer();
+        if (_recipient == address(0)) revert InvalidToken();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        
+        overflowRecipient[_escrowId] = _recipient;
+        emit OverflowRecipientSet(_escrowId, _recipient);
+    }
+
+    /**
+     * @notice Sets how long before `endTime` players lose the ability to call `leaveEscrow`.
+     * @dev Can only be called by the organizer while the escrow is open. Zero (the default) allows
+     * leaving right up to `endTime`; a cutoff longer than the remaining time disables leaving immediately.
+     * @param _escrowId The ID of the escrow.
+     * @param _leaveCutoff The cutoff in seconds before `endTime`.
+     */
+    function setLeaveCutoff(uint256 _escrowId, uint256 _leaveCutoff) external onlyDelegateCall {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer) revert NotOrganizer();
+        if (block.timestamp > escrow.endTime) revert EscrowEnded();
+
+        escrow.leaveCutoff = _leaveCutoff;
+        emit LeaveCutoffSet(_escrowId, _leaveCutoff);
+    }
+
+    /**
+     * @notice Moves an escrow's `endTime`, e.g. when the underlying games are rescheduled.
+     * @dev Can only be called by the organizer while the escrow is open. The new `endTime` must be at least
+     * MINIMUM_ESCROW_DURATION from now, and at most `maxEndTimeExtension` past the `endTime` set at creation,
+     * so repeated updates cannot hold entry funds indefinitely. `leaveCutoff` stays relative to `endTime`.
+     * @param _escrowId The ID of the escrow.
+     * @param _newEndTime The new end time (unix seconds).
+     */
+    function updateEndTime(uint256 _escrowId, uint256 _newEndTime) external onlyDelegateCall {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer) revert NotOrganizer();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        if (block.timestamp > escrow.endTime) revert EscrowEnded();
+        if (_newEndTime < block.timestamp + MINIMUM_ESCROW_DURATION) revert EndTimeTooSoon();
+
+        uint256 previousEndTime = escrow.endTime;
+        uint256 initialEndTime = originalEndTime[_escrowId];
+        if (initialEndTime == 0) {
+            initialEndTime = previousEndTime;
+            originalEndTime[_escrowId] = initialEndTime;
+        }
+        if (_newEndTime > initialEndTime + maxEndTimeExtension) {
+            revert EndTimeTooLate(initialEndTime + maxEndTimeExtension);
+        }
+
+        escrow.endTime = _newEndTime;
+        emit EndTimeUpdated(_escrowId, previousEndTime, _newEndTime);
+    }
+
+    /**
+     * @notice Declares or raises an escrow's guaranteed prize.
+     * @dev Can only be called by the organizer before the escrow ends. The guarantee can never be lowered,
+     * since players join on its strength. Settlement then has to pay winners at least this amount, with any
+     * shortfall covered by `depositGuarantee` funds.
+     * @param _escrowId The ID of the escrow.
+     * @param _guaranteedPrize The minimum total prize paid to winners.
+     */
+    function setGuaranteedPrize(uint256 _escrowId, uint256 _guaranteedPrize) external onlyDelegateCall {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer) revert NotOrganizer();
+        if (block.timestamp > escrow.endTime) revert EscrowEnded();
+        if (_guaranteedPrize < escrow.guaranteedPrize) revert InvalidGuarantee();
+
+        escrow.guaranteedPrize = _guaranteedPrize;
+        emit GuaranteedPrizeSet(_escrowId, _guaranteedPrize);
+    }
+
+    /**
+     * @notice Deposits guarantee funds that cover the overlay of a guaranteed prize pool.
+     * @dev Can only be called by the organizer until the escrow is settled or cancelled. The first depositor
+     * becomes the escrow's guarantor and later deposits must come from the same account. Unlike `addToPool`
+     * money, unused guarantee is repaid to the guarantor at settlement, and all of it is refunded on cancellation.
+     * @param _escrowId The ID of the escrow.
+     * @param _amount The amount of tokens to deposit.
+     */
+    function depositGuarantee(uint256 _escrowId, uint256 _amount) external onlyDelegateCall whenNotPaused nonReentrant {
+        if (_amount == 0) revert InvalidAmount();
+
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer) revert NotOrganizer();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        if (escrow.guarantor == address(0)) {
+            escrow.guarantor = msg.sender;
+        } else if (escrow.guarantor != msg.sender) {
+            revert NotGuarantor();
+        }
+
+        escrow.guaranteeDeposited += _amount;
+
+        escrow.token.safeTransferFrom(msg.sender, address(this), _amount);
+        _depositToEscrow(_escrowId, escrow, _amount);
+
+        emit GuaranteeDeposited(_escrowId, msg.sender, _amount);
+    }
+
+    /**
+     * @notice Sets the max entries per wallet for an escrow.
+     * @dev Can only be called by the organizer before the escrow ends. Lowering the limit does not
+     * remove entries already purchased; it only blocks further joins above it.
+     * @param _escrowId The ID of the escrow.
+     * @param _maxEntriesPerUser The new limit (zero uses the global `maxEntriesPerUser`; cannot exceed it).
+     */
+    function setEscrowMaxEntriesPerUser(uint256 _escrowId, uint256 _maxEntriesPerUser) external onlyDelegateCall {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer) revert NotOrganizer();
+        if (block.timestamp > escrow.endTime) revert EscrowEnded();
+        if (_maxEntriesPerUser > maxEntriesPerUser) revert InvalidMaxEntries();
+
+        escrow.maxEntriesPerUser = _maxEntriesPerUser;
+        emit EscrowMaxEntriesPerUserSet(_escrowId, _maxEntriesPerUser);
+    }
+
+    /**
+     * @notice Starts handing an escrow over to a new organizer, who must call `acceptOrganizer`.
+     * @dev Can be called by the organizer, or by a config admin to recover an escrow whose organizer key
+     * was lost or compromised. Overwrites any pending handover; pass the zero address to cancel it.
+     * @param _escrowId The ID of the escrow.
+     * @param _newOrganizer The proposed organizer.
+     */
+    function transferOrganizer(uint256 _escrowId, address _newOrganizer) external onlyDelegateCall {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (escrow.organizer == address(0)) revert EscrowNotFound();
+        if (msg.sender != escrow.organizer && !hasRole(CONFIG_ADMIN_ROLE, msg.sender)) revert NotOrganizerOrOwner();
+
+        pendingOrganizer[_escrowId] = _newOrganizer;
+        emit OrganizerTransferStarted(_escrowId, escrow.organizer, _newOrganizer);
+    }
+
+    /**
+     * @notice Completes a handover started with `transferOrganizer`.
+     * @dev Can only be called by the pending organizer. Delegate operators approved by the previous
+     * organizer no longer apply, and the escrow moves from the previous organizer's `createdEscrows` to
+     * the new organizer's. Unless the escrow is cancelled, the new organizer also takes over as guarantor:
+     * further guarantee deposits come from them, and unused or refunded guarantee is paid to them.
+     * @param _escrowId The ID of the escrow.
+     */
+    function acceptOrganizer(uint256 _escrowId) external onlyDelegateCall {
+        if (msg.sender != pendingOrganizer[_escrowId]) revert NotPendingOrganizer();
+
+        Escrow storage escrow = escrows[_escrowId];
+        address previousOrganizer = escrow.organizer;
+
+        escrow.organizer = msg.sender;
+        delete pendingOrganizer[_escrowId];
+
+        // Swap-and-pop from the previous organizer's escrows
+        uint256[] storage previousEscrows = createdEscrows[previousOrganizer];
+        uint256 createdIndex = createdEscrowIndex[previousOrganizer][_escrowId];
+        uint256 lastEscrowId = previousEscrows[previousEscrows.length - 1];
+        previousEscrows[createdIndex] = lastEscrowId;
+        createdEscrowIndex[previousOrganizer][lastEscrowId] = createdIndex;
+        previousEscrows.pop();
+        delete createdEscrowIndex[previousOrganizer][_escrowId];
+
+        createdEscrowIndex[msg.sender][_escrowId] = createdEscrows[msg.sender].length;
+        createdEscrows[msg.sender].push(_escrowId);
+
+        // Once cancelled, the previous guarantor may already have claimed their refund
+        if (escrow.guarantor == previousOrganizer && !escrow.cancelled) {
+            escrow.guarantor = msg.sender;
+        }
+
+        emit OrganizerTransferred(_escrowId, previousOrganizer, msg.sender);
+    }
+
+    /**
+     * @notice Approves or revokes a delegate operator who may settle an escrow for its organizer.
+     * @dev Can only be called by the organizer. Delegates may call `distributeWinnings` and the other
+     * settlement functions, but not the organizer's economic settings (overflow recipient, entry limits,
+     * leave cutoff, cancellation or lending).
+     * @param _escrowId The ID of the escrow.
+     * @param _operator The delegate address.
+     * @param _approved Whether the delegate may settle.
+     */
+    function setEscrowOperator(uint256 _escrowId, address _operator, bool _approved) external onlyDelegateCall {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer) revert NotOrganizer();
+        if (_operator == address(0)) revert InvalidToken();
+
+        escrowOperators[_escrowId][msg.sender][_operator] = _approved;
+        emit EscrowOperatorUpdated(_escrowId, msg.sender, _operator, _approved);
+    }
+
+    /**
+     * @notice Shared creation logic for strategy-backed and lending-pool escrows.
+     * @dev Exactly one of `_strategy` and `_pool` is used: the strategy is initialized only when `_pool` is zero.
+     */
+    function _createEscrow(
+        address _token,
+        uint256 _dues,
+        uint256 _endTime,
+        string calldata _vaultName,
+        uint256 _maxParticipants,
+        uint256 _maxEntriesPerUser,
+        uint256 _minEntries,
+        PayoutTier[] calldata _payoutTable,
+        address _overflowRecipient,
+        address _strategy,
+        address _pool
+    ) internal {
+        if (_token == address(0)) revert InvalidToken();
+        TokenConfig storage tokenConfig = tokenConfigs[_token];
+        if (!tokenConfig.allowed) revert TokenNotAllowed(_token);
+        if (_dues < tokenConfig.minDues || (tokenConfig.maxDues != 0 && _dues > tokenConfig.maxDues)) {
+            revert InvalidDues();
+        }
+        if (bytes(_vaultName).length == 0) revert EmptyLeagueName();
+        if (bytes(_vaultName).length > MAX_LEAGUE_NAME_LENGTH) revert LeagueNameTooLong();
+        if (_endTime < block.timestamp + MINIMUM_ESCROW_DURATION) revert EndTimeTooSoon();
+        if (_maxParticipants == 0 || _maxParticipants > MAX_PARTICIPANTS_CAP) revert InvalidMaxParticipants();
+        if (_maxEntriesPerUser > maxEntriesPerUser) revert InvalidMaxEntries();
+        if (_minEntries > _maxParticipants) revert InvalidMinEntries();
+
+        uint256 escrowId = nextEscrowId;
+
+        address newVaultAddress;
+        if (_pool == address(0)) {
+            if (!registeredStrategies[_strategy]) revert StrategyNotRegistered();
+            // Let the strategy set up custody (e.g. deploy a dedicated vault) for this escrow
+            newVaultAddress = IEscrowStrategy(_strategy).initializeEscrow(escrowId, _token, _vaultName);
+        }
+
+        // Store the new escrow's data.
+        Escrow storage newEscrow = escrows[escrowId];
+        newEscrow.organizer = msg.sender;
+        newEscrow.strategy = IEscrowStrategy(_strategy);
+        newEscrow.vault = newVaultAddress;
+        newEscrow.lendingPool = IPool(_pool);
+        newEscrow.token = IERC20(_token);
+        newEscrow.dues = _dues;
+        newEscrow.endTime = _endTime;
+        newEscrow.maxParticipants = _maxParticipants;
+        newEscrow.maxEntriesPerUser = _maxEntriesPerUser;
+        newEscrow.minEntries = _minEntries;
+        newEscrow.ticketed = address(entryTicket) != address(0);
+        newEscrow.leagueName = _vaultName;
+        newEscrow.totalEntries = 0; // Initialize total entries to 0
+        newEscrow.feeBps = protocolFeeBps;
+
+        // Track the created escrow
+        createdEscrowIndex[msg.sender][escrowId] = createdEscrows[msg.sender].length;
+        createdEscrows[msg.sender].push(escrowId);
+        newEscrow.activeArrayIndex = activeEscrowIds.length;
+        activeEscrowIds.push(escrowId);
+
+        nextEscrowId++;
+
+        // Set overflow recipient if provided
+        if (_overflowRecipient != address(0)) {
+            overflowRecipient[escrowId] = _overflowRecipient;
+            emit OverflowRecipientSet(escrowId, _overflowRecipient);
+        }
+
+        if (_payoutTable.length > 0) {
+            _setPayoutTable(escrowId, _payoutTable);
+        }
+
+        emit EscrowCreated(
+            escrowId,
+            msg.sender,
+            newVaultAddress,
+            _token,
+            _dues,
+            _endTime
+        );
+
+        // NOTE: For DFS, organizer does NOT automatically join upon creation.
+        // Admin-created escrows start empty; users join by paying dues.
+    }
+
+    /**
+     * @notice Validates and stores an escrow's payout table.
+     * @dev Ranks must strictly increase, stay within MAX_RECIPIENTS, and the table may allocate at most 100%.
+     */
+    function _setPayoutTable(uint256 _escrowId, PayoutTier[] calldata _payoutTable) internal {
+        PayoutTier[] storage table = payoutTables[_escrowId];
+        uint256 previousRank;
+        uint256 totalBps;
+        for (uint256 i = 0; i < _payoutTable.length; i++) {
+            PayoutTier calldata tier = _payoutTable[i];
+            if (tier.lastRank <= previousRank || tier.bps == 0) revert InvalidPayoutTable();
+            totalBps += (tier.lastRank - previousRank) * tier.bps;
+            previousRank = tier.lastRank;
+            table.push(tier);
+        }
+        if (previousRank > MAX_RECIPIENTS || totalBps > BPS_DENOMINATOR) revert InvalidPayoutTable();
+
+        emit PayoutTableSet(_escrowId, _payoutTable);
+    }
+}
@@ -0,0 +1,1029 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {DFSEscrowModule} from "./DFSEscrowModule.sol";
+
+/**
+ * @title DFSSettlementModule
+ * @author aiSports
+ * @notice Settlement, refund and lending logic of DFSEscrowManager.
+ * @dev Runs only via delegatecall from the manager (see {DFSEscrowModule}).
+ */
+contract DFSSettlementModule is DFSEscrowModule {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Supplies a lending-pool escrow's pending funds to its Aave pool.
+     * @dev Can be called by the organizer or a config admin once the escrow has ended (entries are locked).
+     * Single-shot: an escrow can only be invested once.
+     * @param _escrowId The ID of the escrow to invest.
+     */
+    function investEscrowFunds(uint256 _escrowId) external onlyDelegateCall nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer && !hasRole(CONFIG_ADMIN_ROLE, msg.sender)) revert NotOrganizerOrOwner();
+        if (lendingPaused) revert LendingIsPaused();
+        if (address(escrow.lendingPool) == address(0)) revert NotLendingEscrow();
+        if (block.timestamp < escrow.endTime) revert EscrowNotEnded();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        if (escrow.invested) revert AlreadyInvested();
+        if (escrow.pendingToInvest == 0) revert NothingToInvest();
+
+        // --- EFFECTS (CEI) ---
+        uint256 amount = escrow.pendingToInvest;
+        escrow.pendingToInvest = 0;
+        escrow.principalInvested = amount;
+        escrow.invested = true;
+
+        // Rounded down, so escrows sharing the pool never withdraw more than was supplied on their behalf
+        address asset = address(escrow.token);
+        uint256 scaledBalance = (amount * RAY) / escrow.lendingPool.getReserveNormalizedIncome(asset);
+        lendingScaledBalance[_escrowId] = scaledBalance;
+        totalLendingScaledBalance[address(escrow.lendingPool)][asset] += scaledBalance;
+
+        // --- INTERACTIONS ---
+        escrow.token.forceApprove(address(escrow.lendingPool), 0);
+        escrow.token.forceApprove(address(escrow.lendingPool), amount);
+        escrow.lendingPool.supply(address(escrow.token), amount, address(this), 0);
+
+        emit EscrowInvested(_escrowId, address(escrow.lendingPool), address(escrow.token), amount);
+    }
+
+    /**
+     * @notice Withdraws a lending-pool escrow's full position (principal plus yield) back into this contract.
+     * @dev Can be called by the organizer or a config admin. Must be called before payouts. Other escrows
+     * invested in the same pool keep their positions and the yield accrued on them.
+     * @param _escrowId The ID of the escrow to unwind.
+     * @param _minExpectedAssets Reverts if the pool returns less than this amount.
+     */
+    function withdrawEscrowFunds(uint256 _escrowId, uint256 _minExpectedAssets) external onlyDelegateCall nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer && !hasRole(CONFIG_ADMIN_ROLE, msg.sender)) revert NotOrganizerOrOwner();
+        if (lendingPaused) revert LendingIsPaused();
+        if (!escrow.invested || escrow.lendingWithdrawn) revert NotInvested();
+
+        _unwindLendingPosition(_escrowId, escrow, _minExpectedAssets);
+    }
+
+    /**
+     * @notice Distributes the winnings to the specified winners.
+     * @dev Can only be called by the organizer, a delegate or a payout operator after the escrow has ended,
+     * unless `challengeWindow` or `scorerThreshold` is non-zero, in which case the call pays out a proposal
+     * that has passed its window (see `proposeResults`) or, while a threshold is set, results attested with
+     * `attestResults`. Withdraws everything from the escrow's strategy and distributes it. Winners must
+     * receive at least the guaranteed prize, and unused guarantee goes back to the guarantor before any
+     * surplus reaches the overflow recipient.
+     * @param _escrowId The ID of the escrow to distribute.
+     * @param _winners An array of winner addresses.
+     * @param _amounts An array of amounts corresponding to each winner.
+     */
+    function distributeWinnings(
+        uint256 _escrowId,
+        address[] calldata _winners,
+        uint256[] calldata _amounts
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        _authorizeResults(_escrowId, escrow);
+
+        _distributeWinnings(_escrowId, escrow, _winners, _amounts, escrow.guaranteedPrize);
+    }
+
+    /**
+     * @notice Proposes an escrow's final results, opening the challenge window before they can be paid.
+     * @dev Can only be called by the organizer, a delegate or a payout operator after the escrow has ended.
+     * Disabled while `scorerThreshold` is non-zero. Replacing a pending proposal restarts the window.
+     * `_resultsHash` is `hashResults(winners, amounts)` for the arrays later passed to `finalizeResults`,
+     * or, for any other settlement mode, the keccak256 of the calldata of the settlement call to make once
+     * the window has passed (`distributeWinningsByEntry`, `distributeByPayoutTable`,
+     * `distributeTiedWinnings`, `postMerkleRoot` or `openSettlement`).
+     * @param _escrowId The ID of the escrow.
+     * @param _resultsHash The hash of the proposed results.
+     */
+    function proposeResults(
+        uint256 _escrowId,
+        bytes32 _resultsHash
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        _checkSettler(_escrowId, escrow);
+        if (scorerThreshold != 0) revert AttestationsRequired();
+        if (block.timestamp < escrow.endTime) revert EscrowNotEnded();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        _checkMinimumEntries(escrow);
+        if (batchSettlements[_escrowId].open) revert SettlementInProgress();
+
+        uint256 challengeDeadline = block.timestamp + challengeWindow;
+        resultProposals[_escrowId] = ResultProposal({
+            resultsHash: _resultsHash,
+            challengeDeadline: challengeDeadline,
+            attested: false
+        });
+
+        emit ResultsProposed(_escrowId, msg.sender, _resultsHash, challengeDeadline);
+    }
+
+    /**
+     * @notice Vetoes a pending results proposal during its challenge window.
+     * @dev Can only be called by a config admin or an auditor. The organizer can then propose again.
+     * @param _escrowId The ID of the escrow.
+     */
+    function vetoResults(uint256 _escrowId) external onlyDelegateCall nonReentrant {
+        if (!hasRole(CONFIG_ADMIN_ROLE, msg.sender) && !hasRole(AUDITOR_ROLE, msg.sender)) revert NotAuditor();
+
+        ResultProposal storage proposal = resultProposals[_escrowId];
+        if (proposal.challengeDeadline == 0) revert NoResultsProposed();
+        if (block.timestamp >= proposal.challengeDeadline) revert ChallengeWindowClosed();
+
+        bytes32 resultsHash = proposal.resultsHash;
+        delete resultProposals[_escrowId];
+
+        emit ResultsVetoed(_escrowId, msg.sender, resultsHash);
+    }
+
+    /**
+     * @notice Pays out a proposal that survived its challenge window.
+     * @dev Callable by anyone once the window has passed. While a `scorerThreshold` is set, only results
+     * attested with `attestResults` can be finalized. The arrays must match the proposed hash, and the same
+     * participant, duplicate and pool checks as `distributeWinnings` run here.
+     * @param _escrowId The ID of the escrow.
+     * @param _winners The proposed winner addresses.
+     * @param _amounts The proposed amounts, in the same order.
+     */
+    function finalizeResults(
+        uint256 _escrowId,
+        address[] calldata _winners,
+        uint256[] calldata _amounts
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        _finalizeProposal(_escrowId, _hashResults(_winners, _amounts));
+
+        Escrow storage escrow = escrows[_escrowId];
+        _distributeWinnings(_escrowId, escrow, _winners, _amounts, escrow.guaranteedPrize);
+    }
+
+    /**
+     * @notice Distributes winnings attested by at least `scorerThreshold` registered scorers.
+     * @dev Callable by anyone after the escrow has ended; the scorer signatures replace the organizer's
+     * authority, so neither the challenge window nor the settler check applies. Each signature is over
+     * `hashScoringAttestation(_escrowId, _winners, _amounts)` and signers must be in ascending address order.
+     * @param _escrowId The ID of the escrow to distribute.
+     * @param _winners An array of winner addresses.
+     * @param _amounts An array of amounts corresponding to each winner.
+     * @param _signatures Scorer signatures, ordered by signer address.
+     */
+    function distributeWinningsWithAttestations(
+        uint256 _escrowId,
+        address[] calldata _winners,
+        uint256[] calldata _amounts,
+        bytes[] calldata _signatures
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+        if (escrow.organizer == address(0)) revert EscrowNotFound();
+        _checkAttestations(_hashScoringAttestation(_escrowId, _winners, _amounts), _signatures);
+
+        emit ResultsAttested(_escrowId, msg.sender, _signatures.length);
+
+        _distributeWinnings(_escrowId, escrow, _winners, _amounts, escrow.guaranteedPrize);
+    }
+
+    /**
+     * @notice Records results attested by at least `scorerThreshold` registered scorers, for any settlement mode.
+     * @dev Callable by anyone. `_resultsHash` is formed as for `proposeResults`, and each signature is over
+     * `hashResultsAttestation(_escrowId, _resultsHash)`, with signers in ascending address order. The results
+     * replace any pending proposal and skip the challenge window: anyone can then make the attested
+     * settlement call, or `finalizeResults` with the attested arrays.
+     * @param _escrowId The ID of the escrow.
+     * @param _resultsHash The hash of the attested results.
+     * @param _signatures Scorer signatures, ordered by signer address.
+     */
+    function attestResults(
+        uint256 _escrowId,
+        bytes32 _resultsHash,
+        bytes[] calldata _signatures
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        if (escrows[_escrowId].organizer == address(0)) revert EscrowNotFound();
+        _checkAttestations(_hashResultsAttestation(_escrowId, _resultsHash), _signatures);
+
+        resultProposals[_escrowId] = ResultProposal({
+            resultsHash: _resultsHash,
+            challengeDeadline: block.timestamp,
+            attested: true
+        });
+
+        emit ResultsProposed(_escrowId, msg.sender, _resultsHash, block.timestamp);
+        emit ResultsAttested(_escrowId, msg.sender, _signatures.length);
+    }
+
+    /**
+     * @notice Distributes winnings to winning entries, paying each owner the sum of its entries' amounts.
+     * @dev Same authorization and restrictions as `distributeWinnings`, but places are identified by entry
+     * ID, so a wallet whose lineups finish in several paid places is paid for each of them in one transfer.
+     * `WinningsDistributed` reports the summed amount per owner.
+     * @param _escrowId The ID of the escrow to distribute.
+     * @param _entryIds The winning entry IDs.
+     * @param _amounts The amount won by each entry.
+     */
+    function distributeWinningsByEntry(
+        uint256 _escrowId,
+        uint256[] calldata _entryIds,
+        uint256[] calldata _amounts
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        _authorizeResults(_escrowId, escrow);
+        if (_entryIds.length > MAX_RECIPIENTS) revert TooManyRecipients();
+        if (_entryIds.length != _amounts.length) revert PayoutArraysMismatch();
+
+        // Sum the winnings of each owner's entries, keeping owners in order of their first winning entry
+        address[] memory owners = new address[](_entryIds.length);
+        uint256[] memory ownerAmounts = new uint256[](_entryIds.length);
+        uint256 ownerCount;
+        for (uint256 i = 0; i < _entryIds.length; i++) {
+            address owner = _entryOwner(_escrowId, _entryIds[i]);
+            if (owner == address(0)) revert InvalidEntry(_entryIds[i]);
+            for (uint256 j = 0; j < i; j++) {
+                if (_entryIds[j] == _entryIds[i]) revert NoDuplicateEntries();
+            }
+
+            uint256 k;
+            while (k < ownerCount && owners[k] != owner) k++;
+            if (k == ownerCount) {
+                owners[ownerCount] = owner;
+                ownerCount++;
+            }
+            ownerAmounts[k] += _amounts[i];
+        }
+
+        address[] memory winners = new address[](ownerCount);
+        uint256[] memory amounts = new uint256[](ownerCount);
+        for (uint256 i = 0; i < ownerCount; i++) {
+            winners[i] = owners[i];
+            amounts[i] = ownerAmounts[i];
+        }
+
+        emit EntryWinningsDistributed(_escrowId, _entryIds, _amounts);
+
+        _distributeWinnings(_escrowId, escrow, winners, amounts, escrow.guaranteedPrize);
+    }
+
+    /**
+     * @notice Distributes the prize pool to ranked winners using the escrow's payout table.
+     * @dev Same authorization and restrictions as `distributeWinnings`. The prize pool is everything
+     * withdrawable less the protocol fee and any guarantee deposits, topped up from the guarantee to the
+     * guaranteed prize. The winner at index i receives the bps of rank i + 1, rounded down; rounding dust
+     * and the shares of unfilled ranks go to the overflow recipient.
+     * @param _escrowId The ID of the escrow to distribute.
+     * @param _rankedWinners Winners in finishing order, first place first (at most the table's paid places).
+     */
+    function distributeByPayoutTable(
+        uint256 _escrowId,
+        address[] calldata _rankedWinners
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        _authorizeResults(_escrowId, escrow);
+
+        if (_rankedWinners.length == 0) revert InvalidAmount();
+        (uint256[] memory amounts, uint256 paidPlaces) = _payoutTablePrizes(_escrowId, escrow, _rankedWinners.length);
+        if (_rankedWinners.length > paidPlaces) revert ExceedsPaidPlaces(_rankedWinners.length, paidPlaces);
+
+        // The guaranteed prize is enforced on the prize pool; rounding may leave the payout a little below it
+        _distributeWinnings(_escrowId, escrow, _rankedWinners, amounts, 0);
+    }
+
+    /**
+     * @notice Distributes prizes to winners grouped by finishing position, splitting tied places evenly.
+     * @dev Same authorization and restrictions as `distributeWinnings`. Each group holds the winners tied
+     * at the next position, so a group of n winners covers n consecutive places and shares their combined
+     * prize. Place prizes come from `_placePrizes`, or from the escrow's payout table when it is empty, in
+     * which case only the places it pays carry a prize. Every winner in a group receives the group's prize
+     * divided by its size, rounded down; the remainders go to the overflow recipient with any other surplus.
+     * @param _escrowId The ID of the escrow to distribute.
+     * @param _tieGroups Winners by finishing position, first place first; tied winners share a group.
+     * @param _placePrizes The prize of each covered place, first place first (empty to use the payout table).
+     */
+    function distributeTiedWinnings(
+        uint256 _escrowId,
+        address[][] calldata _tieGroups,
+        uint256[] calldata _placePrizes
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        _authorizeResults(_escrowId, escrow);
+
+        uint256 places;
+        for (uint256 i = 0; i < _tieGroups.length; i++) {
+            if (_tieGroups[i].length == 0) revert EmptyTieGroup();
+            places += _tieGroups[i].length;
+        }
+        if (places == 0) revert InvalidAmount();
+        if (places > MAX_RECIPIENTS) revert TooManyRecipients();
+
+        uint256[] memory placePrizes;
+        if (_placePrizes.length == 0) {
+            uint256 paidPlaces;
+            (placePrizes, paidPlaces) = _payoutTablePrizes(_escrowId, escrow, places);
+            // Every group must start within the paid places; a tie may spill over the last one
+            uint256 lastGroupPlace = places - _tieGroups[_tieGroups.length - 1].length + 1;
+            if (lastGroupPlace > paidPlaces) revert ExceedsPaidPlaces(lastGroupPlace, paidPlaces);
+        } else {
+            if (_placePrizes.length != places) revert PayoutArraysMismatch();
+            uint256 totalPrizes;
+            for (uint256 i = 0; i < places; i++) {
+                totalPrizes += _placePrizes[i];
+            }
+            if (totalPrizes < escrow.guaranteedPrize) revert GuaranteeNotMet(totalPrizes, escrow.guaranteedPrize);
+            placePrizes = _placePrizes;
+        }
+
+        address[] memory winners = new address[](places);
+        uint256[] memory amounts = new uint256[](places);
+        uint256 place;
+        for (uint256 i = 0; i < _tieGroups.length; i++) {
+            address[] calldata group = _tieGroups[i];
+            uint256 groupPrize;
+            for (uint256 j = 0; j < group.length; j++) {
+                groupPrize += placePrizes[place + j];
+            }
+            uint256 share = groupPrize / group.length;
+            for (uint256 j = 0; j < group.length; j++) {
+                winners[place] = group[j];
+                amounts[place] = share;
+                place++;
+            }
+        }
+
+        // The guaranteed prize was enforced on the place prizes above; splitting may round the payout below it
+        _distributeWinnings(_escrowId, escrow, winners, amounts, 0);
+    }
+
+    /**
+     * @notice Shared payout logic for `distributeWinnings`, `finalizeResults`,
+     * `distributeWinningsWithAttestations`, `distributeWinningsByEntry`, `distributeByPayoutTable` and
+     * `distributeTiedWinnings`.
+     * @dev `_guaranteedPayout` is the least winners must receive in total.
+     */
+    function _distributeWinnings(
+        uint256 _escrowId,
+        Escrow storage escrow,
+        address[] memory _winners,
+        uint256[] memory _amounts,
+        uint256 _guaranteedPayout
+    ) private {
+        if (block.timestamp < escrow.endTime) revert EscrowNotEnded();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        _checkMinimumEntries(escrow);
+        if (batchSettlements[_escrowId].open) revert SettlementInProgress();
+        if (_winners.length > MAX_RECIPIENTS) revert TooManyRecipients();
+        if (_winners.length != _amounts.length) revert PayoutArraysMismatch();
+        
+        // Handle zero winners case: withdraw all funds and send to overflow recipient
+        if (_winners.length == 0) {
+            if (_guaranteedPayout > 0) revert GuaranteeNotMet(0, _guaranteedPayout);
+            uint256 maxWithdrawable = _withdrawableAssets(_escrowId, escrow);
+            
+            address overflowTo = _getOverflowRecipient(_escrowId);
+            
+            // Mark payouts as complete
+            escrow.payoutsComplete = true;
+            _removeActiveEscrow(_escrowId);
+            
+            // Emit event with overflow info
+            emit WinningsDistributed(_escrowId, _winners, _amounts, overflowTo, 0);
+            
+            // Withdraw all funds, take the fee and send the rest to overflow recipient
+            uint256 withdrawnAmount = _withdrawAssets(_escrowId, escrow, maxWithdrawable);
+            uint256 fee = _calculateFee(escrow);
+            if (fee > withdrawnAmount) {
+                fee = withdrawnAmount;
+            }
+            _collectFee(_escrowId, escrow, fee);
+            uint256 surplus = _returnUnusedGuarantee(_escrowId, escrow, withdrawnAmount - fee);
+            if (surplus > 0) {
+                escrow.token.safeTransfer(overflowTo, surplus);
+            }
+            
+            return;
+        }
+
+
+        // Use a memory array to track paid addresses to prevent duplicates in a single call.
+        address[] memory paidAddresses = new address[](_winners.length);
+        uint256 totalPayout;
+        for (uint256 i = 0; i < _winners.length; i++) {
+            address winner = _winners[i];
+            // Ensure each winner is a participant in the escrow (holding its tickets, if ticketed)
+            _checkWinner(_escrowId, escrow, winner);
+            // Check for duplicates
+            for (uint256 j = 0; j < i; j++) {
+                if (paidAddresses[j] == winner) {
+                    revert NoDuplicateWinners();
+                }
+            }
+            paidAddresses[i] = winner;
+            totalPayout += _amounts[i];
+        }
+        if (totalPayout < _guaranteedPayout) revert GuaranteeNotMet(totalPayout, _guaranteedPayout);
+
+        uint256 maxWithdrawable = _withdrawableAssets(_escrowId, escrow);
+        uint256 fee = _calculateFee(escrow);
+
+        // Require that total payout plus the protocol fee does not exceed max withdrawable
+        if (totalPayout + fee > maxWithdrawable) {
+            revert InsufficientPool(totalPayout + fee, maxWithdrawable);
+        }
+
+        address overflowTo = _getOverflowRecipient(_escrowId);
+
+        // --- EFFECTS (CEI) ---
+        // Mark payouts as complete
+        escrow.payoutsComplete = true;
+        _removeActiveEscrow(_escrowId);
+
+        // --- INTERACTIONS ---
+        uint256 overflowAmount = 0;
+        if (maxWithdrawable > 0) {
+            uint256 withdrawnAmount = _withdrawAssets(_escrowId, escrow, maxWithdrawable);
+
+            // Ensure we withdrew at least the required amount
+            if (withdrawnAmount < totalPayout + fee) {
+                revert InsufficientWithdrawn(withdrawnAmount, totalPayout + fee);
+            }
+
+            _collectFee(_escrowId, escrow, fee);
+
+            // Distribute exact amounts to all winners
+            for (uint256 i = 0; i < _winners.length; i++) {
+                uint256 amount = _amounts[i];
+                if (amount > 0) {
+                    escrow.token.safeTransfer(_winners[i], amount);
+                }
+            }
+
+            // Repay any unused guarantee, then transfer overflow to recipient
+            overflowAmount = _returnUnusedGuarantee(_escrowId, escrow, withdrawnAmount - totalPayout - fee);
+        }
+
+        // Emit the distribution event after interactions (includes overflow info)
+        emit WinningsDistributed(_escrowId, _winners, _amounts, overflowTo, overflowAmount);
+
+        // Transfer overflow amount if any
+        if (overflowAmount > 0) {
+            escrow.token.safeTransfer(overflowTo, overflowAmount);
+        }
+    }
+
+    /**
+     * @notice Prizes of the first `_places` places under the escrow's payout table.
+     * @dev The prize pool is everything withdrawable less the protocol fee and any guarantee deposits,
+     * topped up from the guarantee to the guaranteed prize. Place i receives the bps of its tier of the
+     * pool, rounded down; places beyond the table's paid places get nothing.
+     * @return prizes The prize of each place, first place first.
+     * @return paidPlaces The number of places the table pays.
+     */
+    function _payoutTablePrizes(
+        uint256 _escrowId,
+        Escrow storage escrow,
+        uint256 _places
+    ) private view returns (uint256[] memory prizes, uint256 paidPlaces) {
+        PayoutTier[] storage table = payoutTables[_escrowId];
+        if (table.length == 0) revert NoPayoutTable();
+        paidPlaces = table[table.length - 1].lastRank;
+
+        uint256 available = _withdrawableAssets(_escrowId, escrow);
+        uint256 fee = _calculateFee(escrow);
+        available = available > fee ? available - fee : 0;
+
+        // Guarantee money only tops the pool up to the guaranteed prize
+        uint256 prizePool = available > escrow.guaranteeDeposited ? available - escrow.guaranteeDeposited : 0;
+        if (prizePool < escrow.guaranteedPrize) {
+            if (available < escrow.guaranteedPrize) revert GuaranteeNotMet(available, escrow.guaranteedPrize);
+            prizePool = escrow.guaranteedPrize;
+        }
+
+        prizes = new uint256[](_places);
+        uint256 tier;
+        for (uint256 i = 0; i < _places && i < paidPlaces; i++) {
+            if (i + 1 > table[tier].lastRank) tier++;
+            prizes[i] = (prizePool * table[tier].bps) / BPS_DENOMINATOR;
+        }
+    }
+
+    /**
+     * @notice Commits the final results of an escrow as a Merkle root of (winner, amount) leaves.
+     * @dev Alternative to `distributeWinnings` for fields with more than MAX_RECIPIENTS paid places.
+     * Same authorization and restrictions as `distributeWinnings`. Withdraws everything from the escrow's
+     * strategy, reserves `_totalPayout` for winners to claim via `claimWinnings`, and sends any surplus to
+     * the overflow recipient immediately. Leaves are encoded as
+     * `keccak256(bytes.concat(keccak256(abi.encode(winner, amount))))`, matching OpenZeppelin's
+     * StandardMerkleTree (see `scripts/merkle_payouts.ts`).
+     * @param _escrowId The ID of the escrow to settle.
+     * @param _merkleRoot The root of the payout tree.
+     * @param _totalPayout The sum of all leaf amounts in the tree.
+     * @param _claimDeadline Timestamp after which unclaimed winnings can be swept to the overflow recipient.
+     */
+    function postMerkleRoot(
+        uint256 _escrowId,
+        bytes32 _merkleRoot,
+        uint256 _totalPayout,
+        uint256 _claimDeadline
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        _authorizeResults(_escrowId, escrow);
+        if (block.timestamp < escrow.endTime) revert EscrowNotEnded();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        _checkMinimumEntries(escrow);
+        if (batchSettlements[_escrowId].open) revert SettlementInProgress();
+        if (_merkleRoot == bytes32(0)) revert InvalidMerkleRoot();
+        if (_claimDeadline < block.timestamp + MINIMUM_CLAIM_PERIOD) revert ClaimDeadlineTooSoon();
+        _checkGuarantee(escrow, _totalPayout);
+
+        uint256 maxWithdrawable = _withdrawableAssets(_escrowId, escrow);
+        uint256 fee = _calculateFee(escrow);
+        if (_totalPayout + fee > maxWithdrawable) {
+            revert InsufficientPool(_totalPayout + fee, maxWithdrawable);
+        }
+
+        address overflowTo = _getOverflowRecipient(_escrowId);
+
+        // --- EFFECTS (CEI) ---
+        escrow.payoutsComplete = true;
+        _removeActiveEscrow(_escrowId);
+
+        MerklePayout storage payout = merklePayouts[_escrowId];
+        payout.merkleRoot = _merkleRoot;
+        payout.totalPayout = _totalPayout;
+        payout.unclaimedAmount = _totalPayout;
+        payout.claimDeadline = _claimDeadline;
+
+        // --- INTERACTIONS ---
+        uint256 overflowAmount = 0;
+        if (maxWithdrawable > 0) {
+            uint256 withdrawnAmount = _withdrawAssets(_escrowId, escrow, maxWithdrawable);
+
+            // Ensure every leaf in the tree can be paid
+            if (withdrawnAmount < _totalPayout + fee) {
+                revert InsufficientWithdrawn(withdrawnAmount, _totalPayout + fee);
+            }
+            overflowAmount = withdrawnAmount - _totalPayout - fee;
+        }
+
+        _collectFee(_escrowId, escrow, fee);
+        overflowAmount = _returnUnusedGuarantee(_escrowId, escrow, overflowAmount);
+
+        emit MerkleRootPosted(_escrowId, _merkleRoot, _totalPayout, _claimDeadline, overflowTo, overflowAmount);
+
+        if (overflowAmount > 0) {
+            escrow.token.safeTransfer(overflowTo, overflowAmount);
+        }
+    }
+
+    /**
+     * @notice Claims the caller's winnings from an escrow settled via `postMerkleRoot`.
+     * @param _escrowId The ID of the escrow.
+     * @param _amount The amount in the caller's leaf.
+     * @param _proof The Merkle proof for the caller's leaf.
+     */
+    function claimWinnings(
+        uint256 _escrowId,
+        uint256 _amount,
+        bytes32[] calldata _proof
+    ) external onlyDelegateCall nonReentrant {
+        MerklePayout storage payout = merklePayouts[_escrowId];
+
+        if (payout.merkleRoot == bytes32(0)) revert NoMerklePayout();
+        if (block.timestamp > payout.claimDeadline) revert ClaimPeriodEnded();
+        if (winningsClaimed[_escrowId][msg.sender]) revert WinningsAlreadyClaimed();
+        _checkWinner(_escrowId, escrows[_escrowId], msg.sender);
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, _amount))));
+        if (!MerkleProof.verifyCalldata(_proof, payout.merkleRoot, leaf)) revert InvalidProof();
+
+        winningsClaimed[_escrowId][msg.sender] = true;
+        payout.unclaimedAmount -= _amount;
+
+        emit WinningsClaimed(_escrowId, msg.sender, _amount);
+
+        if (_amount > 0) {
+            escrows[_escrowId].token.safeTransfer(msg.sender, _amount);
+        }
+    }
+
+    /**
+     * @notice Sends winnings left unclaimed after the claim deadline to the overflow recipient.
+     * @dev Callable by anyone once the claim deadline has passed.
+     * @param _escrowId The ID of the escrow.
+     */
+    function sweepUnclaimedWinnings(uint256 _escrowId) external onlyDelegateCall nonReentrant {
+        MerklePayout storage payout = merklePayouts[_escrowId];
+
+        if (payout.merkleRoot == bytes32(0)) revert NoMerklePayout();
+        if (block.timestamp <= payout.claimDeadline) revert ClaimPeriodNotEnded();
+
+        uint256 amount = payout.unclaimedAmount;
+        if (amount == 0) revert InvalidAmount();
+        payout.unclaimedAmount = 0;
+
+        address overflowTo = _getOverflowRecipient(_escrowId);
+        emit UnclaimedWinningsSwept(_escrowId, overflowTo, amount);
+
+        escrows[_escrowId].token.safeTransfer(overflowTo, amount);
+    }
+
+    /**
+     * @notice Opens a multi-transaction settlement for an escrow with a committed payout total.
+     * @dev Same authorization and restrictions as `distributeWinnings`; under a challenge window the
+     * proposal commits to the total, and the batches are then paid by the organizer, a delegate or a payout
+     * operator. Withdraws everything from the escrow's strategy into this contract so winners can be paid
+     * across several `distributeWinningsBatch` calls, then `finalizeSettlement` sends the remainder to the
+     * overflow recipient. The protocol fee is collected when settlement opens.
+     * @param _escrowId The ID of the escrow to settle.
+     * @param _committedTotal The total amount that will be paid to winners across all batches.
+     */
+    function openSettlement(
+        uint256 _escrowId,
+        uint256 _committedTotal
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+        BatchSettlement storage settlement = batchSettlements[_escrowId];
+
+        _authorizeResults(_escrowId, escrow);
+        if (block.timestamp < escrow.endTime) revert EscrowNotEnded();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        _checkMinimumEntries(escrow);
+        if (settlement.open) revert SettlementInProgress();
+        _checkGuarantee(escrow, _committedTotal);
+
+        uint256 maxWithdrawable = _withdrawableAssets(_escrowId, escrow);
+        uint256 fee = _calculateFee(escrow);
+        if (_committedTotal + fee > maxWithdrawable) {
+            revert InsufficientPool(_committedTotal + fee, maxWithdrawable);
+        }
+
+        // --- EFFECTS (CEI) ---
+        settlement.open = true;
+        settlement.committedTotal = _committedTotal;
+
+        // --- INTERACTIONS ---
+        uint256 withdrawnAmount = _withdrawAssets(_escrowId, escrow, maxWithdrawable);
+        if (withdrawnAmount < _committedTotal + fee) {
+            revert InsufficientWithdrawn(withdrawnAmount, _committedTotal + fee);
+        }
+        // The fee is taken up front; the stored amount is what remains for winners and overflow
+        settlement.withdrawnAmount = withdrawnAmount - fee;
+
+        emit SettlementOpened(_escrowId, _committedTotal, withdrawnAmount);
+
+        _collectFee(_escrowId, escrow, fee);
+    }
+
+    /**
+     * @notice Pays a batch of winners from an open settlement.
+     * @dev Batches have no size limit beyond the block gas limit. A winner can only be paid once
+     * per escrow across all batches, and the running total can never exceed the committed total.
+     * @param _escrowId The ID of the escrow.
+     * @param _winners An array of winner addresses.
+     * @param _amounts An array of amounts corresponding to each winner.
+     */
+    function distributeWinningsBatch(
+        uint256 _escrowId,
+        address[] calldata _winners,
+        uint256[] calldata _amounts
+    ) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+        BatchSettlement storage settlement = batchSettlements[_escrowId];
+
+        _checkSettler(_escrowId, escrow);
+        if (!settlement.open) revert SettlementNotOpen();
+        if (_winners.length != _amounts.length) revert PayoutArraysMismatch();
+
+        // --- EFFECTS (CEI) ---
+        uint256 paidTotal = settlement.paidTotal;
+        for (uint256 i = 0; i < _winners.length; i++) {
+            address winner = _winners[i];
+            _checkWinner(_escrowId, escrow, winner);
+            if (settlementPaid[_escrowId][winner]) revert NoDuplicateWinners();
+            settlementPaid[_escrowId][winner] = true;
+            paidTotal += _amounts[i];
+        }
+        if (paidTotal > settlement.committedTotal) {
+            revert ExceedsCommittedTotal(paidTotal, settlement.committedTotal);
+        }
+        settlement.paidTotal = paidTotal;
+
+        // --- INTERACTIONS ---
+        for (uint256 i = 0; i < _winners.length; i++) {
+            if (_amounts[i] > 0) {
+                escrow.token.safeTransfer(_winners[i], _amounts[i]);
+            }
+        }
+
+        emit WinningsBatchDistributed(_escrowId, _winners, _amounts, paidTotal);
+    }
+
+    /**
+     * @notice Completes an open settlement and sends the remainder to the overflow recipient.
+     * @dev Requires that the full committed total has been paid out.
+     * @param _escrowId The ID of the escrow.
+     */
+    function finalizeSettlement(uint256 _escrowId) external onlyDelegateCall whenNotPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+        BatchSettlement storage settlement = batchSettlements[_escrowId];
+
+        _checkSettler(_escrowId, escrow);
+        if (!settlement.open) revert SettlementNotOpen();
+        if (settlement.paidTotal != settlement.committedTotal) {
+            revert SettlementIncomplete(settlement.paidTotal, settlement.committedTotal);
+        }
+
+        address overflowTo = _getOverflowRecipient(_escrowId);
+
+        // --- EFFECTS (CEI) ---
+        settlement.open = false;
+        escrow.payoutsComplete = true;
+        _removeActiveEscrow(_escrowId);
+
+        uint256 overflowAmount = _returnUnusedGuarantee(
+            _escrowId,
+            escrow,
+            settlement.withdrawnAmount - settlement.paidTotal
+        );
+
+        emit SettlementFinalized(_escrowId, settlement.paidTotal, overflowTo, overflowAmount);
+
+        // --- INTERACTIONS ---
+        if (overflowAmount > 0) {
+            escrow.token.safeTransfer(overflowTo, overflowAmount);
+        }
+    }
+
+    /**
+     * @notice Cancels an escrow and opens pull-based refunds for participants and sponsors.
+     * @dev Can be called by the organizer or a config admin any time before payouts are complete.
+     * Withdraws everything from the escrow's strategy into this contract; refunds are then
+     * claimed via `claimRefund`. If the strategy returns less than was deposited (slippage), every
+     * claim is reduced pro-rata so the last claimant is not left short.
+     * @param _escrowId The ID of the escrow to cancel.
+     */
+    function cancelEscrow(uint256 _escrowId) external onlyDelegateCall nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (msg.sender != escrow.organizer && !hasRole(CONFIG_ADMIN_ROLE, msg.sender)) revert NotOrganizerOrOwner();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        if (batchSettlements[_escrowId].open) revert SettlementInProgress();
+
+        _cancelEscrow(_escrowId, escrow, false);
+    }
+
+    /**
+     * @notice Cancels an escrow that ended without reaching its minimum entries, opening refunds.
+     * @dev Callable by anyone once `endTime` has passed with `totalEntries` below `minEntries`. Refunds
+     * work exactly as for `cancelEscrow`.
+     * @param _escrowId The ID of the escrow to cancel.
+     */
+    function cancelUnderfilledEscrow(uint256 _escrowId) external onlyDelegateCall nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (escrow.totalEntries >= escrow.minEntries) revert MinimumEntriesMet();
+        if (block.timestamp < escrow.endTime) revert EscrowNotEnded();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+
+        emit EscrowUnderfilled(_escrowId, escrow.totalEntries, escrow.minEntries);
+
+        _cancelEscrow(_escrowId, escrow, false);
+    }
+
+    /**
+     * @notice Shared cancellation logic: marks the escrow cancelled and recovers its funds for refunds.
+     * @dev An `_emergency` exit emits `EmergencyWithdrawal` instead of `EscrowCancelled`, and withdraws from
+     * a strategy with `_emergencyWithdrawFromStrategy`.
+     */
+    function _cancelEscrow(uint256 _escrowId, Escrow storage escrow, bool _emergency) private {
+        // --- EFFECTS (CEI) ---
+        escrow.cancelled = true;
+        _removeActiveEscrow(_escrowId);
+
+        // --- INTERACTIONS ---
+        uint256 withdrawnAmount;
+        if (_emergency && address(escrow.lendingPool) == address(0)) {
+            withdrawnAmount = _emergencyWithdrawFromStrategy(_escrowId, escrow);
+        } else {
+            // Unwind a lending position first so supplied funds can be refunded
+            if (escrow.invested && !escrow.lendingWithdrawn) {
+                _unwindLendingPosition(_escrowId, escrow, 0);
+            }
+            withdrawnAmount = _withdrawAssets(_escrowId, escrow, _withdrawableAssets(_escrowId, escrow));
+        }
+        uint256 surplus = _recordRefundableAssets(escrow, withdrawnAmount);
+
+        if (_emergency) {
+            emit EmergencyWithdrawal(_escrowId, escrow.refundableAssets);
+        } else {
+            emit EscrowCancelled(_escrowId, msg.sender, escrow.refundableAssets);
+        }
+
+        if (surplus > 0) {
+            escrow.token.safeTransfer(_getOverflowRecipient(_escrowId), surplus);
+        }
+    }
+
+    /**
+     * @notice Withdraws an escrow's whole strategy position for `emergencyWithdraw`.
+     * @dev If the strategy's `maxWithdraw` reverts, falls back to everything the escrow owes. Reverts with
+     * `EmergencyWithdrawFailed` if the withdrawal itself fails.
+     */
+    function _emergencyWithdrawFromStrategy(uint256 _escrowId, Escrow storage escrow) private returns (uint256) {
+        uint256 assets;
+        try escrow.strategy.maxWithdraw(_escrowId) returns (uint256 maxAssets) {
+            assets = maxAssets;
+        } catch {
+            assets = _totalOwed(escrow);
+        }
+
+        uint256 balanceBefore = escrow.token.balanceOf(address(this));
+        try escrow.strategy.withdraw(_escrowId, assets, address(this)) {
+            return escrow.token.balanceOf(address(this)) - balanceBefore;
+        } catch {
+            revert EmergencyWithdrawFailed(_escrowId);
+        }
+    }
+
+    /**
+     * @notice Emergency exit: pulls an escrow's funds out of its vault and opens refunds.
+     * @dev Can only be called by a config admin while the manager is paused, before payouts are
+     * complete and outside a batched settlement. Refunds are claimed via `claimRefund` by recorded
+     * entries and `addToPool` contributions, exactly as for a cancelled escrow. A strategy whose
+     * `maxWithdraw` reverts is asked for everything the escrow owes instead. If the strategy cannot
+     * release the funds the whole call reverts with `EmergencyWithdrawFailed`, leaving the escrow
+     * untouched so it can be retried once the vault recovers.
+     * @param _escrowId The ID of the escrow to exit.
+     */
+    function emergencyWithdraw(
+        uint256 _escrowId
+    ) external onlyDelegateCall onlyRole(CONFIG_ADMIN_ROLE) whenPaused nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (escrow.organizer == address(0)) revert EscrowNotFound();
+        if (escrow.payoutsComplete) revert PayoutsAlreadyComplete();
+        if (escrow.cancelled) revert EscrowIsCancelled();
+        if (batchSettlements[_escrowId].open) revert SettlementInProgress();
+
+        _cancelEscrow(_escrowId, escrow, true);
+    }
+
+    /**
+     * @notice Reverts if a settlement would pay winners less than the escrow's guaranteed prize.
+     */
+    function _checkGuarantee(Escrow storage escrow, uint256 _totalPayout) private view {
+        if (_totalPayout < escrow.guaranteedPrize) revert GuaranteeNotMet(_totalPayout, escrow.guaranteedPrize);
+    }
+
+    /**
+     * @notice Repays the guarantor from settlement surplus, up to their deposits.
+     * @dev Guarantee money is spent last, so whatever is left over, up to the deposits, is unused guarantee.
+     * @return The surplus remaining for the overflow recipient.
+     */
+    function _returnUnusedGuarantee(
+        uint256 _escrowId,
+        Escrow storage escrow,
+        uint256 _surplus
+    ) private returns (uint256) {
+        uint256 unused = escrow.guaranteeDeposited < _surplus ? escrow.guaranteeDeposited : _surplus;
+        if (unused == 0) {
+            return _surplus;
+        }
+
+        emit GuaranteeReturned(_escrowId, escrow.guarantor, unused);
+        escrow.token.safeTransfer(escrow.guarantor, unused);
+        return _surplus - unused;
+    }
+
+    /**
+     * @notice Reverts if the escrow ended short of its minimum entries; it can only be cancelled.
+     */
+    function _checkMinimumEntries(Escrow storage escrow) private view {
+        if (escrow.totalEntries < escrow.minEntries) {
+            revert MinimumEntriesNotMet(escrow.totalEntries, escrow.minEntries);
+        }
+    }
+
+    /**
+     * @notice Reverts unless the caller may settle the escrow: its organizer, one of the organizer's
+     * delegate operators, or a holder of PAYOUT_OPERATOR_ROLE.
+     */
+    function _checkSettler(uint256 _escrowId, Escrow storage escrow) private view {
+        if (
+            msg.sender != escrow.organizer &&
+            !escrowOperators[_escrowId][escrow.organizer][msg.sender] &&
+            !hasRole(PAYOUT_OPERATOR_ROLE, msg.sender)
+        ) {
+            revert NotOrganizer();
+        }
+    }
+
+    /**
+     * @notice Reverts unless the current call may settle the escrow with the results it carries.
+     * @dev Without a challenge window or scorer threshold the caller must be a settler (see `_checkSettler`).
+     * Otherwise anyone may make the call once a proposal of `keccak256(msg.data)` has passed its window, or
+     * has been attested while a threshold is set, which consumes it.
+     */
+    function _authorizeResults(uint256 _escrowId, Escrow storage escrow) private {
+        if (challengeWindow == 0 && scorerThreshold == 0) {
+            _checkSettler(_escrowId, escrow);
+        } else {
+            _finalizeProposal(_escrowId, keccak256(msg.data));
+        }
+    }
+
+    /**
+     * @notice Consumes an escrow's pending proposal, which must have passed its challenge window and
+     * committed to `_resultsHash`, and must have been attested while a scorer threshold is set.
+     */
+    function _finalizeProposal(uint256 _escrowId, bytes32 _resultsHash) private {
+        ResultProposal storage proposal = resultProposals[_escrowId];
+        if (scorerThreshold != 0 && !proposal.attested) revert AttestationsRequired();
+        if (proposal.challengeDeadline == 0) revert NoResultsProposed();
+        if (block.timestamp < proposal.challengeDeadline) revert ChallengeWindowActive(proposal.challengeDeadline);
+        if (proposal.resultsHash != _resultsHash) revert ResultsMismatch();
+        delete resultProposals[_escrowId];
+
+        emit ResultsFinalized(_escrowId, msg.sender, _resultsHash);
+    }
+
+    /**
+     * @notice Reverts unless `_signatures` hold at least `scorerThreshold` signatures of `_digest` by distinct
+     * scorers, ordered by signer address.
+     */
+    function _checkAttestations(bytes32 _digest, bytes[] calldata _signatures) private view {
+        uint256 threshold = scorerThreshold;
+        if (threshold == 0) revert ScorersNotConfigured();
+        if (_signatures.length < threshold) revert InsufficientAttestations(_signatures.length, threshold);
+
+        address lastSigner;
+        for (uint256 i = 0; i < _signatures.length; i++) {
+            address signer = ECDSA.recover(_digest, _signatures[i]);
+            // Ascending order rules out counting the same scorer twice
+            if (!isScorer[signer] || signer <= lastSigner) revert InvalidScorerSignature();
+            lastSigner = signer;
+        }
+    }
+
+    /**
+     * @notice Reverts unless `_winner` holds entries in the escrow and, for ticketed escrows, entry tickets.
+     */
+    function _checkWinner(uint256 _escrowId, Escrow storage escrow, address _winner) private view {
+        if (!escrow.participants[_winner]) revert WinnerNotParticipant();
+        if (escrow.ticketed && entryTicket.balanceOf(_winner, _escrowId) == 0) revert WinnerHoldsNoTicket();
+    }
+
+    /**
+     * @notice Records the assets recovered for refunds, capped at what is owed to players and sponsors.
+     * @dev Anything beyond what is owed (e.g. strategy yield) is surplus for the overflow recipient.
+     * @return surplus The amount the caller must send to the overflow recipient.
+     */
+    function _recordRefundableAssets(
+        Escrow storage escrow,
+        uint256 _withdrawnAmount
+    ) private returns (uint256 surplus) {
+        uint256 totalOwed = _totalOwed(escrow);
+        if (_withdrawnAmount > totalOwed) {
+            surplus = _withdrawnAmount - totalOwed;
+            _withdrawnAmount = totalOwed;
+        }
+        escrow.refundableAssets = _withdrawnAmount;
+    }
+
+    /**
+     * @notice Claims the caller's refund from a cancelled escrow.
+     * @dev Refunds `dues * userEntryCount` plus any `addToPool` contributions, scaled by the
+     * ratio of recovered assets to the total owed. Each account can claim once.
+     * @param _escrowId The ID of the cancelled escrow.
+     */
+    function claimRefund(uint256 _escrowId) external onlyDelegateCall nonReentrant {
+        Escrow storage escrow = escrows[_escrowId];
+
+        if (!escrow.cancelled) revert EscrowNotCancelled();
+        if (refundClaimed[_escrowId][msg.sender]) revert RefundAlreadyClaimed();
+
+        uint256 amount = getRefundAmount(_escrowId, msg.sender);
+        if (amount == 0) revert NothingToRefund();
+
+        refundClaimed[_escrowId][msg.sender] = true;
+
+        emit RefundClaimed(_escrowId, msg.sender, amount);
+
+        escrow.token.safeTransfer(msg.sender, amount);
+    }
+}
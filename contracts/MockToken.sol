@@ -2,18 +2,19 @@
 pragma solidity ^0.8.20;
 
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
  * @title MockToken
  * @author aiSports
- * @notice A standard ERC20 token for testing purposes.
+ * @notice A standard ERC20 token with EIP-2612 permit for testing purposes.
  * @dev Includes a public mint function to allow any account to mint tokens for tests.
  */
-contract MockToken is ERC20, Ownable {
-    constructor() ERC20("Mock Token", "MTK") Ownable(msg.sender) {}
+contract MockToken is ERC20, ERC20Permit, Ownable {
+    constructor() ERC20("Mock Token", "MTK") ERC20Permit("Mock Token") Ownable(msg.sender) {}
 
     function mint(address to, uint256 amount) public {
         _mint(to, amount);
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC1155} from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+
+/**
+ * @dev ERC-1155 entry tickets issued by DFSEscrowManager. The token ID is the escrow ID and each unit is
+ * one entry. Only the manager the ticket contract was deployed for may mint and burn.
+ */
+interface IEntryTicket is IERC1155 {
+    /**
+     * @notice Returns the manager allowed to mint and burn tickets.
+     */
+    function manager() external view returns (address);
+
+    /**
+     * @notice Mints `amount` tickets of `escrowId` to `to`, without the ERC-1155 acceptance check.
+     */
+    function mint(address to, uint256 escrowId, uint256 amount) external;
+
+    /**
+     * @notice Burns `amount` tickets of `escrowId` from `from`.
+     */
+    function burn(address from, uint256 escrowId, uint256 amount) external;
+}
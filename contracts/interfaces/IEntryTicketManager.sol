@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @dev Callback DFSEntryTicket makes to its manager on every holder-to-holder ticket transfer, so the
+ * manager can move the underlying entries (or reject the transfer by reverting).
+ */
+interface IEntryTicketManager {
+    /**
+     * @notice Moves `amount` entries of `escrowId` from `from` to `to`.
+     */
+    function onTicketTransfer(address from, address to, uint256 escrowId, uint256 amount) external;
+}
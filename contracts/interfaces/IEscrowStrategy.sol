@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @dev Custody adapter used by DFSEscrowManager to hold (and optionally earn yield on) an escrow's funds.
+ * Positions are keyed by escrow ID. Only the manager the adapter was deployed for may call the
+ * mutating functions. The manager transfers tokens to the adapter before calling `deposit`.
+ */
+interface IEscrowStrategy {
+    /**
+     * @notice Prepares custody for a newly created escrow.
+     * @param escrowId The escrow ID assigned by the manager.
+     * @param asset The escrow's ERC20 token.
+     * @param name The league name, used by adapters that deploy a vault per escrow.
+     * @return vault The vault holding the escrow's funds, or zero if the adapter holds them directly.
+     */
+    function initializeEscrow(uint256 escrowId, address asset, string calldata name) external returns (address vault);
+
+    /**
+     * @notice Puts `assets` already transferred to the adapter to work for `escrowId`.
+     */
+    function deposit(uint256 escrowId, uint256 assets) external;
+
+    /**
+     * @notice Withdraws up to `assets` of `escrowId`'s position to `receiver`.
+     * @return The amount of assets sent to `receiver`.
+     */
+    function withdraw(uint256 escrowId, uint256 assets, address receiver) external returns (uint256);
+
+    /**
+     * @notice Returns the assets `escrowId` can currently withdraw.
+     */
+    function maxWithdraw(uint256 escrowId) external view returns (uint256);
+}
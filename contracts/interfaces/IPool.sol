@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @dev Minimal subset of the Aave V3 `IPool` interface used by DFSEscrowManager
+ * to supply pooled entry fees after lock and withdraw them before payout.
+ */
+interface IPool {
+    function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode) external;
+
+    function withdraw(address asset, uint256 amount, address to) external returns (uint256);
+
+    /// @dev Current liquidity index (ray): an aToken balance is its scaled balance times this index.
+    function getReserveNormalizedIncome(address asset) external view returns (uint256);
+}
@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IPool} from "../interfaces/IPool.sol";
+
+/**
+ * @title MockAToken
+ * @author aiSports
+ * @notice A simplified mock of an Aave V3 aToken for testing purposes.
+ * @dev Holds the underlying asset for its reserve. As in Aave, balances are stored scaled by the
+ * pool's liquidity index, so `balanceOf` grows for every holder as the index rises; only the
+ * owning MockAavePool can mint, burn or move underlying.
+ */
+contract MockAToken is ERC20 {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant RAY = 1e27;
+
+    address public immutable pool;
+    IERC20 public immutable underlyingAsset;
+
+    constructor(
+        address _underlyingAsset,
+        string memory _name,
+        string memory _symbol
+    ) ERC20(_name, _symbol) {
+        pool = msg.sender;
+        underlyingAsset = IERC20(_underlyingAsset);
+    }
+
+    modifier onlyPool() {
+        require(msg.sender == pool, "MockAToken: Caller must be pool");
+        _;
+    }
+
+    function mint(address _to, uint256 _scaledAmount) external onlyPool {
+        _mint(_to, _scaledAmount);
+    }
+
+    function burn(address _from, uint256 _scaledAmount) external onlyPool {
+        _burn(_from, _scaledAmount);
+    }
+
+    function transferUnderlyingTo(address _to, uint256 _amount) external onlyPool {
+        underlyingAsset.safeTransfer(_to, _amount);
+    }
+
+    function scaledBalanceOf(address _user) external view returns (uint256) {
+        return super.balanceOf(_user);
+    }
+
+    function scaledTotalSupply() external view returns (uint256) {
+        return super.totalSupply();
+    }
+
+    function balanceOf(address _user) public view override returns (uint256) {
+        return (super.balanceOf(_user) * _index()) / RAY;
+    }
+
+    function totalSupply() public view override returns (uint256) {
+        return (super.totalSupply() * _index()) / RAY;
+    }
+
+    function _index() internal view returns (uint256) {
+        return IPool(pool).getReserveNormalizedIncome(address(underlyingAsset));
+    }
+}
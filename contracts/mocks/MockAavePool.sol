@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IPool} from "../interfaces/IPool.sol";
+import {MockAToken} from "./MockAToken.sol";
+
+/**
+ * @title MockAavePool
+ * @author aiSports
+ * @notice A simplified mock of an Aave V3 Pool for testing purposes.
+ * @dev Supports `supply` and `withdraw` for reserves initialized via `initReserve`.
+ * Yield is simulated with `accrueYield`, which raises the reserve's liquidity index so that every
+ * aToken holder earns in proportion to their scaled balance; tests must fund the aToken with
+ * matching underlying so positions can be fully withdrawn.
+ */
+contract MockAavePool is IPool {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant RAY = 1e27;
+
+    // asset => aToken
+    mapping(address => MockAToken) public aTokens;
+    // asset => liquidity index (ray)
+    mapping(address => uint256) public liquidityIndex;
+
+    event ReserveInitialized(address indexed asset, address aToken);
+
+    function initReserve(address _asset) external returns (address) {
+        require(address(aTokens[_asset]) == address(0), "MockAavePool: Reserve exists");
+        MockAToken aToken = new MockAToken(_asset, "Mock aToken", "maTKN");
+        aTokens[_asset] = aToken;
+        liquidityIndex[_asset] = RAY;
+        emit ReserveInitialized(_asset, address(aToken));
+        return address(aToken);
+    }
+
+    function supply(address _asset, uint256 _amount, address _onBehalfOf, uint16) external override {
+        MockAToken aToken = _getAToken(_asset);
+        // As in Aave, the underlying is held by the aToken contract
+        IERC20(_asset).safeTransferFrom(msg.sender, address(aToken), _amount);
+        aToken.mint(_onBehalfOf, (_amount * RAY) / liquidityIndex[_asset]);
+    }
+
+    function withdraw(address _asset, uint256 _amount, address _to) external override returns (uint256) {
+        MockAToken aToken = _getAToken(_asset);
+        uint256 amountToWithdraw = _amount;
+        if (_amount == type(uint256).max) {
+            amountToWithdraw = aToken.balanceOf(msg.sender);
+        }
+        // Scaled burn rounds up, so a withdrawal can never take more than the caller's balance
+        uint256 index = liquidityIndex[_asset];
+        aToken.burn(msg.sender, (amountToWithdraw * RAY + index - 1) / index);
+        aToken.transferUnderlyingTo(_to, amountToWithdraw);
+        return amountToWithdraw;
+    }
+
+    function getReserveNormalizedIncome(address _asset) external view override returns (uint256) {
+        return liquidityIndex[_asset];
+    }
+
+    /**
+     * @notice Simulates interest by raising the liquidity index so all aToken holders earn `_amount` in total.
+     */
+    function accrueYield(address _asset, uint256 _amount) external {
+        uint256 scaledSupply = _getAToken(_asset).scaledTotalSupply();
+        require(scaledSupply != 0, "MockAavePool: No supply");
+        liquidityIndex[_asset] += (_amount * RAY) / scaledSupply;
+    }
+
+    function _getAToken(address _asset) internal view returns (MockAToken) {
+        MockAToken aToken = aTokens[_asset];
+        require(address(aToken) != address(0), "MockAavePool: Reserve not initialized");
+        return aToken;
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {ERC4626} from "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+
+/**
+ * @title MockERC4626Vault
+ * @author aiSports
+ * @notice A standard OpenZeppelin ERC-4626 vault for testing ERC4626Strategy.
+ * @dev Yield can be simulated by transferring assets directly to the vault.
+ */
+contract MockERC4626Vault is ERC4626 {
+    constructor(address assetAddress) ERC20("Mock ERC4626 Vault", "mVAULT") ERC4626(IERC20(assetAddress)) {}
+}
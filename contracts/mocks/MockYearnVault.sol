@@ -22,6 +22,8 @@ contract MockYearnVault is IYearnVault, ERC20 {
     mapping(address => uint256) public roles;
     uint256 public depositLimit;
     uint256 public slippageBps; // Slippage in basis points (e.g., 100 bps = 1%)
+    bool public withdrawalsPaused; // Simulates a misbehaving vault that reverts on withdraw
+    bool public maxWithdrawReverts; // Simulates a misbehaving vault whose maxWithdraw view reverts
 
     // --- Constructor ---
     constructor(
@@ -51,6 +53,7 @@ contract MockYearnVault is IYearnVault, ERC20 {
         // In this mock, the EscrowManager (`_owner`) calls withdraw and is also the `_receiver`.
         // We just need to ensure we transfer the assets out.
         require(_owner == msg.sender, "MockVault: Caller must be owner");
+        require(!withdrawalsPaused, "MockVault: Withdrawals paused");
         
         uint256 amountToTransfer = _assets;
         if (slippageBps > 0) {
@@ -78,6 +81,14 @@ contract MockYearnVault is IYearnVault, ERC20 {
         slippageBps = _slippageBps;
     }
 
+    function set_withdrawals_paused(bool _paused) external {
+        withdrawalsPaused = _paused;
+    }
+
+    function set_max_withdraw_reverts(bool _reverts) external {
+        maxWithdrawReverts = _reverts;
+    }
+
     // --- Implemented ERC4626 Functions ---
 
     function asset() external view override returns (address) {
@@ -116,6 +127,7 @@ contract MockYearnVault is IYearnVault, ERC20 {
     }
 
     function maxWithdraw(address) external view override returns (uint256) {
+        require(!maxWithdrawReverts, "MockVault: maxWithdraw broken");
         return this.totalAssets();
     }
 
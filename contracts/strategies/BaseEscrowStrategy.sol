@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IEscrowStrategy} from "../interfaces/IEscrowStrategy.sol";
+
+/**
+ * @title BaseEscrowStrategy
+ * @author aiSports
+ * @notice Shared access control and per-escrow asset bookkeeping for DFSEscrowManager strategies.
+ */
+abstract contract BaseEscrowStrategy is IEscrowStrategy {
+    address public immutable manager;
+
+    // escrowId => token held for that escrow
+    mapping(uint256 => IERC20) public escrowAssets;
+
+    error NotManager();
+    error InvalidManager();
+    error EscrowAlreadyInitialized();
+    error EscrowNotInitialized();
+
+    constructor(address _manager) {
+        if (_manager == address(0)) revert InvalidManager();
+        manager = _manager;
+    }
+
+    modifier onlyManager() {
+        if (msg.sender != manager) revert NotManager();
+        _;
+    }
+
+    /**
+     * @notice Records the escrow's asset; reverts if the escrow ID was already initialized.
+     */
+    function _initializeAsset(uint256 _escrowId, address _asset) internal {
+        if (address(escrowAssets[_escrowId]) != address(0)) revert EscrowAlreadyInitialized();
+        escrowAssets[_escrowId] = IERC20(_asset);
+    }
+
+    /**
+     * @notice Returns the escrow's asset; reverts if the escrow was never initialized.
+     */
+    function _assetOf(uint256 _escrowId) internal view returns (IERC20) {
+        IERC20 asset = escrowAssets[_escrowId];
+        if (address(asset) == address(0)) revert EscrowNotInitialized();
+        return asset;
+    }
+}
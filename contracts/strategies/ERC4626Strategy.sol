@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IERC4626} from "../interfaces/IERC4626.sol";
+import {IEscrowStrategy} from "../interfaces/IEscrowStrategy.sol";
+import {BaseEscrowStrategy} from "./BaseEscrowStrategy.sol";
+
+/**
+ * @title ERC4626Strategy
+ * @author aiSports
+ * @notice Deposits every escrow's funds into one existing ERC-4626 vault.
+ * @dev The vault is shared across escrows, so shares are tracked per escrow and each escrow
+ * earns yield in proportion to its shares. Only escrows in the vault's underlying asset are accepted.
+ */
+contract ERC4626Strategy is BaseEscrowStrategy {
+    using SafeERC20 for IERC20;
+
+    IERC4626 public immutable vault;
+
+    // escrowId => vault shares held for that escrow
+    mapping(uint256 => uint256) public escrowShares;
+
+    error InvalidVault();
+    error AssetMismatch();
+
+    constructor(address _manager, address _vault) BaseEscrowStrategy(_manager) {
+        if (_vault == address(0)) revert InvalidVault();
+        vault = IERC4626(_vault);
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     * @dev Reverts if `_asset` is not the vault's underlying asset.
+     */
+    function initializeEscrow(
+        uint256 _escrowId,
+        address _asset,
+        string calldata
+    ) external onlyManager returns (address) {
+        if (_asset != vault.asset()) revert AssetMismatch();
+        _initializeAsset(_escrowId, _asset);
+        return address(vault);
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function deposit(uint256 _escrowId, uint256 _assets) external onlyManager {
+        IERC20 asset = _assetOf(_escrowId);
+        asset.forceApprove(address(vault), _assets);
+        escrowShares[_escrowId] += vault.deposit(_assets, address(this));
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     * @dev Withdrawing the full position redeems all of the escrow's shares so no dust is left behind.
+     */
+    function withdraw(uint256 _escrowId, uint256 _assets, address _receiver) external onlyManager returns (uint256) {
+        IERC20 asset = _assetOf(_escrowId);
+        uint256 shares = escrowShares[_escrowId];
+        uint256 balanceBefore = asset.balanceOf(_receiver);
+
+        if (_assets >= vault.convertToAssets(shares)) {
+            escrowShares[_escrowId] = 0;
+            vault.redeem(shares, _receiver, address(this));
+        } else {
+            escrowShares[_escrowId] = shares - vault.withdraw(_assets, _receiver, address(this));
+        }
+
+        return asset.balanceOf(_receiver) - balanceBefore;
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function maxWithdraw(uint256 _escrowId) external view returns (uint256) {
+        uint256 assets = vault.convertToAssets(escrowShares[_escrowId]);
+        uint256 vaultLimit = vault.maxWithdraw(address(this));
+        return assets < vaultLimit ? assets : vaultLimit;
+    }
+}
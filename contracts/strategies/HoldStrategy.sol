@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IEscrowStrategy} from "../interfaces/IEscrowStrategy.sol";
+import {BaseEscrowStrategy} from "./BaseEscrowStrategy.sol";
+
+/**
+ * @title HoldStrategy
+ * @author aiSports
+ * @notice No-yield strategy: escrow funds are simply held in this contract until settlement.
+ * @dev Usable on any chain and with any standard ERC20, so it is the default where no vault is available.
+ */
+contract HoldStrategy is BaseEscrowStrategy {
+    using SafeERC20 for IERC20;
+
+    // escrowId => assets held for that escrow
+    mapping(uint256 => uint256) public balances;
+
+    constructor(address _manager) BaseEscrowStrategy(_manager) {}
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function initializeEscrow(
+        uint256 _escrowId,
+        address _asset,
+        string calldata
+    ) external onlyManager returns (address) {
+        _initializeAsset(_escrowId, _asset);
+        return address(0);
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function deposit(uint256 _escrowId, uint256 _assets) external onlyManager {
+        _assetOf(_escrowId);
+        balances[_escrowId] += _assets;
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function withdraw(uint256 _escrowId, uint256 _assets, address _receiver) external onlyManager returns (uint256) {
+        IERC20 asset = _assetOf(_escrowId);
+        balances[_escrowId] -= _assets;
+        asset.safeTransfer(_receiver, _assets);
+        return _assets;
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function maxWithdraw(uint256 _escrowId) external view returns (uint256) {
+        return balances[_escrowId];
+    }
+}
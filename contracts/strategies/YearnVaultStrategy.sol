@@ -0,0 +1,128 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IVaultFactory} from "../interfaces/IVaultFactory.sol";
+import {IYearnVault} from "../interfaces/IYearnVault.sol";
+import {IEscrowStrategy} from "../interfaces/IEscrowStrategy.sol";
+import {BaseEscrowStrategy} from "./BaseEscrowStrategy.sol";
+
+/**
+ * @title YearnVaultStrategy
+ * @author aiSports
+ * @notice Deploys a dedicated Yearn V3 Vault per escrow through the Yearn VaultFactory.
+ * @dev This adapter is the role_manager of every vault it deploys and holds all vault shares,
+ * so each vault's `maxWithdraw` is exactly one escrow's position.
+ */
+contract YearnVaultStrategy is BaseEscrowStrategy {
+    using SafeERC20 for IERC20;
+
+    address public immutable yearnVaultFactory;
+
+    // escrowId => dedicated vault
+    mapping(uint256 => IYearnVault) public vaults;
+
+    error InvalidVaultFactory();
+
+    constructor(address _manager, address _yearnVaultFactory) BaseEscrowStrategy(_manager) {
+        if (_yearnVaultFactory == address(0)) revert InvalidVaultFactory();
+        yearnVaultFactory = _yearnVaultFactory;
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     * @dev Deploys and configures a new vault named after the league.
+     */
+    function initializeEscrow(
+        uint256 _escrowId,
+        address _asset,
+        string calldata _name
+    ) external onlyManager returns (address) {
+        _initializeAsset(_escrowId, _asset);
+
+        // For simplicity, the vault symbol is derived from its name.
+        // Sanitize a symbol from the provided name: uppercase A-Z0-9 only, max 11 chars
+        string memory sanitizedSymbol = _sanitizeSymbol(_name);
+
+        address newVaultAddress = IVaultFactory(yearnVaultFactory).deploy_new_vault(
+            _asset,
+            _name,
+            sanitizedSymbol,
+            address(this), // role_manager
+            0 // profit_max_unlock_time
+        );
+
+        // --- Configure the new vault ---
+        IYearnVault newVault = IYearnVault(newVaultAddress);
+
+        // As the role_manager, this strategy gives itself the DEPOSIT_LIMIT_MANAGER role.
+        // The role enum is: DEPOSIT_LIMIT_MANAGER = 2**8 = 256
+        newVault.set_role(address(this), 256);
+
+        // With the new role, it sets the deposit limit to be effectively infinite.
+        newVault.set_deposit_limit(type(uint256).max, true);
+
+        vaults[_escrowId] = newVault;
+        return newVaultAddress;
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function deposit(uint256 _escrowId, uint256 _assets) external onlyManager {
+        IERC20 asset = _assetOf(_escrowId);
+        IYearnVault vault = vaults[_escrowId];
+        asset.forceApprove(address(vault), _assets);
+        vault.deposit(_assets, address(this));
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function withdraw(uint256 _escrowId, uint256 _assets, address _receiver) external onlyManager returns (uint256) {
+        IERC20 asset = _assetOf(_escrowId);
+        uint256 balanceBefore = asset.balanceOf(_receiver);
+        vaults[_escrowId].withdraw(_assets, _receiver, address(this));
+        return asset.balanceOf(_receiver) - balanceBefore;
+    }
+
+    /**
+     * @inheritdoc IEscrowStrategy
+     */
+    function maxWithdraw(uint256 _escrowId) external view returns (uint256) {
+        IYearnVault vault = vaults[_escrowId];
+        if (address(vault) == address(0)) {
+            return 0;
+        }
+        return vault.maxWithdraw(address(this));
+    }
+
+    function _sanitizeSymbol(string memory name) internal pure returns (string memory) {
+        bytes memory src = bytes(name);
+        uint256 maxLen = 11;
+        bytes memory tmp = new bytes(maxLen);
+        uint256 len = 0;
+        for (uint256 i = 0; i < src.length && len < maxLen; i++) {
+            uint8 c = uint8(src[i]);
+            // convert lowercase to uppercase
+            if (c >= 97 && c <= 122) {
+                c = c - 32;
+            }
+            bool isAlpha = (c >= 65 && c <= 90); // A-Z
+            bool isDigit = (c >= 48 && c <= 57); // 0-9
+            if (isAlpha || isDigit) {
+                tmp[len] = bytes1(c);
+                len++;
+            }
+        }
+        if (len == 0) {
+            return "FV";
+        }
+        bytes memory out = new bytes(len);
+        for (uint256 j = 0; j < len; j++) {
+            out[j] = tmp[j];
+        }
+        return string(out);
+    }
+}
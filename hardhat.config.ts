@@ -11,6 +11,12 @@ const config: HardhatUserConfig = {
         runs: 200,
       },
       viaIR: true,
+      // Needed by scripts/storage_layout.ts to check upgrades of the proxied DFSEscrowManager
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   networks: {
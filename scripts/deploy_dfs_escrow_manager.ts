@@ -2,9 +2,8 @@ import { ethers, network } from "hardhat";
 
 // Note: Typechain types are generated automatically by Hardhat after compilation.
 // If you see errors with these imports, run `npx hardhat compile` first.
-import { DFSEscrowManager, MockVaultFactory } from "../typechain-types";
+import { DFSEscrowManager } from "../typechain-types";
 
-const MAINNET_NETWORKS = ["flowMainnet", "arbitrumOne", "base"];
 const REAL_VAULT_FACTORY_ADDRESSES: Record<string, string> = {
   flowMainnet: "0x770D0d1Fb036483Ed4AbB6d53c1C88fb277D812F",
   // Add Arbitrum/Base Yearn VaultFactory addresses when known
@@ -12,41 +11,138 @@ const REAL_VAULT_FACTORY_ADDRESSES: Record<string, string> = {
   // base: "0x...",
 };
 
+// Existing ERC-4626 vaults (e.g. a PYUSD vault) to offer as an optional strategy per network
+const ERC4626_VAULT_ADDRESSES: Record<string, string> = {
+  // arbitrumOne: "0x...",
+  // base: "0x...",
+};
+
+// Escrow tokens allowlisted at deployment; a zero minimum defaults to one whole token on-chain
+const ESCROW_TOKENS: Record<string, { address: string; minDues: bigint; maxDues: bigint }[]> = {
+  flowMainnet: [{ address: "0x99af3eea856556646c98c8b9b2548fe815240750", minDues: 0n, maxDues: 0n }],
+  arbitrumSepolia: [{ address: "0x637A1259C6afd7E3AdF63993cA7E58BB438aB1B1", minDues: 0n, maxDues: 0n }],
+  baseSepolia: [{ address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", minDues: 0n, maxDues: 0n }],
+  flowTestnet: [{ address: "0xd7d43ab7b365f0d0789aE83F4385fA710FfdC98F", minDues: 0n, maxDues: 0n }],
+};
+
 async function main() {
   const [deployer] = await ethers.getSigners();
-  let vaultFactoryAddress: string;
 
   console.log("Deploying DFSEscrowManager contracts with the account:", deployer.address);
   console.log("Network:", network.name);
   console.log("Account balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH");
 
-  if (MAINNET_NETWORKS.includes(network.name) && REAL_VAULT_FACTORY_ADDRESSES[network.name]) {
-    vaultFactoryAddress = REAL_VAULT_FACTORY_ADDRESSES[network.name];
+  // The settlement module holds the manager's settlement, refund and lending logic (run via delegatecall).
+  console.log("\nDeploying DFSSettlementModule...");
+  const DFSSettlementModuleFactory = await ethers.getContractFactory("DFSSettlementModule");
+  const settlementModule = await DFSSettlementModuleFactory.deploy();
+  await settlementModule.waitForDeployment();
+  const settlementModuleAddress = await settlementModule.getAddress();
+  console.log("DFSSettlementModule deployed to:", settlementModuleAddress);
+
+  // The setup module holds escrow creation and the organizer-side escrow settings (run via delegatecall).
+  console.log("\nDeploying DFSEscrowSetupModule...");
+  const DFSEscrowSetupModuleFactory = await ethers.getContractFactory("DFSEscrowSetupModule");
+  const setupModule = await DFSEscrowSetupModuleFactory.deploy();
+  await setupModule.waitForDeployment();
+  const setupModuleAddress = await setupModule.getAddress();
+  console.log("DFSEscrowSetupModule deployed to:", setupModuleAddress);
+
+  // Deploy DFSEscrowManager next, behind the proxy whose address it keeps across upgrades;
+  // strategies are bound to that address.
+  console.log("\nDeploying DFSEscrowManager implementation...");
+  const DFSEscrowManagerFactory = await ethers.getContractFactory("DFSEscrowManager");
+  const implementation = await DFSEscrowManagerFactory.deploy(settlementModuleAddress, setupModuleAddress);
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log("DFSEscrowManager implementation deployed to:", implementationAddress);
+
+  console.log("\nDeploying DFSEscrowManagerProxy...");
+  const DFSEscrowManagerProxyFactory = await ethers.getContractFactory("DFSEscrowManagerProxy");
+  const initData = DFSEscrowManagerFactory.interface.encodeFunctionData("initialize", [deployer.address]);
+  const proxy = await DFSEscrowManagerProxyFactory.deploy(implementationAddress, initData);
+  await proxy.waitForDeployment();
+  const dfsEscrowManagerAddress = await proxy.getAddress();
+  const dfsEscrowManager: DFSEscrowManager = DFSEscrowManagerFactory.attach(dfsEscrowManagerAddress) as DFSEscrowManager;
+
+  console.log("DFSEscrowManager (proxy) deployed to:", dfsEscrowManagerAddress);
+
+  // The no-yield hold strategy works on every chain, so it is always available.
+  console.log("\nDeploying HoldStrategy...");
+  const HoldStrategyFactory = await ethers.getContractFactory("HoldStrategy");
+  const holdStrategy = await HoldStrategyFactory.deploy(dfsEscrowManagerAddress);
+  await holdStrategy.waitForDeployment();
+  const holdStrategyAddress = await holdStrategy.getAddress();
+  await (await dfsEscrowManager.setStrategyRegistered(holdStrategyAddress, true)).wait();
+  console.log("HoldStrategy deployed to:", holdStrategyAddress);
+
+  let defaultStrategyAddress = holdStrategyAddress;
+  let yearnStrategyAddress: string | undefined;
+  let erc4626StrategyAddress: string | undefined;
+
+  const vaultFactoryAddress = REAL_VAULT_FACTORY_ADDRESSES[network.name];
+  if (vaultFactoryAddress) {
     console.log(`\nUsing official Yearn VaultFactory on ${network.name}: ${vaultFactoryAddress}`);
-  } else {
-    // Deploy MockVaultFactory for testnets and networks without Yearn
-    console.log("\nDeploying MockVaultFactory...");
-    const MockVaultFactoryFactory = await ethers.getContractFactory("MockVaultFactory");
-    const mockVaultFactory: MockVaultFactory = await MockVaultFactoryFactory.deploy();
-    await mockVaultFactory.waitForDeployment();
-    vaultFactoryAddress = await mockVaultFactory.getAddress();
-    console.log("MockVaultFactory deployed to:", vaultFactoryAddress);
+    console.log("Deploying YearnVaultStrategy...");
+    const YearnVaultStrategyFactory = await ethers.getContractFactory("YearnVaultStrategy");
+    const yearnStrategy = await YearnVaultStrategyFactory.deploy(dfsEscrowManagerAddress, vaultFactoryAddress);
+    await yearnStrategy.waitForDeployment();
+    yearnStrategyAddress = await yearnStrategy.getAddress();
+    await (await dfsEscrowManager.setStrategyRegistered(yearnStrategyAddress, true)).wait();
+    console.log("YearnVaultStrategy deployed to:", yearnStrategyAddress);
+    defaultStrategyAddress = yearnStrategyAddress;
   }
 
-  // Deploy DFSEscrowManager, passing the determined VaultFactory address to the constructor.
-  console.log("\nDeploying DFSEscrowManager...");
-  const DFSEscrowManagerFactory = await ethers.getContractFactory("DFSEscrowManager");
-  const dfsEscrowManager: DFSEscrowManager = await DFSEscrowManagerFactory.deploy(vaultFactoryAddress);
-  await dfsEscrowManager.waitForDeployment();
-  const dfsEscrowManagerAddress = await dfsEscrowManager.getAddress();
+  const erc4626VaultAddress = ERC4626_VAULT_ADDRESSES[network.name];
+  if (erc4626VaultAddress) {
+    console.log(`\nUsing ERC-4626 vault on ${network.name}: ${erc4626VaultAddress}`);
+    console.log("Deploying ERC4626Strategy...");
+    const ERC4626StrategyFactory = await ethers.getContractFactory("ERC4626Strategy");
+    const erc4626Strategy = await ERC4626StrategyFactory.deploy(dfsEscrowManagerAddress, erc4626VaultAddress);
+    await erc4626Strategy.waitForDeployment();
+    erc4626StrategyAddress = await erc4626Strategy.getAddress();
+    await (await dfsEscrowManager.setStrategyRegistered(erc4626StrategyAddress, true)).wait();
+    console.log("ERC4626Strategy deployed to:", erc4626StrategyAddress);
+  }
+
+  await (await dfsEscrowManager.setDefaultStrategy(defaultStrategyAddress)).wait();
+
+  const escrowTokens = ESCROW_TOKENS[network.name] ?? [];
+  for (const token of escrowTokens) {
+    await (await dfsEscrowManager.addEscrowToken(token.address, token.minDues, token.maxDues)).wait();
+    console.log("Allowlisted escrow token:", token.address);
+  }
+  if (escrowTokens.length === 0) {
+    console.log("\nNo escrow tokens configured for this network; call addEscrowToken before creating escrows.");
+  }
+
+  // Transferable ERC-1155 entry tickets, minted by the manager for escrows created from now on
+  console.log("\nDeploying DFSEntryTicket...");
+  const DFSEntryTicketFactory = await ethers.getContractFactory("DFSEntryTicket");
+  const entryTicket = await DFSEntryTicketFactory.deploy(dfsEscrowManagerAddress, process.env.ENTRY_TICKET_URI ?? "");
+  await entryTicket.waitForDeployment();
+  const entryTicketAddress = await entryTicket.getAddress();
+  await (await dfsEscrowManager.setEntryTicket(entryTicketAddress)).wait();
+  console.log("DFSEntryTicket deployed to:", entryTicketAddress);
 
-  console.log("DFSEscrowManager deployed to:", dfsEscrowManagerAddress);
+  // Optional role hand-off: the deployer keeps every role unless these are set
+  const roleGrants: [string, string | undefined][] = [
+    ["CONFIG_ADMIN_ROLE", process.env.CONFIG_ADMIN_ADDRESS],
+    ["PAUSER_ROLE", process.env.PAUSER_ADDRESS],
+    ["PAYOUT_OPERATOR_ROLE", process.env.PAYOUT_OPERATOR_ADDRESS],
+  ];
+  for (const [roleName, account] of roleGrants) {
+    if (!account) continue;
+    const role = await dfsEscrowManager.getFunction(roleName)();
+    await (await dfsEscrowManager.grantRole(role, account)).wait();
+    console.log(`Granted ${roleName} to:`, account);
+  }
 
   // Verify deployment
   console.log("\nVerifying deployment...");
-  const deployedFactory = await dfsEscrowManager.yearnVaultFactory();
+  const deployedDefaultStrategy = await dfsEscrowManager.defaultStrategy();
   const maxEntriesPerUser = await dfsEscrowManager.maxEntriesPerUser();
-  console.log("✓ VaultFactory address:", deployedFactory);
+  console.log("✓ Default strategy:", deployedDefaultStrategy);
   console.log("✓ Max entries per user:", maxEntriesPerUser.toString());
 
   console.log("\nDeployment complete!");
@@ -55,7 +151,20 @@ async function main() {
   console.log("====================================================");
   console.log("Network:", network.name);
   console.log("DFSEscrowManager:", dfsEscrowManagerAddress);
-  console.log("VaultFactory:", vaultFactoryAddress);
+  console.log("DFSEscrowManager implementation:", implementationAddress);
+  console.log("DFSSettlementModule:", settlementModuleAddress);
+  console.log("DFSEscrowSetupModule:", setupModuleAddress);
+  console.log("DFSEntryTicket:", entryTicketAddress);
+  console.log("HoldStrategy:", holdStrategyAddress);
+  if (yearnStrategyAddress) {
+    console.log("YearnVaultStrategy:", yearnStrategyAddress);
+    console.log("VaultFactory:", vaultFactoryAddress);
+  }
+  if (erc4626StrategyAddress) {
+    console.log("ERC4626Strategy:", erc4626StrategyAddress);
+    console.log("ERC-4626 vault:", erc4626VaultAddress);
+  }
+  console.log("Default strategy:", defaultStrategyAddress);
   
   if (network.name === 'flowMainnet') {
     console.log("\nFor frontend .env file:");
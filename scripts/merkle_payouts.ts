@@ -0,0 +1,93 @@
+import fs from "fs";
+import { getAddress } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+// Builds the Merkle tree consumed by DFSEscrowManager.postMerkleRoot / claimWinnings.
+//
+// Leaves are (address winner, uint256 amount), hashed by StandardMerkleTree as
+// keccak256(bytes.concat(keccak256(abi.encode(winner, amount)))) — the same encoding the
+// contract verifies. The backend and the tests both go through this file so roots match.
+//
+// Usage:
+//   npx ts-node scripts/merkle_payouts.ts <results.json> [output.json]
+//
+// results.json is an array of { "winner": "0x...", "amount": "5000000" } in token base units.
+
+export const PAYOUT_LEAF_ENCODING = ["address", "uint256"];
+
+export interface PayoutResult {
+  winner: string;
+  amount: string | bigint;
+}
+
+export interface PayoutTree {
+  root: string;
+  totalPayout: bigint;
+  tree: StandardMerkleTree<[string, bigint]>;
+  proofs: Record<string, { amount: bigint; proof: string[] }>;
+}
+
+export function buildPayoutTree(results: PayoutResult[]): PayoutTree {
+  if (results.length === 0) {
+    throw new Error("Results must contain at least one winner");
+  }
+
+  const seen = new Set<string>();
+  const values: [string, bigint][] = results.map(({ winner, amount }) => {
+    const address = getAddress(winner);
+    if (seen.has(address)) {
+      throw new Error(`Duplicate winner in results: ${address}`);
+    }
+    seen.add(address);
+    return [address, BigInt(amount)];
+  });
+
+  const tree = StandardMerkleTree.of(values, PAYOUT_LEAF_ENCODING);
+
+  let totalPayout = 0n;
+  const proofs: PayoutTree["proofs"] = {};
+  for (const [i, [address, amount]] of tree.entries()) {
+    totalPayout += amount;
+    proofs[address] = { amount, proof: tree.getProof(i) };
+  }
+
+  return { root: tree.root, totalPayout, tree, proofs };
+}
+
+function main() {
+  const [inputPath, outputPath] = process.argv.slice(2);
+  if (!inputPath) {
+    throw new Error("Usage: npx ts-node scripts/merkle_payouts.ts <results.json> [output.json]");
+  }
+
+  const results: PayoutResult[] = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  const { root, totalPayout, proofs } = buildPayoutTree(results);
+
+  const output = {
+    root,
+    totalPayout: totalPayout.toString(),
+    claims: Object.fromEntries(
+      Object.entries(proofs).map(([address, { amount, proof }]) => [address, { amount: amount.toString(), proof }])
+    ),
+  };
+
+  console.log("Merkle root:", root);
+  console.log("Total payout:", totalPayout.toString());
+  console.log("Winners:", Object.keys(proofs).length);
+
+  if (outputPath) {
+    fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
+    console.log("Proofs written to:", outputPath);
+  } else {
+    console.log(JSON.stringify(output, null, 2));
+  }
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
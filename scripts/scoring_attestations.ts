@@ -0,0 +1,199 @@
+import fs from "fs";
+import { ethers } from "hardhat";
+import { Signer, TypedDataDomain, getAddress, solidityPackedKeccak256, verifyTypedData } from "ethers";
+
+// Collects scorer attestations and submits an attested settlement to DFSEscrowManager.
+//
+// Each scoring service signs a ScoringAttestation (EIP-712, domain "DFSEscrowManager" / "1") over
+// (escrowId, winnersHash, amountsHash), where the hashes are keccak256(abi.encodePacked(array)), i.e.
+// each element padded to 32 bytes as in EIP-712 array encoding.
+// Once scorerThreshold signatures agree, anyone can call distributeWinningsWithAttestations; the
+// contract expects the signatures ordered by signer address, which collectAttestations takes care of.
+//
+// Other settlement modes (by entry, payout table, tied, Merkle root, batched) are attested with a
+// ResultsAttestation over (escrowId, resultsHash) instead, where resultsHash is the keccak256 of the
+// settlement call's calldata. The script submits it with attestResults, after which anyone can make the call.
+//
+// Usage:
+//   ATTESTATIONS=attestations.json npx hardhat run scripts/scoring_attestations.ts --network <network>
+//
+// attestations.json (either "results" or "resultsHash"):
+//   {
+//     "manager": "0x...",
+//     "escrowId": "1",
+//     "results": [{ "winner": "0x...", "amount": "5000000" }],
+//     "resultsHash": "0x...",
+//     "signatures": ["0x...", "0x..."]
+//   }
+
+export const SCORING_ATTESTATION_TYPES = {
+  ScoringAttestation: [
+    { name: "escrowId", type: "uint256" },
+    { name: "winnersHash", type: "bytes32" },
+    { name: "amountsHash", type: "bytes32" },
+  ],
+};
+
+export const RESULTS_ATTESTATION_TYPES = {
+  ResultsAttestation: [
+    { name: "escrowId", type: "uint256" },
+    { name: "resultsHash", type: "bytes32" },
+  ],
+};
+
+export interface ScoringAttestation {
+  escrowId: bigint;
+  winnersHash: string;
+  amountsHash: string;
+}
+
+export interface ResultsAttestation {
+  escrowId: bigint;
+  resultsHash: string;
+}
+
+export interface AttestationFile {
+  manager: string;
+  escrowId: string;
+  results?: { winner: string; amount: string }[];
+  resultsHash?: string;
+  signatures: string[];
+}
+
+// Anything exposing a contract address (ethers Contract, typechain contract, or a plain address)
+type AddressLike = string | { getAddress(): Promise<string> };
+
+async function resolveAddress(target: AddressLike): Promise<string> {
+  return typeof target === "string" ? target : target.getAddress();
+}
+
+export async function getScoringDomain(chainId: bigint, manager: AddressLike): Promise<TypedDataDomain> {
+  return {
+    name: "DFSEscrowManager",
+    version: "1",
+    chainId,
+    verifyingContract: await resolveAddress(manager),
+  };
+}
+
+export function buildScoringAttestation(
+  escrowId: bigint | number,
+  winners: string[],
+  amounts: (bigint | string)[]
+): ScoringAttestation {
+  if (winners.length !== amounts.length) {
+    throw new Error("Winners and amounts must have the same length");
+  }
+  return {
+    escrowId: BigInt(escrowId),
+    winnersHash: solidityPackedKeccak256(["address[]"], [winners]),
+    amountsHash: solidityPackedKeccak256(["uint256[]"], [amounts.map(BigInt)]),
+  };
+}
+
+export async function signScoringAttestation(
+  scorer: Signer,
+  manager: AddressLike,
+  escrowId: bigint | number,
+  winners: string[],
+  amounts: (bigint | string)[]
+): Promise<string> {
+  if (!scorer.provider) {
+    throw new Error("Signer must be connected to a provider");
+  }
+  const { chainId } = await scorer.provider.getNetwork();
+  const domain = await getScoringDomain(chainId, manager);
+  return scorer.signTypedData(domain, SCORING_ATTESTATION_TYPES, buildScoringAttestation(escrowId, winners, amounts));
+}
+
+export function buildResultsAttestation(escrowId: bigint | number, resultsHash: string): ResultsAttestation {
+  return { escrowId: BigInt(escrowId), resultsHash };
+}
+
+export async function signResultsAttestation(
+  scorer: Signer,
+  manager: AddressLike,
+  escrowId: bigint | number,
+  resultsHash: string
+): Promise<string> {
+  if (!scorer.provider) {
+    throw new Error("Signer must be connected to a provider");
+  }
+  const { chainId } = await scorer.provider.getNetwork();
+  const domain = await getScoringDomain(chainId, manager);
+  return scorer.signTypedData(domain, RESULTS_ATTESTATION_TYPES, buildResultsAttestation(escrowId, resultsHash));
+}
+
+// Recovers each signer, drops duplicates and returns the signatures ordered by signer address.
+export function collectAttestations(
+  domain: TypedDataDomain,
+  attestation: ScoringAttestation | ResultsAttestation,
+  signatures: string[]
+): { signers: string[]; signatures: string[] } {
+  const types = "resultsHash" in attestation ? RESULTS_ATTESTATION_TYPES : SCORING_ATTESTATION_TYPES;
+  const bySigner = new Map<string, string>();
+  for (const signature of signatures) {
+    const signer = getAddress(verifyTypedData(domain, types, attestation, signature));
+    bySigner.set(signer, signature);
+  }
+
+  const signers = [...bySigner.keys()].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  return { signers, signatures: signers.map((signer) => bySigner.get(signer)!) };
+}
+
+async function main() {
+  const inputPath = process.env.ATTESTATIONS;
+  if (!inputPath) {
+    throw new Error("Set ATTESTATIONS to the path of an attestations JSON file");
+  }
+
+  const input: AttestationFile = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+  if (!input.results === !input.resultsHash) {
+    throw new Error("Set exactly one of results and resultsHash");
+  }
+  const winners = (input.results ?? []).map(({ winner }) => getAddress(winner));
+  const amounts = (input.results ?? []).map(({ amount }) => BigInt(amount));
+
+  const [submitter] = await ethers.getSigners();
+  const manager = await ethers.getContractAt("DFSEscrowManager", input.manager, submitter);
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const attestation = input.resultsHash
+    ? buildResultsAttestation(BigInt(input.escrowId), input.resultsHash)
+    : buildScoringAttestation(BigInt(input.escrowId), winners, amounts);
+  const { signers, signatures } = collectAttestations(
+    await getScoringDomain(chainId, input.manager),
+    attestation,
+    input.signatures
+  );
+
+  const threshold = await manager.scorerThreshold();
+  const scorerSignatures: string[] = [];
+  for (const [i, signer] of signers.entries()) {
+    if (await manager.isScorer(signer)) {
+      scorerSignatures.push(signatures[i]);
+    } else {
+      console.warn("Ignoring signature from non-scorer:", signer);
+    }
+  }
+  if (BigInt(scorerSignatures.length) < threshold) {
+    throw new Error(`Only ${scorerSignatures.length} scorer signatures; the manager requires ${threshold}`);
+  }
+
+  console.log("Escrow:", input.escrowId);
+  console.log("Scorer signatures:", scorerSignatures.length);
+
+  const tx = input.resultsHash
+    ? await manager.attestResults(input.escrowId, input.resultsHash, scorerSignatures)
+    : await manager.distributeWinningsWithAttestations(input.escrowId, winners, amounts, scorerSignatures);
+  console.log("Submitted:", tx.hash);
+  await tx.wait();
+  console.log(input.resultsHash ? "Attested; anyone can now make the attested settlement call." : "Settled.");
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,120 @@
+import { Contract, Signature, Signer, TypedDataDomain } from "ethers";
+
+// Signing helpers for gasless joins on DFSEscrowManager.
+//
+// A player signs a JoinRequest (EIP-712, domain "DFSEscrowManager" / "1") and, optionally, an
+// EIP-2612 permit for the entry cost. A relayer then submits them with
+// joinEscrowWithSignature / joinEscrowWithSignatureAndPermit and pays the gas.
+//
+// Example:
+//   const request = await buildJoinRequest(manager, player.address, escrowId, 2n, deadline);
+//   const signature = await signJoinRequest(player, manager, request);
+//   const permit = await signPermit(player, token, manager, dues * 2n, deadline);
+//   await manager.connect(relayer).joinEscrowWithSignatureAndPermit(request, signature, deadline, permit.v, permit.r, permit.s);
+
+export const JOIN_REQUEST_TYPES = {
+  JoinRequest: [
+    { name: "player", type: "address" },
+    { name: "escrowId", type: "uint256" },
+    { name: "numEntries", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface JoinRequest {
+  player: string;
+  escrowId: bigint;
+  numEntries: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+// Anything exposing a contract address (ethers Contract, typechain contract, or a plain address)
+type AddressLike = string | { getAddress(): Promise<string> };
+
+async function resolveAddress(target: AddressLike): Promise<string> {
+  return typeof target === "string" ? target : target.getAddress();
+}
+
+async function getChainId(signer: Signer): Promise<bigint> {
+  if (!signer.provider) {
+    throw new Error("Signer must be connected to a provider");
+  }
+  return (await signer.provider.getNetwork()).chainId;
+}
+
+export async function getJoinRequestDomain(signer: Signer, manager: AddressLike): Promise<TypedDataDomain> {
+  return {
+    name: "DFSEscrowManager",
+    version: "1",
+    chainId: await getChainId(signer),
+    verifyingContract: await resolveAddress(manager),
+  };
+}
+
+// Builds a JoinRequest using the player's current nonce on the manager.
+export async function buildJoinRequest(
+  manager: Contract | { nonces(owner: string): Promise<bigint> },
+  player: string,
+  escrowId: bigint | number,
+  numEntries: bigint | number,
+  deadline: bigint | number
+): Promise<JoinRequest> {
+  return {
+    player,
+    escrowId: BigInt(escrowId),
+    numEntries: BigInt(numEntries),
+    nonce: BigInt(await manager.nonces(player)),
+    deadline: BigInt(deadline),
+  };
+}
+
+export async function signJoinRequest(player: Signer, manager: AddressLike, request: JoinRequest): Promise<string> {
+  const domain = await getJoinRequestDomain(player, manager);
+  return player.signTypedData(domain, JOIN_REQUEST_TYPES, request);
+}
+
+// Signs an EIP-2612 permit from `owner` to `spender` (the manager) for `value`.
+// `version` is the token's EIP-712 domain version (e.g. "2" for Circle's USDC).
+export async function signPermit(
+  owner: Signer,
+  token: AddressLike,
+  spender: AddressLike,
+  value: bigint,
+  deadline: bigint | number,
+  version = "1"
+): Promise<Signature> {
+  const tokenAddress = await resolveAddress(token);
+  const tokenContract = new Contract(
+    tokenAddress,
+    ["function name() view returns (string)", "function nonces(address) view returns (uint256)"],
+    owner
+  );
+  const ownerAddress = await owner.getAddress();
+
+  const domain: TypedDataDomain = {
+    name: await tokenContract.name(),
+    version,
+    chainId: await getChainId(owner),
+    verifyingContract: tokenAddress,
+  };
+  const signature = await owner.signTypedData(domain, PERMIT_TYPES, {
+    owner: ownerAddress,
+    spender: await resolveAddress(spender),
+    value,
+    nonce: await tokenContract.nonces(ownerAddress),
+    deadline: BigInt(deadline),
+  });
+  return Signature.from(signature);
+}
@@ -0,0 +1,138 @@
+import fs from "fs";
+import path from "path";
+import { artifacts } from "hardhat";
+
+// Storage layout snapshots and upgrade compatibility checks for the proxied DFSEscrowManager.
+//
+// The manager lives behind an ERC-1967 proxy, so an upgrade must leave existing storage where it is:
+// state variables may only be appended, and structs held in mappings or arrays may only gain members
+// at the end. storage-layouts/DFSEscrowManager.json records the layout of the deployed implementation.
+// test/StorageLayout.ts checks the current sources against it, and scripts/upgrade_dfs_escrow_manager.ts
+// refuses to upgrade on a conflict and records the new layout once the upgrade is done.
+//
+// Usage (records the current layout; refuses if it conflicts with the recorded one):
+//   npx hardhat run scripts/storage_layout.ts
+
+export const LAYOUT_SNAPSHOT_PATH = path.join(__dirname, "..", "storage-layouts", "DFSEscrowManager.json");
+
+export interface StorageItem {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+export interface StorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  members?: StorageItem[];
+  key?: string;
+  value?: string;
+  base?: string;
+}
+
+export interface StorageLayout {
+  storage: StorageItem[];
+  types: Record<string, StorageType>;
+}
+
+// solc suffixes struct, enum and contract type IDs with AST IDs, which change from one compilation to the next
+function normalizeTypeId(typeId: string): string {
+  return typeId.replace(/t_(struct|enum|contract)\(([^)]*)\)\d+/g, "t_$1($2)");
+}
+
+function normalizeItem({ label, slot, offset, type }: StorageItem): StorageItem {
+  return { label, slot, offset, type: normalizeTypeId(type) };
+}
+
+export async function getStorageLayout(contractName = "DFSEscrowManager"): Promise<StorageLayout> {
+  const artifact = await artifacts.readArtifact(contractName);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const output = buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as
+    | { storageLayout?: StorageLayout }
+    | undefined;
+  if (!output?.storageLayout) {
+    throw new Error(`No storage layout for ${contractName}; add storageLayout to the solc outputSelection`);
+  }
+
+  const types: Record<string, StorageType> = {};
+  for (const [typeId, type] of Object.entries(output.storageLayout.types ?? {})) {
+    types[normalizeTypeId(typeId)] = {
+      label: type.label,
+      encoding: type.encoding,
+      numberOfBytes: type.numberOfBytes,
+      ...(type.members && { members: type.members.map(normalizeItem) }),
+      ...(type.key && { key: normalizeTypeId(type.key) }),
+      ...(type.value && { value: normalizeTypeId(type.value) }),
+      ...(type.base && { base: normalizeTypeId(type.base) }),
+    };
+  }
+  return { storage: output.storageLayout.storage.map(normalizeItem), types };
+}
+
+export function readLayoutSnapshot(snapshotPath = LAYOUT_SNAPSHOT_PATH): StorageLayout | undefined {
+  return fs.existsSync(snapshotPath) ? JSON.parse(fs.readFileSync(snapshotPath, "utf8")) : undefined;
+}
+
+export function writeLayoutSnapshot(layout: StorageLayout, snapshotPath = LAYOUT_SNAPSHOT_PATH) {
+  fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+  fs.writeFileSync(snapshotPath, JSON.stringify(layout, null, 2) + "\n");
+}
+
+// Lists every way `current` would corrupt storage written under `previous`; empty if the upgrade is safe.
+export function findStorageConflicts(previous: StorageLayout, current: StorageLayout): string[] {
+  const conflicts: string[] = [];
+
+  const compareItems = (where: string, before: StorageItem, after: StorageItem | undefined) => {
+    if (!after) {
+      conflicts.push(`${where}: removed`);
+    } else if (after.label !== before.label) {
+      conflicts.push(`${where}: replaced by ${after.label}`);
+    } else if (after.slot !== before.slot || after.offset !== before.offset) {
+      conflicts.push(`${where}: moved from slot ${before.slot}/${before.offset} to ${after.slot}/${after.offset}`);
+    } else {
+      compareTypes(where, before.type, after.type);
+    }
+  };
+
+  const compareTypes = (where: string, beforeId: string, afterId: string) => {
+    const before = previous.types[beforeId];
+    const after = current.types[afterId];
+    if (beforeId !== afterId) {
+      conflicts.push(`${where}: type changed from ${before?.label ?? beforeId} to ${after?.label ?? afterId}`);
+      return;
+    }
+    if (!before || !after) return;
+
+    // New members may only follow the existing ones
+    before.members?.forEach((member, i) => compareItems(`${where}.${member.label}`, member, after.members?.[i]));
+    if (before.value && after.value) compareTypes(`${where}[]`, before.value, after.value);
+    if (before.base && after.base) compareTypes(`${where}[]`, before.base, after.base);
+  };
+
+  previous.storage.forEach((item, i) => compareItems(item.label, item, current.storage[i]));
+  return conflicts;
+}
+
+async function main() {
+  const layout = await getStorageLayout();
+  const recorded = readLayoutSnapshot();
+
+  if (recorded) {
+    const conflicts = findStorageConflicts(recorded, layout);
+    if (conflicts.length > 0) {
+      throw new Error(`Storage layout conflicts with ${LAYOUT_SNAPSHOT_PATH}:\n  ${conflicts.join("\n  ")}`);
+    }
+  }
+
+  writeLayoutSnapshot(layout);
+  console.log(`Recorded ${layout.storage.length} storage variables in ${LAYOUT_SNAPSHOT_PATH}`);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
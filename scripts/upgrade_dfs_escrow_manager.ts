@@ -0,0 +1,105 @@
+import { ethers, network } from "hardhat";
+import {
+  LAYOUT_SNAPSHOT_PATH,
+  findStorageConflicts,
+  getStorageLayout,
+  readLayoutSnapshot,
+  writeLayoutSnapshot,
+} from "./storage_layout";
+
+// Upgrades a proxied DFSEscrowManager in place: escrows, balances, roles and the address all stay.
+//
+// Deploys fresh settlement and setup modules plus a new implementation bound to them, then calls the
+// proxy's upgradeToAndCall from an account with DEFAULT_ADMIN_ROLE. Refuses to run if the new storage
+// layout conflicts with storage-layouts/DFSEscrowManager.json (the deployed version's layout), and
+// records the new layout there afterwards; commit that file with the upgrade.
+//
+// Usage:
+//   DFS_ESCROW_MANAGER_ADDRESS=0x... npx hardhat run scripts/upgrade_dfs_escrow_manager.ts --network <network>
+
+// ERC-1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+async function getImplementation(proxyAddress: string): Promise<string> {
+  const slot = await ethers.provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT);
+  return ethers.getAddress(ethers.dataSlice(slot, 12));
+}
+
+async function main() {
+  const proxyAddress = process.env.DFS_ESCROW_MANAGER_ADDRESS;
+  if (!proxyAddress) {
+    throw new Error("Set DFS_ESCROW_MANAGER_ADDRESS to the DFSEscrowManager proxy address");
+  }
+
+  const recorded = readLayoutSnapshot();
+  if (!recorded) {
+    throw new Error(`Missing ${LAYOUT_SNAPSHOT_PATH}; cannot check the upgrade's storage layout`);
+  }
+  const layout = await getStorageLayout();
+  const conflicts = findStorageConflicts(recorded, layout);
+  if (conflicts.length > 0) {
+    throw new Error(`Storage layout conflicts with the deployed version:\n  ${conflicts.join("\n  ")}`);
+  }
+
+  const [deployer] = await ethers.getSigners();
+  const manager = await ethers.getContractAt("DFSEscrowManager", proxyAddress, deployer);
+  if (!(await manager.hasRole(await manager.DEFAULT_ADMIN_ROLE(), deployer.address))) {
+    throw new Error(`${deployer.address} lacks DEFAULT_ADMIN_ROLE on ${proxyAddress}`);
+  }
+
+  console.log("Upgrading DFSEscrowManager with the account:", deployer.address);
+  console.log("Network:", network.name);
+  console.log("Proxy:", proxyAddress);
+  const previousImplementation = await getImplementation(proxyAddress);
+  console.log("Current implementation:", previousImplementation);
+
+  console.log("\nDeploying DFSSettlementModule...");
+  const settlementModule = await (await ethers.getContractFactory("DFSSettlementModule")).deploy();
+  await settlementModule.waitForDeployment();
+  const settlementModuleAddress = await settlementModule.getAddress();
+  console.log("DFSSettlementModule deployed to:", settlementModuleAddress);
+
+  console.log("\nDeploying DFSEscrowSetupModule...");
+  const setupModule = await (await ethers.getContractFactory("DFSEscrowSetupModule")).deploy();
+  await setupModule.waitForDeployment();
+  const setupModuleAddress = await setupModule.getAddress();
+  console.log("DFSEscrowSetupModule deployed to:", setupModuleAddress);
+
+  console.log("\nDeploying DFSEscrowManager implementation...");
+  const DFSEscrowManagerFactory = await ethers.getContractFactory("DFSEscrowManager");
+  const implementation = await DFSEscrowManagerFactory.deploy(settlementModuleAddress, setupModuleAddress);
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log("DFSEscrowManager implementation deployed to:", implementationAddress);
+
+  console.log("\nUpgrading proxy...");
+  await (await manager.upgradeToAndCall(implementationAddress, "0x")).wait();
+
+  console.log("\nVerifying upgrade...");
+  if ((await getImplementation(proxyAddress)) !== implementationAddress) {
+    throw new Error("Proxy does not point at the new implementation");
+  }
+  console.log("✓ Implementation:", implementationAddress);
+  console.log("✓ Settlement module:", await manager.settlementModule());
+  console.log("✓ Setup module:", await manager.setupModule());
+  console.log("✓ Next escrow ID:", (await manager.nextEscrowId()).toString());
+
+  writeLayoutSnapshot(layout);
+  console.log(`✓ Recorded the new storage layout in ${LAYOUT_SNAPSHOT_PATH}; commit it with this upgrade`);
+
+  console.log("\nUpgrade complete!");
+  console.log("====================================================");
+  console.log("UPGRADE SUMMARY");
+  console.log("====================================================");
+  console.log("Network:", network.name);
+  console.log("DFSEscrowManager (unchanged):", proxyAddress);
+  console.log("Previous implementation:", previousImplementation);
+  console.log("New implementation:", implementationAddress);
+  console.log("DFSSettlementModule:", settlementModuleAddress);
+  console.log("DFSEscrowSetupModule:", setupModuleAddress);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -5,9 +5,31 @@ import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { DFSEscrowManager, MockToken } from "../typechain-types";
 import { MockYearnVault } from "../typechain-types/contracts/mocks/MockYearnVault";
+import { buildPayoutTree } from "../scripts/merkle_payouts";
+import { buildJoinRequest, signJoinRequest, signPermit } from "../scripts/signed_joins";
+import {
+    buildResultsAttestation,
+    buildScoringAttestation,
+    collectAttestations,
+    getScoringDomain,
+    signResultsAttestation,
+    signScoringAttestation,
+} from "../scripts/scoring_attestations";
 
 // Main test suite for DFSEscrowManager
 describe("DFSEscrowManager", function () {
+    // Deploys a DFSEscrowManager implementation behind a proxy initialized for `admin`
+    async function deployManagerProxy(settlementModuleAddress: string, setupModuleAddress: string, admin: string) {
+        const DFSEscrowManager = await ethers.getContractFactory("DFSEscrowManager");
+        const implementation = await DFSEscrowManager.deploy(settlementModuleAddress, setupModuleAddress);
+        const DFSEscrowManagerProxy = await ethers.getContractFactory("DFSEscrowManagerProxy");
+        const proxy = await DFSEscrowManagerProxy.deploy(
+            await implementation.getAddress(),
+            DFSEscrowManager.interface.encodeFunctionData("initialize", [admin])
+        );
+        return DFSEscrowManager.attach(await proxy.getAddress()) as DFSEscrowManager;
+    }
+
     // Fixture to set up the initial state for each test
     async function deployDFSEscrowManagerFixture() {
         const [owner, organizer, participant1, participant2, contributor] = await ethers.getSigners();
@@ -19,8 +41,27 @@ describe("DFSEscrowManager", function () {
         const mockVaultFactory = await MockVaultFactory.deploy();
         const mockFactoryAddress = await mockVaultFactory.getAddress();
 
-        const DFSEscrowManager = await ethers.getContractFactory("DFSEscrowManager");
-        const dfsEscrowManager = await DFSEscrowManager.deploy(mockFactoryAddress);
+        // The manager delegates settlement, refunds and lending, and escrow creation and organizer
+        // settings, to separately deployed modules
+        const DFSSettlementModule = await ethers.getContractFactory("DFSSettlementModule");
+        const settlementModule = await DFSSettlementModule.deploy();
+        const settlementModuleAddress = await settlementModule.getAddress();
+        const DFSEscrowSetupModule = await ethers.getContractFactory("DFSEscrowSetupModule");
+        const setupModule = await DFSEscrowSetupModule.deploy();
+        const setupModuleAddress = await setupModule.getAddress();
+
+        const dfsEscrowManager = await deployManagerProxy(settlementModuleAddress, setupModuleAddress, owner.address);
+        const managerAddress = await dfsEscrowManager.getAddress();
+
+        // Yearn-backed custody is the default strategy for these tests
+        const YearnVaultStrategy = await ethers.getContractFactory("YearnVaultStrategy");
+        const yearnStrategy = await YearnVaultStrategy.deploy(managerAddress, mockFactoryAddress);
+        const yearnStrategyAddress = await yearnStrategy.getAddress();
+        await dfsEscrowManager.connect(owner).setStrategyRegistered(yearnStrategyAddress, true);
+        await dfsEscrowManager.connect(owner).setDefaultStrategy(yearnStrategyAddress);
+
+        // Allow the mock token as an escrow token with a 1 PYUSD-style (6 decimals) minimum
+        await dfsEscrowManager.connect(owner).addEscrowToken(await mockToken.getAddress(), ethers.parseUnits("1", 6), 0);
 
         // Authorize the organizer to create escrows (owner is auto-authorized in constructor)
         await dfsEscrowManager.connect(owner).addAuthorizedCreator(organizer.address);
@@ -29,6 +70,9 @@ describe("DFSEscrowManager", function () {
             dfsEscrowManager,
             mockToken,
             mockVaultFactory,
+            yearnStrategy,
+            settlementModule,
+            setupModule,
             owner,
             organizer,
             participant1,
@@ -39,19 +83,109 @@ describe("DFSEscrowManager", function () {
 
     describe("Deployment", function () {
         it("Should deploy with the correct initial state", async function () {
-            const { dfsEscrowManager, mockVaultFactory, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockVaultFactory, yearnStrategy, owner } = await loadFixture(deployDFSEscrowManagerFixture);
             const factoryAddress = await mockVaultFactory.getAddress();
-            expect(await dfsEscrowManager.yearnVaultFactory()).to.equal(factoryAddress);
+            const strategyAddress = await yearnStrategy.getAddress();
+            expect(await yearnStrategy.yearnVaultFactory()).to.equal(factoryAddress);
+            expect(await yearnStrategy.manager()).to.equal(await dfsEscrowManager.getAddress());
+            expect(await dfsEscrowManager.defaultStrategy()).to.equal(strategyAddress);
+            expect(await dfsEscrowManager.registeredStrategies(strategyAddress)).to.be.true;
             expect(await dfsEscrowManager.nextEscrowId()).to.equal(1);
             expect(await dfsEscrowManager.maxEntriesPerUser()).to.equal(1000);
             // Owner should be auto-authorized
             expect(await dfsEscrowManager.isAuthorizedCreator(owner.address)).to.be.true;
         });
+
+        it("Should reject a settlement module without code", async function () {
+            const { setupModule, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+            const DFSEscrowManager = await ethers.getContractFactory("DFSEscrowManager");
+
+            await expect(DFSEscrowManager.deploy(owner.address, await setupModule.getAddress()))
+                .to.be.revertedWithCustomError(DFSEscrowManager, "InvalidSettlementModule");
+        });
+
+        it("Should reject a setup module without code", async function () {
+            const { settlementModule, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+            const DFSEscrowManager = await ethers.getContractFactory("DFSEscrowManager");
+
+            await expect(DFSEscrowManager.deploy(await settlementModule.getAddress(), owner.address))
+                .to.be.revertedWithCustomError(DFSEscrowManager, "InvalidSetupModule");
+        });
+
+        it("Should only run the settlement module via delegatecall", async function () {
+            const { dfsEscrowManager, settlementModule, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+
+            expect(await dfsEscrowManager.settlementModule()).to.equal(await settlementModule.getAddress());
+            await expect(settlementModule.connect(owner).cancelEscrow(1))
+                .to.be.revertedWithCustomError(settlementModule, "NotDelegateCall");
+        });
+
+        it("Should only run the setup module via delegatecall", async function () {
+            const { dfsEscrowManager, setupModule, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+
+            expect(await dfsEscrowManager.setupModule()).to.equal(await setupModule.getAddress());
+            await expect(setupModule.connect(organizer).acceptOrganizer(1))
+                .to.be.revertedWithCustomError(setupModule, "NotDelegateCall");
+        });
+    });
+
+    describe("Upgrades", function () {
+        it("Should initialize once through the proxy and never on an implementation", async function () {
+            const { dfsEscrowManager, settlementModule, setupModule, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+
+            expect(await dfsEscrowManager.hasRole(await dfsEscrowManager.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+            expect(await dfsEscrowManager.maxEntriesPerUser()).to.equal(1000);
+            expect(await dfsEscrowManager.feeRecipient()).to.equal(owner.address);
+            await expect(dfsEscrowManager.initialize(owner.address))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidInitialization");
+
+            const DFSEscrowManager = await ethers.getContractFactory("DFSEscrowManager");
+            const implementation = await DFSEscrowManager.deploy(await settlementModule.getAddress(), await setupModule.getAddress());
+            await expect(implementation.initialize(owner.address))
+                .to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+        });
+
+        it("Should keep escrows and entries across an admin-authorized upgrade", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1 } = await loadFixture(deployDFSEscrowManagerFixture);
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, endTime, "Upgrade Test", 10, 0, 0, [], ethers.ZeroAddress);
+            await mockToken.mint(participant1.address, dues * 2n);
+            await mockToken.connect(participant1).approve(managerAddress, dues * 2n);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 2);
+
+            // A new version ships with its own modules
+            const settlementModule = await (await ethers.getContractFactory("DFSSettlementModule")).deploy();
+            const setupModule = await (await ethers.getContractFactory("DFSEscrowSetupModule")).deploy();
+            const DFSEscrowManager = await ethers.getContractFactory("DFSEscrowManager");
+            const implementation = await DFSEscrowManager.deploy(await settlementModule.getAddress(), await setupModule.getAddress());
+            const implementationAddress = await implementation.getAddress();
+
+            await expect(dfsEscrowManager.connect(organizer).upgradeToAndCall(implementationAddress, "0x"))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(dfsEscrowManager.connect(owner).upgradeToAndCall(await mockToken.getAddress(), "0x"))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ERC1967InvalidImplementation");
+            await expect(dfsEscrowManager.connect(owner).upgradeToAndCall(implementationAddress, "0x"))
+                .to.emit(dfsEscrowManager, "Upgraded")
+                .withArgs(implementationAddress);
+
+            expect(await dfsEscrowManager.getAddress()).to.equal(managerAddress);
+            expect(await dfsEscrowManager.settlementModule()).to.equal(await settlementModule.getAddress());
+            expect((await dfsEscrowManager.getEscrowDetails(1)).organizer).to.equal(organizer.address);
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(2);
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant1.address)).to.deep.equal([1n, 2n]);
+
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues * 2n]);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 2n);
+        });
     });
 
     describe("createEscrow", function () {
         it("Should create an escrow and correctly configure the new Yearn vault", async function () {
-            const { dfsEscrowManager, mockToken, organizer } = await loadFixture(
+            const { dfsEscrowManager, mockToken, yearnStrategy, organizer } = await loadFixture(
                 deployDFSEscrowManagerFixture
             );
 
@@ -60,7 +194,7 @@ describe("DFSEscrowManager", function () {
             const endTime = (await time.latest()) + (2 * 24 * 3600); // 2 days from now
 
             // For DFS, organizer does NOT need funds/approval since they don't auto-join
-            const tx = await dfsEscrowManager.connect(organizer).createEscrow(tokenAddress, dues, endTime, "Test Vault", 10, ethers.ZeroAddress);
+            const tx = await dfsEscrowManager.connect(organizer).createEscrow(tokenAddress, dues, endTime, "Test Vault", 10, 0, 0, [], ethers.ZeroAddress);
             const receipt = await tx.wait();
 
             // Find the event to get the new vault's address
@@ -70,18 +204,19 @@ describe("DFSEscrowManager", function () {
             
             expect(eventLog, "EscrowCreated event not found").to.not.be.undefined;
             if (!eventLog) throw new Error("EscrowCreated event not found");
-            const vaultAddress = eventLog.args.yearnVault;
+            const vaultAddress = eventLog.args.vault;
             
             expect(vaultAddress).to.be.properAddress;
 
             // Get an instance of the new mock vault to check its state
             const mockVault = await ethers.getContractAt("MockYearnVault", vaultAddress) as MockYearnVault;
 
-            // 1. Verify the DFSEscrowManager set the correct role on the vault
-            const escrowManagerAddress = await dfsEscrowManager.getAddress();
-            expect(await mockVault.roles(escrowManagerAddress)).to.equal(256); // DEPOSIT_LIMIT_MANAGER role
+            // 1. Verify the Yearn strategy set the correct role on the vault
+            const strategyAddress = await yearnStrategy.getAddress();
+            expect(await mockVault.roles(strategyAddress)).to.equal(256); // DEPOSIT_LIMIT_MANAGER role
+            expect(await yearnStrategy.vaults(1)).to.equal(vaultAddress);
 
-            // 2. Verify the DFSEscrowManager set the correct deposit limit on the vault
+            // 2. Verify the Yearn strategy set the correct deposit limit on the vault
             expect(await mockVault.depositLimit()).to.equal(ethers.MaxUint256);
 
             // Check the details of the created escrow
@@ -111,11 +246,14 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600), 
                 "Join Vault", 
                 5,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
             const details = await dfsEscrowManager.getEscrowDetails(1);
-            const vault = await ethers.getContractAt("MockYearnVault", details.yearnVault);
+            const vault = await ethers.getContractAt("MockYearnVault", details.vault);
 
             // Verify no funds were deposited (organizer didn't join)
             expect(await vault.balanceOf(await dfsEscrowManager.getAddress())).to.equal(0);
@@ -126,15 +264,15 @@ describe("DFSEscrowManager", function () {
 
         it("Should fail if token is zero address or dues are below minimum", async function () {
             const { dfsEscrowManager, mockToken, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
-            const minDues = await dfsEscrowManager.MINIMUM_DUES();
+            const minDues = (await dfsEscrowManager.tokenConfigs(await mockToken.getAddress())).minDues;
             const belowMin = minDues - 1n;
             const endTime = (await time.latest()) + (2 * 24 * 3600);
             await expect(
-                dfsEscrowManager.connect(organizer).createEscrow(ethers.ZeroAddress, minDues, endTime, "N", 10, ethers.ZeroAddress)
+                dfsEscrowManager.connect(organizer).createEscrow(ethers.ZeroAddress, minDues, endTime, "N", 10, 0, 0, [], ethers.ZeroAddress)
             ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidToken");
 
             await expect(
-                dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), belowMin, endTime, "N", 10, ethers.ZeroAddress)
+                dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), belowMin, endTime, "N", 10, 0, 0, [], ethers.ZeroAddress)
             ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidDues");
         });
 
@@ -144,7 +282,7 @@ describe("DFSEscrowManager", function () {
             const nearEndTime = (await time.latest()) + 1800; // Only 30 minutes from now
 
             await expect(
-                dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, nearEndTime, "T", 10, ethers.ZeroAddress)
+                dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, nearEndTime, "T", 10, 0, 0, [], ethers.ZeroAddress)
             ).to.be.revertedWithCustomError(dfsEscrowManager, "EndTimeTooSoon");
         });
 
@@ -160,6 +298,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 )
             ).to.be.revertedWithCustomError(dfsEscrowManager, "EmptyLeagueName");
@@ -178,6 +319,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "CapTest",
                     cap + 1n,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 )
             ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidMaxParticipants");
@@ -194,18 +338,21 @@ describe("DFSEscrowManager", function () {
                 endTime,
                 "!!!",
                 3,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
             const details = await dfsEscrowManager.getEscrowDetails(1);
-            const vault = await ethers.getContractAt("MockYearnVault", details.yearnVault) as MockYearnVault;
+            const vault = await ethers.getContractAt("MockYearnVault", details.vault) as MockYearnVault;
             expect(await vault.symbol()).to.equal("FV");
         });
     });
     
     describe("joinEscrow", function () {
         it("Should allow a participant to join with single entry and update tracking arrays", async function () {
-            const { dfsEscrowManager, mockToken, organizer, participant1 } = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, yearnStrategy, organizer, participant1 } = await loadFixture(deployDFSEscrowManagerFixture);
             const dues = ethers.parseUnits("1", 6);
             
             // Create escrow (organizer doesn't auto-join)
@@ -215,6 +362,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600),
                 "Test Join",
                 2,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -228,14 +378,15 @@ describe("DFSEscrowManager", function () {
             
             // Get the vault contract to check balances
             const details = await dfsEscrowManager.getEscrowDetails(1);
-            const vault = await ethers.getContractAt("MockYearnVault", details.yearnVault);
+            const vault = await ethers.getContractAt("MockYearnVault", details.vault);
 
             // Verify the underlying assets were transferred to the vault
-            expect(await mockToken.balanceOf(details.yearnVault)).to.equal(dues);
+            expect(await mockToken.balanceOf(details.vault)).to.equal(dues);
 
-            // Verify the DFSEscrowManager contract received the vault shares
-            const managerAddress = await dfsEscrowManager.getAddress();
-            expect(await vault.balanceOf(managerAddress)).to.equal(dues);
+            // Verify the Yearn strategy received the vault shares and reports the position
+            const strategyAddress = await yearnStrategy.getAddress();
+            expect(await vault.balanceOf(strategyAddress)).to.equal(dues);
+            expect(await yearnStrategy.maxWithdraw(1)).to.equal(dues);
             expect(await vault.balanceOf(participant1.address)).to.equal(0);
 
             // Verify tracking arrays
@@ -258,6 +409,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600),
                 "Multi Entry",
                 100,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -275,7 +429,7 @@ describe("DFSEscrowManager", function () {
             
             // Verify vault balance
             const details = await dfsEscrowManager.getEscrowDetails(1);
-            expect(await mockToken.balanceOf(details.yearnVault)).to.equal(totalDues);
+            expect(await mockToken.balanceOf(details.vault)).to.equal(totalDues);
         });
 
         it("Should allow a participant to add more entries in subsequent calls", async function () {
@@ -288,6 +442,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600),
                 "Cumulative Entries",
                 100,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -323,6 +480,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600),
                 "Full Pool",
                 maxEntries,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -349,6 +509,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600),
                 "Max Entries Test",
                 10000,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -358,7 +521,8 @@ describe("DFSEscrowManager", function () {
             await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues * tooManyEntries);
             
             await expect(dfsEscrowManager.connect(participant1).joinEscrow(1, tooManyEntries))
-                .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsMaxEntriesPerUser");
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsMaxEntriesPerUser")
+                .withArgs(maxEntriesPerUser);
         });
 
         it("Should revert if trying to join with zero entries", async function () {
@@ -371,6 +535,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600),
                 "Zero Entries",
                 10,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -392,6 +559,9 @@ describe("DFSEscrowManager", function () {
                 endTimeSoon,
                 "LateJoin",
                 2,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -405,6 +575,129 @@ describe("DFSEscrowManager", function () {
         });
     });
 
+    describe("leaveEscrow", function () {
+        // Helper: escrow 1 with participant1 (3 entries), participant2 (1 entry) and contributor (2 entries)
+        async function setupLeaveEscrow() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor } = fixture;
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(), dues, endTime, "Leave Test", 20, 0, 0, [], ethers.ZeroAddress
+            );
+            for (const [signer, entries] of [[participant1, 3n], [participant2, 1n], [contributor, 2n]] as const) {
+                await mockToken.mint(signer.address, dues * entries);
+                await mockToken.connect(signer).approve(managerAddress, dues * entries);
+                await dfsEscrowManager.connect(signer).joinEscrow(1, entries);
+            }
+
+            return { ...fixture, dues, endTime, managerAddress };
+        }
+
+        it("Should refund some entries and keep the player as a participant", async function () {
+            const { dfsEscrowManager, mockToken, participant1, dues } = await setupLeaveEscrow();
+
+            await expect(dfsEscrowManager.connect(participant1).leaveEscrow(1, 2))
+                .to.emit(dfsEscrowManager, "ParticipantLeft")
+                .withArgs(1, participant1.address, 2, dues * 2n);
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 2n);
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(1);
+            expect(await dfsEscrowManager.getTotalEntries(1)).to.equal(4);
+            expect(await dfsEscrowManager.getParticipants(1)).to.include(participant1.address);
+            expect(await mockToken.balanceOf((await dfsEscrowManager.getEscrowDetails(1)).vault)).to.equal(dues * 4n);
+        });
+
+        it("Should remove a player who leaves with all entries from participant tracking", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor, dues, endTime, managerAddress } = await setupLeaveEscrow();
+
+            // participant1 also joins a second escrow so joinedEscrows has more than one element
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(), dues, endTime, "Second", 20, 0, 0, [], ethers.ZeroAddress
+            );
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(managerAddress, dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(2, 1);
+
+            await dfsEscrowManager.connect(participant1).leaveEscrow(1, 3);
+
+            // The last participant is swapped into the removed slot
+            expect(await dfsEscrowManager.getParticipants(1)).to.deep.equal([contributor.address, participant2.address]);
+            expect(await dfsEscrowManager.getJoinedEscrows(participant1.address)).to.deep.equal([2n]);
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(0);
+            expect(await dfsEscrowManager.getTotalEntries(1)).to.equal(3);
+
+            // Removing the new last element keeps indexes consistent
+            await dfsEscrowManager.connect(participant2).leaveEscrow(1, 1);
+            expect(await dfsEscrowManager.getParticipants(1)).to.deep.equal([contributor.address]);
+            expect(await dfsEscrowManager.getJoinedEscrows(participant2.address)).to.be.empty;
+
+            // A player who left can no longer be paid, but can join again
+            await time.increaseTo(endTime - 60);
+            await mockToken.connect(participant1).approve(managerAddress, dues * 3n);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+            expect(await dfsEscrowManager.getParticipants(1)).to.deep.equal([contributor.address, participant1.address]);
+            expect(await dfsEscrowManager.getJoinedEscrows(participant1.address)).to.deep.equal([2n, 1n]);
+
+            await time.increaseTo(endTime + 1);
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant2.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "WinnerNotParticipant");
+        });
+
+        it("Should revert for zero, excess or late withdrawals and cancelled escrows", async function () {
+            const { dfsEscrowManager, organizer, participant1, participant2, endTime } = await setupLeaveEscrow();
+
+            await expect(
+                dfsEscrowManager.connect(participant1).leaveEscrow(1, 0)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidAmount");
+            await expect(dfsEscrowManager.connect(participant1).leaveEscrow(1, 4))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientEntries")
+                .withArgs(4, 3);
+            await expect(dfsEscrowManager.connect(organizer).leaveEscrow(1, 1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientEntries")
+                .withArgs(1, 0);
+
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+            await expect(
+                dfsEscrowManager.connect(participant2).leaveEscrow(1, 1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowIsCancelled");
+
+            const fresh = await setupLeaveEscrow();
+            await time.increaseTo(endTime + 1);
+            await expect(
+                fresh.dfsEscrowManager.connect(fresh.participant1).leaveEscrow(1, 1)
+            ).to.be.revertedWithCustomError(fresh.dfsEscrowManager, "EscrowEnded");
+        });
+
+        it("Should disable leaving inside the organizer's cutoff window", async function () {
+            const { dfsEscrowManager, organizer, participant1, endTime } = await setupLeaveEscrow();
+            const cutoff = 6 * 3600;
+
+            await expect(
+                dfsEscrowManager.connect(participant1).setLeaveCutoff(1, cutoff)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(organizer).setLeaveCutoff(1, cutoff))
+                .to.emit(dfsEscrowManager, "LeaveCutoffSet")
+                .withArgs(1, cutoff);
+
+            await time.increaseTo(endTime - cutoff - 10);
+            await dfsEscrowManager.connect(participant1).leaveEscrow(1, 1);
+
+            await time.increaseTo(endTime - cutoff + 1);
+            await expect(
+                dfsEscrowManager.connect(participant1).leaveEscrow(1, 1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "LeaveWindowClosed");
+
+            await time.increaseTo(endTime + 1);
+            await expect(
+                dfsEscrowManager.connect(organizer).setLeaveCutoff(1, 0)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowEnded");
+        });
+    });
+
     describe("addToPool", function () {
         it("Should allow a non-participant to add funds to the pool", async function () {
             const { dfsEscrowManager, mockToken, organizer, contributor } = await loadFixture(deployDFSEscrowManagerFixture);
@@ -417,6 +710,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600), 
                 "Contrib", 
                 5,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
             
@@ -427,10 +723,10 @@ describe("DFSEscrowManager", function () {
                 .to.emit(dfsEscrowManager, "PoolFunded").withArgs(1, contributor.address, contribution);
 
             const details = await dfsEscrowManager.getEscrowDetails(1);
-            const vault = await ethers.getContractAt("MockYearnVault", details.yearnVault);
+            const vault = await ethers.getContractAt("MockYearnVault", details.vault);
 
             // Only contribution should be in vault (organizer didn't auto-join)
-            expect(await mockToken.balanceOf(details.yearnVault)).to.equal(contribution);
+            expect(await mockToken.balanceOf(details.vault)).to.equal(contribution);
             expect((await dfsEscrowManager.getParticipants(1)).length).to.equal(0); // No participants yet
         });
 
@@ -441,6 +737,351 @@ describe("DFSEscrowManager", function () {
         });
     });
 
+    describe("Permit Joins", function () {
+        // Helper: open escrow with no approvals in place
+        async function setupPermitEscrow() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer } = fixture;
+            const dues = ethers.parseUnits("1", 6);
+            const deadline = (await time.latest()) + 3600;
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                (await time.latest()) + (2 * 24 * 3600),
+                "Permit Test",
+                10,
+                0,
+                0,
+                [],
+                ethers.ZeroAddress
+            );
+
+            return { ...fixture, dues, deadline, managerAddress };
+        }
+
+        it("Should join without a prior approve", async function () {
+            const { dfsEscrowManager, mockToken, participant1, dues, deadline, managerAddress } = await setupPermitEscrow();
+            await mockToken.mint(participant1.address, dues * 2n);
+
+            const sig = await signPermit(participant1, mockToken, managerAddress, dues * 2n, deadline);
+            await expect(dfsEscrowManager.connect(participant1).joinEscrowWithPermit(1, 2, deadline, sig.v, sig.r, sig.s))
+                .to.emit(dfsEscrowManager, "ParticipantJoined")
+                .withArgs(1, participant1.address, 2);
+
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(2);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(0);
+            expect(await mockToken.allowance(participant1.address, managerAddress)).to.equal(0);
+            expect(await mockToken.nonces(participant1.address)).to.equal(1);
+        });
+
+        it("Should add to the pool without a prior approve", async function () {
+            const { dfsEscrowManager, mockToken, contributor, deadline, managerAddress } = await setupPermitEscrow();
+            const contribution = ethers.parseUnits("25", 6);
+            await mockToken.mint(contributor.address, contribution);
+
+            const sig = await signPermit(contributor, mockToken, managerAddress, contribution, deadline);
+            await expect(dfsEscrowManager.connect(contributor).addToPoolWithPermit(1, contribution, deadline, sig.v, sig.r, sig.s))
+                .to.emit(dfsEscrowManager, "PoolFunded")
+                .withArgs(1, contributor.address, contribution);
+
+            expect(await dfsEscrowManager.poolContributions(1, contributor.address)).to.equal(contribution);
+            expect(await mockToken.balanceOf((await dfsEscrowManager.getEscrowDetails(1)).vault)).to.equal(contribution);
+        });
+
+        it("Should revert with an expired permit", async function () {
+            const { dfsEscrowManager, mockToken, participant1, contributor, dues, managerAddress } = await setupPermitEscrow();
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.mint(contributor.address, dues);
+            const expired = (await time.latest()) - 1;
+
+            const sig = await signPermit(participant1, mockToken, managerAddress, dues, expired);
+            await expect(
+                dfsEscrowManager.connect(participant1).joinEscrowWithPermit(1, 1, expired, sig.v, sig.r, sig.s)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PermitFailed");
+
+            const poolSig = await signPermit(contributor, mockToken, managerAddress, dues, expired);
+            await expect(
+                dfsEscrowManager.connect(contributor).addToPoolWithPermit(1, dues, expired, poolSig.v, poolSig.r, poolSig.s)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PermitFailed");
+        });
+
+        it("Should revert when a permit is replayed", async function () {
+            const { dfsEscrowManager, mockToken, participant1, dues, deadline, managerAddress } = await setupPermitEscrow();
+            await mockToken.mint(participant1.address, dues * 2n);
+
+            const sig = await signPermit(participant1, mockToken, managerAddress, dues, deadline);
+            await dfsEscrowManager.connect(participant1).joinEscrowWithPermit(1, 1, deadline, sig.v, sig.r, sig.s);
+
+            await expect(
+                dfsEscrowManager.connect(participant1).joinEscrowWithPermit(1, 1, deadline, sig.v, sig.r, sig.s)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PermitFailed");
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(1);
+        });
+
+        it("Should revert when the permit value does not match the entry cost", async function () {
+            const { dfsEscrowManager, mockToken, participant1, dues, deadline, managerAddress } = await setupPermitEscrow();
+            await mockToken.mint(participant1.address, dues * 2n);
+
+            // Signed for one entry, submitted for two
+            const sig = await signPermit(participant1, mockToken, managerAddress, dues, deadline);
+            await expect(
+                dfsEscrowManager.connect(participant1).joinEscrowWithPermit(1, 2, deadline, sig.v, sig.r, sig.s)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PermitFailed");
+        });
+
+        it("Should revert when the permit was signed by another account", async function () {
+            const { dfsEscrowManager, mockToken, participant1, participant2, dues, deadline, managerAddress } = await setupPermitEscrow();
+            await mockToken.mint(participant2.address, dues);
+
+            const sig = await signPermit(participant1, mockToken, managerAddress, dues, deadline);
+            await expect(
+                dfsEscrowManager.connect(participant2).joinEscrowWithPermit(1, 1, deadline, sig.v, sig.r, sig.s)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PermitFailed");
+        });
+
+        it("Should still join if the permit was front-run", async function () {
+            const { dfsEscrowManager, mockToken, participant1, participant2, dues, deadline, managerAddress } = await setupPermitEscrow();
+            await mockToken.mint(participant1.address, dues);
+
+            const sig = await signPermit(participant1, mockToken, managerAddress, dues, deadline);
+            // A third party submits the permit directly, consuming the nonce
+            await mockToken.connect(participant2).permit(participant1.address, managerAddress, dues, deadline, sig.v, sig.r, sig.s);
+
+            await expect(dfsEscrowManager.connect(participant1).joinEscrowWithPermit(1, 1, deadline, sig.v, sig.r, sig.s))
+                .to.emit(dfsEscrowManager, "ParticipantJoined")
+                .withArgs(1, participant1.address, 1);
+        });
+    });
+
+    describe("Signed Joins", function () {
+        // Helper: open escrow, funded player, and a separate relayer account
+        async function setupSignedJoin() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, participant1 } = fixture;
+            const relayer = (await ethers.getSigners())[5];
+            const dues = ethers.parseUnits("1", 6);
+            const deadline = (await time.latest()) + 3600;
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                (await time.latest()) + (2 * 24 * 3600),
+                "Signed Test",
+                10,
+                0,
+                0,
+                [],
+                ethers.ZeroAddress
+            );
+            await mockToken.mint(participant1.address, dues * 5n);
+
+            return { ...fixture, player: participant1, relayer, dues, deadline, managerAddress };
+        }
+
+        it("Should record entries for the signer when a relayer submits with a prior approval", async function () {
+            const { dfsEscrowManager, mockToken, player, relayer, dues, deadline, managerAddress } = await setupSignedJoin();
+            await mockToken.connect(player).approve(managerAddress, dues * 2n);
+
+            const request = await buildJoinRequest(dfsEscrowManager, player.address, 1, 2, deadline);
+            const signature = await signJoinRequest(player, dfsEscrowManager, request);
+
+            await expect(dfsEscrowManager.connect(relayer).joinEscrowWithSignature(request, signature))
+                .to.emit(dfsEscrowManager, "SignedJoinRelayed")
+                .withArgs(1, player.address, relayer.address, 0)
+                .and.to.emit(dfsEscrowManager, "ParticipantJoined")
+                .withArgs(1, player.address, 2);
+
+            expect(await dfsEscrowManager.getUserEntryCount(1, player.address)).to.equal(2);
+            expect(await dfsEscrowManager.getParticipants(1)).to.deep.equal([player.address]);
+            expect(await dfsEscrowManager.getJoinedEscrows(player.address)).to.deep.equal([1n]);
+            expect(await dfsEscrowManager.getUserEntryCount(1, relayer.address)).to.equal(0);
+            expect(await dfsEscrowManager.getJoinedEscrows(relayer.address)).to.be.empty;
+            expect(await mockToken.balanceOf(player.address)).to.equal(dues * 3n);
+            expect(await dfsEscrowManager.nonces(player.address)).to.equal(1);
+        });
+
+        it("Should join with a signed request and a permit, with no approval from the player", async function () {
+            const { dfsEscrowManager, mockToken, player, relayer, dues, deadline, managerAddress } = await setupSignedJoin();
+
+            const request = await buildJoinRequest(dfsEscrowManager, player.address, 1, 3, deadline);
+            const signature = await signJoinRequest(player, dfsEscrowManager, request);
+            const permit = await signPermit(player, mockToken, managerAddress, dues * 3n, deadline);
+
+            await expect(
+                dfsEscrowManager
+                    .connect(relayer)
+                    .joinEscrowWithSignatureAndPermit(request, signature, deadline, permit.v, permit.r, permit.s)
+            )
+                .to.emit(dfsEscrowManager, "ParticipantJoined")
+                .withArgs(1, player.address, 3);
+
+            expect(await dfsEscrowManager.getUserEntryCount(1, player.address)).to.equal(3);
+            expect(await mockToken.balanceOf(player.address)).to.equal(dues * 2n);
+        });
+
+        it("Should reject a replayed request", async function () {
+            const { dfsEscrowManager, mockToken, player, relayer, dues, deadline, managerAddress } = await setupSignedJoin();
+            await mockToken.connect(player).approve(managerAddress, dues * 2n);
+
+            const request = await buildJoinRequest(dfsEscrowManager, player.address, 1, 1, deadline);
+            const signature = await signJoinRequest(player, dfsEscrowManager, request);
+            await dfsEscrowManager.connect(relayer).joinEscrowWithSignature(request, signature);
+
+            await expect(
+                dfsEscrowManager.connect(relayer).joinEscrowWithSignature(request, signature)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidAccountNonce")
+                .withArgs(player.address, 1);
+        });
+
+        it("Should reject a request with a nonce other than the current one", async function () {
+            const { dfsEscrowManager, mockToken, player, relayer, dues, deadline, managerAddress } = await setupSignedJoin();
+            await mockToken.connect(player).approve(managerAddress, dues);
+
+            const request = { ...(await buildJoinRequest(dfsEscrowManager, player.address, 1, 1, deadline)), nonce: 5n };
+            const signature = await signJoinRequest(player, dfsEscrowManager, request);
+
+            await expect(
+                dfsEscrowManager.connect(relayer).joinEscrowWithSignature(request, signature)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidAccountNonce")
+                .withArgs(player.address, 0);
+        });
+
+        it("Should reject an expired request", async function () {
+            const { dfsEscrowManager, mockToken, player, relayer, dues, managerAddress } = await setupSignedJoin();
+            await mockToken.connect(player).approve(managerAddress, dues);
+            const expired = (await time.latest()) - 1;
+
+            const request = await buildJoinRequest(dfsEscrowManager, player.address, 1, 1, expired);
+            const signature = await signJoinRequest(player, dfsEscrowManager, request);
+
+            await expect(
+                dfsEscrowManager.connect(relayer).joinEscrowWithSignature(request, signature)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "SignatureExpired");
+        });
+
+        it("Should reject tampered requests and signatures from another account", async function () {
+            const { dfsEscrowManager, mockToken, player, relayer, participant2, dues, deadline, managerAddress } = await setupSignedJoin();
+            await mockToken.connect(player).approve(managerAddress, dues * 5n);
+
+            const request = await buildJoinRequest(dfsEscrowManager, player.address, 1, 1, deadline);
+            const signature = await signJoinRequest(player, dfsEscrowManager, request);
+
+            // Relayer inflates the entry count
+            await expect(
+                dfsEscrowManager.connect(relayer).joinEscrowWithSignature({ ...request, numEntries: 5n }, signature)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidSignature");
+
+            // Someone else signs a request spending the player's approval
+            const forged = await signJoinRequest(participant2, dfsEscrowManager, request);
+            await expect(
+                dfsEscrowManager.connect(relayer).joinEscrowWithSignature(request, forged)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidSignature");
+        });
+
+        it("Should expose a digest matching the TypeScript signing helper", async function () {
+            const { dfsEscrowManager, player, deadline } = await setupSignedJoin();
+            const request = await buildJoinRequest(dfsEscrowManager, player.address, 1, 2, deadline);
+            const signature = await signJoinRequest(player, dfsEscrowManager, request);
+
+            const digest = await dfsEscrowManager.hashJoinRequest(request);
+            expect(ethers.recoverAddress(digest, signature)).to.equal(player.address);
+        });
+    });
+
+    describe("Gifted Entries", function () {
+        // Helper fixture: open escrow with a funded checkout wallet (contributor) buying for participant1
+        async function setupGiftedEntries() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, contributor } = fixture;
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Gift Test",
+                10,
+                3,
+                0,
+                [],
+                ethers.ZeroAddress
+            );
+
+            await mockToken.mint(contributor.address, dues * 10n);
+            await mockToken.connect(contributor).approve(await dfsEscrowManager.getAddress(), dues * 10n);
+
+            return { ...fixture, dues };
+        }
+
+        it("Should credit the beneficiary and charge the payer", async function () {
+            const { dfsEscrowManager, mockToken, contributor, participant1, dues } = await setupGiftedEntries();
+
+            await expect(dfsEscrowManager.connect(contributor).joinEscrowFor(1, participant1.address, 2))
+                .to.emit(dfsEscrowManager, "ParticipantJoined")
+                .withArgs(1, participant1.address, 2)
+                .and.to.emit(dfsEscrowManager, "EntriesGifted")
+                .withArgs(1, contributor.address, participant1.address, 2);
+
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues * 8n);
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(2);
+            expect(await dfsEscrowManager.getUserEntryCount(1, contributor.address)).to.equal(0);
+            expect(await dfsEscrowManager.getParticipants(1)).to.deep.equal([participant1.address]);
+            expect(await dfsEscrowManager.getJoinedEscrows(participant1.address)).to.deep.equal([1n]);
+            expect(await dfsEscrowManager.giftedEntryCount(1, participant1.address)).to.equal(2);
+            expect(await dfsEscrowManager.purchasedEntryCount(1, contributor.address)).to.equal(2);
+
+            // The beneficiary's per-user limit applies
+            await expect(dfsEscrowManager.connect(contributor).joinEscrowFor(1, participant1.address, 2))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsMaxEntriesPerUser")
+                .withArgs(3);
+            await expect(dfsEscrowManager.connect(contributor).joinEscrowFor(1, ethers.ZeroAddress, 1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidToken");
+        });
+
+        it("Should keep gifted entries out of leaveEscrow", async function () {
+            const { dfsEscrowManager, mockToken, contributor, participant1, dues } = await setupGiftedEntries();
+
+            await dfsEscrowManager.connect(contributor).joinEscrowFor(1, participant1.address, 1);
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+
+            await expect(dfsEscrowManager.connect(participant1).leaveEscrow(1, 2))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientEntries")
+                .withArgs(2, 1);
+
+            await dfsEscrowManager.connect(participant1).leaveEscrow(1, 1);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues);
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(1);
+        });
+
+        it("Should refund gifted entries to the payer on cancellation", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, participant1, participant2, dues } = await setupGiftedEntries();
+
+            await dfsEscrowManager.connect(contributor).joinEscrowFor(1, participant1.address, 2);
+            await dfsEscrowManager.connect(contributor).joinEscrowFor(1, participant2.address, 1);
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+
+            expect(await dfsEscrowManager.getRefundAmount(1, contributor.address)).to.equal(dues * 3n);
+            expect(await dfsEscrowManager.getRefundAmount(1, participant1.address)).to.equal(dues);
+            expect(await dfsEscrowManager.getRefundAmount(1, participant2.address)).to.equal(0);
+
+            await dfsEscrowManager.connect(contributor).claimRefund(1);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues * 10n);
+            await expect(dfsEscrowManager.connect(participant2).claimRefund(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NothingToRefund");
+        });
+    });
+
     describe("distributeWinnings", function () {
         // Helper fixture to set up a joined and ended escrow
         async function setupJoinedEscrow() {
@@ -457,6 +1098,9 @@ describe("DFSEscrowManager", function () {
                 endTime, 
                 "TF", 
                 10,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -478,6 +1122,9 @@ describe("DFSEscrowManager", function () {
                 twoDaysFromNow, 
                 "Escrow2", 
                 2,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
             expect(await dfsEscrowManager.getActiveEscrowIds()).to.deep.equal([1n, 2n]);
@@ -507,7 +1154,7 @@ describe("DFSEscrowManager", function () {
             expect(await mockToken.balanceOf(participant1.address)).to.equal(p1_initialBalance + dues);
             
             const details1 = await dfsEscrowManager.getEscrowDetails(1);
-            expect(await mockToken.balanceOf(details1.yearnVault)).to.equal(0);
+            expect(await mockToken.balanceOf(details1.vault)).to.equal(0);
             
             const newDetails1 = await dfsEscrowManager.getEscrowDetails(1);
             expect(newDetails1.payoutsComplete).to.be.true;
@@ -631,6 +1278,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Surplus Test",
                     10,
+                    0,
+                    0,
+                    [],
                     overflowRecipient
                 );
 
@@ -702,6 +1352,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Exact Test",
                     10,
+                    0,
+                    0,
+                    [],
                     overflowRecipient
                 );
 
@@ -743,6 +1396,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Deficit Test",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 );
 
@@ -776,6 +1432,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Default Test",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 );
 
@@ -821,6 +1480,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Setter Test",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 );
 
@@ -841,6 +1503,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Zero Test",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 );
 
@@ -862,6 +1527,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Complete Test",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 );
 
@@ -891,6 +1559,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Set Test",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 );
 
@@ -936,6 +1607,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Zero Winners Test",
                     10,
+                    0,
+                    0,
+                    [],
                     overflowRecipient
                 );
 
@@ -969,27 +1643,2663 @@ describe("DFSEscrowManager", function () {
         });
     });
 
-    describe("setMaxEntriesPerUser", function () {
-        it("Should allow owner to update maxEntriesPerUser", async function () {
-            const { dfsEscrowManager, owner } = await loadFixture(deployDFSEscrowManagerFixture);
-            
-            expect(await dfsEscrowManager.maxEntriesPerUser()).to.equal(1000);
-            
-            await dfsEscrowManager.connect(owner).setMaxEntriesPerUser(500);
-            expect(await dfsEscrowManager.maxEntriesPerUser()).to.equal(500);
-            
-            await expect(dfsEscrowManager.connect(owner).setMaxEntriesPerUser(500))
-                .to.emit(dfsEscrowManager, "MaxEntriesPerUserUpdated")
-                .withArgs(500);
-        });
+    describe("Merkle Payouts", function () {
+        // Helper fixture: ended escrow with two players and a sponsor top-up (8 tokens in the pool)
+        async function setupEndedEscrow() {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor } = await loadFixture(
+                deployDFSEscrowManagerFixture
+            );
 
-        it("Should revert if non-owner tries to update", async function () {
-            const { dfsEscrowManager, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
-            
-            await expect(
-                dfsEscrowManager.connect(organizer).setMaxEntriesPerUser(500)
-            ).to.be.revertedWithCustomError(dfsEscrowManager, "OwnableUnauthorizedAccount");
-        });
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Merkle Test",
+                10,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(managerAddress, dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+
+            await mockToken.mint(participant2.address, dues * 3n);
+            await mockToken.connect(participant2).approve(managerAddress, dues * 3n);
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 3);
+
+            await mockToken.mint(owner.address, dues * 4n);
+            await mockToken.connect(owner).approve(managerAddress, dues * 4n);
+            await dfsEscrowManager.connect(owner).addToPool(1, dues * 4n);
+
+            await time.increaseTo(endTime + 1);
+
+            const payouts = buildPayoutTree([
+                { winner: participant1.address, amount: dues * 5n },
+                { winner: participant2.address, amount: dues * 2n },
+            ]);
+            const claimDeadline = (await time.latest()) + (8 * 24 * 3600);
+
+            return { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor, dues, payouts, claimDeadline };
+        }
+
+        it("Should build identical roots regardless of results order", async function () {
+            const [a, b] = await ethers.getSigners();
+            const first = buildPayoutTree([{ winner: a.address, amount: 5n }, { winner: b.address, amount: 2n }]);
+            const second = buildPayoutTree([{ winner: b.address, amount: "2" }, { winner: a.address, amount: "5" }]);
+            expect(first.root).to.equal(second.root);
+            expect(first.totalPayout).to.equal(7n);
+            expect(() => buildPayoutTree([{ winner: a.address, amount: 1n }, { winner: a.address, amount: 2n }])).to.throw();
+        });
+
+        it("Should post a root, reserve the total and send the surplus to the overflow recipient", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, dues, payouts, claimDeadline } = await setupEndedEscrow();
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+
+            await expect(dfsEscrowManager.connect(organizer).postMerkleRoot(1, payouts.root, payouts.totalPayout, claimDeadline))
+                .to.emit(dfsEscrowManager, "MerkleRootPosted")
+                .withArgs(1, payouts.root, dues * 7n, claimDeadline, contributor.address, dues);
+
+            expect(await mockToken.balanceOf(details.vault)).to.equal(0);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(await dfsEscrowManager.getAddress())).to.equal(dues * 7n);
+
+            const payout = await dfsEscrowManager.merklePayouts(1);
+            expect(payout.merkleRoot).to.equal(payouts.root);
+            expect(payout.unclaimedAmount).to.equal(dues * 7n);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+            expect(await dfsEscrowManager.getActiveEscrowIds()).to.be.empty;
+
+            // The escrow can no longer be settled another way
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinnings(1, [], [])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PayoutsAlreadyComplete");
+        });
+
+        it("Should revert posting a root by non-organizer, before end, or with invalid parameters", async function () {
+            const { dfsEscrowManager, organizer, participant1, dues, payouts, claimDeadline } = await setupEndedEscrow();
+
+            await expect(
+                dfsEscrowManager.connect(participant1).postMerkleRoot(1, payouts.root, payouts.totalPayout, claimDeadline)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(
+                dfsEscrowManager.connect(organizer).postMerkleRoot(1, ethers.ZeroHash, payouts.totalPayout, claimDeadline)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidMerkleRoot");
+            await expect(
+                dfsEscrowManager.connect(organizer).postMerkleRoot(1, payouts.root, payouts.totalPayout, (await time.latest()) + 3600)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "ClaimDeadlineTooSoon");
+            await expect(
+                dfsEscrowManager.connect(organizer).postMerkleRoot(1, payouts.root, dues * 9n, claimDeadline)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientPool")
+                .withArgs(dues * 9n, dues * 8n);
+        });
+
+        it("Should let winners claim with valid proofs exactly once", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, dues, payouts, claimDeadline } =
+                await setupEndedEscrow();
+            await dfsEscrowManager.connect(organizer).postMerkleRoot(1, payouts.root, payouts.totalPayout, claimDeadline);
+
+            const claim1 = payouts.proofs[participant1.address];
+            await expect(dfsEscrowManager.connect(participant1).claimWinnings(1, claim1.amount, claim1.proof))
+                .to.emit(dfsEscrowManager, "WinningsClaimed")
+                .withArgs(1, participant1.address, dues * 5n);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 5n);
+            expect(await dfsEscrowManager.winningsClaimed(1, participant1.address)).to.be.true;
+
+            await expect(
+                dfsEscrowManager.connect(participant1).claimWinnings(1, claim1.amount, claim1.proof)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "WinningsAlreadyClaimed");
+
+            const claim2 = payouts.proofs[participant2.address];
+            await dfsEscrowManager.connect(participant2).claimWinnings(1, claim2.amount, claim2.proof);
+            expect(await mockToken.balanceOf(participant2.address)).to.equal(dues * 2n);
+            expect((await dfsEscrowManager.merklePayouts(1)).unclaimedAmount).to.equal(0);
+        });
+
+        it("Should reject claims with a wrong amount, someone else's proof, or no root", async function () {
+            const { dfsEscrowManager, organizer, participant1, participant2, contributor, payouts, claimDeadline } =
+                await setupEndedEscrow();
+            const claim1 = payouts.proofs[participant1.address];
+
+            await expect(
+                dfsEscrowManager.connect(participant1).claimWinnings(1, claim1.amount, claim1.proof)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NoMerklePayout");
+
+            await dfsEscrowManager.connect(organizer).postMerkleRoot(1, payouts.root, payouts.totalPayout, claimDeadline);
+
+            await expect(
+                dfsEscrowManager.connect(participant1).claimWinnings(1, claim1.amount + 1n, claim1.proof)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidProof");
+            await expect(
+                dfsEscrowManager.connect(participant2).claimWinnings(1, claim1.amount, claim1.proof)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidProof");
+            await expect(
+                dfsEscrowManager.connect(contributor).claimWinnings(1, claim1.amount, claim1.proof)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "WinnerNotParticipant");
+        });
+
+        it("Should sweep unclaimed winnings to the overflow recipient after the deadline", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor, dues, payouts, claimDeadline } =
+                await setupEndedEscrow();
+            await dfsEscrowManager.connect(organizer).postMerkleRoot(1, payouts.root, payouts.totalPayout, claimDeadline);
+
+            const claim1 = payouts.proofs[participant1.address];
+            await dfsEscrowManager.connect(participant1).claimWinnings(1, claim1.amount, claim1.proof);
+
+            await expect(
+                dfsEscrowManager.sweepUnclaimedWinnings(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "ClaimPeriodNotEnded");
+
+            await time.increaseTo(claimDeadline + 1);
+
+            const claim2 = payouts.proofs[participant2.address];
+            await expect(
+                dfsEscrowManager.connect(participant2).claimWinnings(1, claim2.amount, claim2.proof)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "ClaimPeriodEnded");
+
+            const overflowBefore = await mockToken.balanceOf(contributor.address);
+            await expect(dfsEscrowManager.connect(participant2).sweepUnclaimedWinnings(1))
+                .to.emit(dfsEscrowManager, "UnclaimedWinningsSwept")
+                .withArgs(1, contributor.address, dues * 2n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(overflowBefore + dues * 2n);
+
+            await expect(
+                dfsEscrowManager.sweepUnclaimedWinnings(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidAmount");
+        });
+    });
+
+    describe("Batched Settlement", function () {
+        // Helper fixture: ended escrow with three single-entry players and a sponsor top-up (5 tokens in the pool)
+        async function setupEndedEscrow() {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor } = await loadFixture(
+                deployDFSEscrowManagerFixture
+            );
+            const participant3 = (await ethers.getSigners())[5];
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Batch Test",
+                10,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+
+            for (const player of [participant1, participant2, participant3]) {
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+            }
+
+            await mockToken.mint(owner.address, dues * 2n);
+            await mockToken.connect(owner).approve(managerAddress, dues * 2n);
+            await dfsEscrowManager.connect(owner).addToPool(1, dues * 2n);
+
+            await time.increaseTo(endTime + 1);
+
+            return { dfsEscrowManager, mockToken, organizer, participant1, participant2, participant3, contributor, dues };
+        }
+
+        it("Should settle across several batches and send the remainder on finalize", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, participant3, contributor, dues } =
+                await setupEndedEscrow();
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+
+            await expect(dfsEscrowManager.connect(organizer).openSettlement(1, dues * 4n))
+                .to.emit(dfsEscrowManager, "SettlementOpened")
+                .withArgs(1, dues * 4n, dues * 5n);
+            expect(await mockToken.balanceOf(details.vault)).to.equal(0);
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant1.address, participant2.address], [dues * 2n, dues]))
+                .to.emit(dfsEscrowManager, "WinningsBatchDistributed")
+                .withArgs(1, [participant1.address, participant2.address], [dues * 2n, dues], dues * 3n);
+
+            // Still active until finalized
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.false;
+            expect(await dfsEscrowManager.getActiveEscrowIds()).to.deep.equal([1n]);
+
+            await dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant3.address], [dues]);
+
+            await expect(dfsEscrowManager.connect(organizer).finalizeSettlement(1))
+                .to.emit(dfsEscrowManager, "SettlementFinalized")
+                .withArgs(1, dues * 4n, contributor.address, dues);
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 2n);
+            expect(await mockToken.balanceOf(participant2.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(participant3.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(await dfsEscrowManager.getAddress())).to.equal(0);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+            expect(await dfsEscrowManager.getActiveEscrowIds()).to.be.empty;
+        });
+
+        it("Should reject a winner paid in an earlier batch or twice in the same batch", async function () {
+            const { dfsEscrowManager, organizer, participant1, participant2, dues } = await setupEndedEscrow();
+            await dfsEscrowManager.connect(organizer).openSettlement(1, dues * 4n);
+
+            await dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant1.address], [dues]);
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant1.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NoDuplicateWinners");
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant2.address, participant2.address], [dues, dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NoDuplicateWinners");
+        });
+
+        it("Should not let batches exceed the committed total or finalize before it is paid", async function () {
+            const { dfsEscrowManager, organizer, participant1, participant2, dues } = await setupEndedEscrow();
+            await dfsEscrowManager.connect(organizer).openSettlement(1, dues * 2n);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant1.address, participant2.address], [dues * 2n, dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsCommittedTotal")
+                .withArgs(dues * 3n, dues * 2n);
+
+            await dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant1.address], [dues]);
+            await expect(
+                dfsEscrowManager.connect(organizer).finalizeSettlement(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "SettlementIncomplete")
+                .withArgs(dues, dues * 2n);
+        });
+
+        it("Should revert opening with a total above the pool, by non-organizer, or twice", async function () {
+            const { dfsEscrowManager, organizer, participant1, dues } = await setupEndedEscrow();
+
+            await expect(
+                dfsEscrowManager.connect(organizer).openSettlement(1, dues * 6n)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientPool")
+                .withArgs(dues * 6n, dues * 5n);
+            await expect(
+                dfsEscrowManager.connect(participant1).openSettlement(1, dues)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant1.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "SettlementNotOpen");
+
+            await dfsEscrowManager.connect(organizer).openSettlement(1, dues);
+            await expect(
+                dfsEscrowManager.connect(organizer).openSettlement(1, dues)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "SettlementInProgress");
+        });
+
+        it("Should block other settlement paths and cancellation while open", async function () {
+            const { dfsEscrowManager, organizer, participant1, dues } = await setupEndedEscrow();
+            await dfsEscrowManager.connect(organizer).openSettlement(1, dues);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "SettlementInProgress");
+            await expect(
+                dfsEscrowManager.connect(organizer).postMerkleRoot(1, ethers.id("root"), dues, (await time.latest()) + (8 * 24 * 3600))
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "SettlementInProgress");
+            await expect(
+                dfsEscrowManager.connect(organizer).cancelEscrow(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "SettlementInProgress");
+        });
+
+        it("Should accept a single batch larger than MAX_RECIPIENTS", async function () {
+            const { dfsEscrowManager, mockToken, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+            const fieldSize = Number(await dfsEscrowManager.MAX_RECIPIENTS()) + 1;
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Big Field",
+                fieldSize,
+                0,
+                0,
+                [],
+                ethers.ZeroAddress
+            );
+
+            const players: string[] = [];
+            for (let i = 0; i < fieldSize; i++) {
+                const player = ethers.Wallet.createRandom().connect(ethers.provider);
+                await ethers.provider.send("hardhat_setBalance", [player.address, "0xDE0B6B3A7640000"]);
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+                players.push(player.address);
+            }
+
+            await time.increaseTo(endTime + 1);
+            const amounts = players.map(() => dues);
+            await dfsEscrowManager.connect(organizer).openSettlement(1, dues * BigInt(fieldSize));
+            await dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, players, amounts);
+            await dfsEscrowManager.connect(organizer).finalizeSettlement(1);
+
+            expect(await mockToken.balanceOf(players[fieldSize - 1])).to.equal(dues);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+        });
+    });
+
+    describe("Result Proposals", function () {
+        // Helper fixture: ended two-player escrow with a one-day challenge window and an auditor
+        async function setupChallengedEscrow() {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor } = await loadFixture(
+                deployDFSEscrowManagerFixture
+            );
+            const auditor = (await ethers.getSigners())[5];
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Dispute Test",
+                10,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+
+            for (const player of [participant1, participant2]) {
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+            }
+
+            await dfsEscrowManager.connect(owner).setChallengeWindow(24 * 3600);
+            await dfsEscrowManager.connect(owner).grantRole(await dfsEscrowManager.AUDITOR_ROLE(), auditor.address);
+
+            await time.increaseTo(endTime + 1);
+
+            const winners = [participant1.address, participant2.address];
+            const amounts = [dues + dues / 2n, dues / 2n];
+            const resultsHash = await dfsEscrowManager.hashResults(winners, amounts);
+
+            return { dfsEscrowManager, mockToken, owner, organizer, participant1, contributor, auditor, winners, amounts, resultsHash, dues };
+        }
+
+        it("Should pay out proposed results once the challenge window has passed", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, contributor, winners, amounts, resultsHash } =
+                await setupChallengedEscrow();
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, winners, amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoResultsProposed");
+
+            const tx = dfsEscrowManager.connect(organizer).proposeResults(1, resultsHash);
+            const deadline = (await time.latest()) + 1 + (24 * 3600);
+            await expect(tx)
+                .to.emit(dfsEscrowManager, "ResultsProposed")
+                .withArgs(1, organizer.address, resultsHash, deadline);
+
+            await expect(dfsEscrowManager.connect(contributor).finalizeResults(1, winners, amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ChallengeWindowActive")
+                .withArgs(deadline);
+
+            await time.increaseTo(deadline);
+
+            // Arrays must match the committed hash
+            await expect(dfsEscrowManager.connect(contributor).finalizeResults(1, winners, [amounts[1], amounts[0]]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ResultsMismatch");
+
+            // Anyone may finalize
+            await expect(dfsEscrowManager.connect(contributor).finalizeResults(1, winners, amounts))
+                .to.emit(dfsEscrowManager, "ResultsFinalized")
+                .withArgs(1, contributor.address, resultsHash)
+                .and.to.emit(dfsEscrowManager, "WinningsDistributed");
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(amounts[0]);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+            expect((await dfsEscrowManager.resultProposals(1)).challengeDeadline).to.equal(0);
+        });
+
+        it("Should let an auditor or config admin veto during the window only", async function () {
+            const { dfsEscrowManager, owner, organizer, contributor, auditor, winners, amounts, resultsHash } =
+                await setupChallengedEscrow();
+
+            await expect(dfsEscrowManager.connect(auditor).vetoResults(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoResultsProposed");
+
+            await dfsEscrowManager.connect(organizer).proposeResults(1, resultsHash);
+
+            await expect(dfsEscrowManager.connect(contributor).vetoResults(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotAuditor");
+            await expect(dfsEscrowManager.connect(auditor).vetoResults(1))
+                .to.emit(dfsEscrowManager, "ResultsVetoed")
+                .withArgs(1, auditor.address, resultsHash);
+
+            await time.increase(24 * 3600);
+            await expect(dfsEscrowManager.connect(contributor).finalizeResults(1, winners, amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoResultsProposed");
+
+            // A fresh proposal restarts the window; it can no longer be vetoed once the window closes
+            await dfsEscrowManager.connect(organizer).proposeResults(1, resultsHash);
+            await dfsEscrowManager.connect(owner).vetoResults(1);
+            await dfsEscrowManager.connect(organizer).proposeResults(1, resultsHash);
+            await time.increase(24 * 3600);
+            await expect(dfsEscrowManager.connect(owner).vetoResults(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ChallengeWindowClosed");
+        });
+
+        it("Should run any settlement mode proposed as its calldata once the window has passed", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, contributor, amounts } = await setupChallengedEscrow();
+            const call = dfsEscrowManager.interface.encodeFunctionData("distributeWinningsByEntry", [1, [1, 2], amounts]);
+            const resultsHash = ethers.keccak256(call);
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [1, 2], amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoResultsProposed");
+
+            await dfsEscrowManager.connect(organizer).proposeResults(1, resultsHash);
+            await expect(dfsEscrowManager.connect(contributor).distributeWinningsByEntry(1, [1, 2], amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ChallengeWindowActive");
+
+            await time.increase(24 * 3600);
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [2, 1], amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ResultsMismatch");
+            await expect(dfsEscrowManager.connect(organizer).distributeByPayoutTable(1, [participant1.address]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ResultsMismatch");
+
+            // Anyone may make the proposed call
+            await expect(dfsEscrowManager.connect(contributor).distributeWinningsByEntry(1, [1, 2], amounts))
+                .to.emit(dfsEscrowManager, "ResultsFinalized")
+                .withArgs(1, contributor.address, resultsHash)
+                .and.to.emit(dfsEscrowManager, "EntryWinningsDistributed");
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(amounts[0]);
+            expect((await dfsEscrowManager.resultProposals(1)).challengeDeadline).to.equal(0);
+        });
+
+        it("Should open proposed Merkle and batched settlements once the window has passed", async function () {
+            let { dfsEscrowManager, organizer, contributor, winners, amounts, dues } = await setupChallengedEscrow();
+            const claimDeadline = (await time.latest()) + (30 * 24 * 3600);
+            const merkleArgs: [number, string, bigint, number] = [1, ethers.id("root"), dues, claimDeadline];
+
+            await expect(dfsEscrowManager.connect(organizer).postMerkleRoot(...merkleArgs))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoResultsProposed");
+            await dfsEscrowManager.connect(organizer).proposeResults(
+                1,
+                ethers.keccak256(dfsEscrowManager.interface.encodeFunctionData("postMerkleRoot", merkleArgs))
+            );
+            await time.increase(24 * 3600);
+            await expect(dfsEscrowManager.connect(contributor).postMerkleRoot(...merkleArgs))
+                .to.emit(dfsEscrowManager, "ResultsFinalized")
+                .and.to.emit(dfsEscrowManager, "MerkleRootPosted");
+
+            ({ dfsEscrowManager, organizer, contributor, winners, amounts, dues } = await setupChallengedEscrow());
+            await expect(dfsEscrowManager.connect(organizer).openSettlement(1, dues * 2n))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoResultsProposed");
+            await dfsEscrowManager.connect(organizer).proposeResults(
+                1,
+                ethers.keccak256(dfsEscrowManager.interface.encodeFunctionData("openSettlement", [1, dues * 2n]))
+            );
+            await time.increase(24 * 3600);
+            await expect(dfsEscrowManager.connect(contributor).openSettlement(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ResultsMismatch");
+            await expect(dfsEscrowManager.connect(contributor).openSettlement(1, dues * 2n))
+                .to.emit(dfsEscrowManager, "SettlementOpened");
+
+            // The batches themselves are paid by the settler, within the proposed total
+            await expect(dfsEscrowManager.connect(contributor).distributeWinningsBatch(1, winners, amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, winners, amounts);
+            await dfsEscrowManager.connect(organizer).finalizeSettlement(1);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+        });
+
+        it("Should not finalize a proposal made before attestations became required", async function () {
+            const { dfsEscrowManager, owner, organizer, contributor, auditor, winners, amounts, resultsHash } =
+                await setupChallengedEscrow();
+
+            await dfsEscrowManager.connect(organizer).proposeResults(1, resultsHash);
+            await dfsEscrowManager.connect(owner).setScorer(auditor.address, true);
+            await dfsEscrowManager.connect(owner).setScorerThreshold(1);
+            await time.increase(24 * 3600);
+
+            await expect(dfsEscrowManager.connect(contributor).finalizeResults(1, winners, amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AttestationsRequired");
+
+            await dfsEscrowManager.connect(owner).setScorerThreshold(0);
+            await expect(dfsEscrowManager.connect(contributor).finalizeResults(1, winners, amounts))
+                .to.emit(dfsEscrowManager, "ResultsFinalized");
+        });
+
+        it("Should run the payout checks at finalization", async function () {
+            const { dfsEscrowManager, organizer, participant1, contributor, dues } = await setupChallengedEscrow();
+
+            // Paying a non-participant cannot be caught at proposal time, only when the arrays are revealed
+            const winners = [participant1.address, contributor.address];
+            const amounts = [dues, dues];
+            await dfsEscrowManager.connect(organizer).proposeResults(1, await dfsEscrowManager.hashResults(winners, amounts));
+            await time.increase(24 * 3600);
+
+            await expect(dfsEscrowManager.connect(contributor).finalizeResults(1, winners, amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "WinnerNotParticipant");
+        });
+
+        it("Should restrict proposals and the window setting", async function () {
+            const { dfsEscrowManager, owner, organizer, contributor, resultsHash } = await setupChallengedEscrow();
+
+            await expect(dfsEscrowManager.connect(contributor).proposeResults(1, resultsHash))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+
+            await expect(dfsEscrowManager.connect(organizer).setChallengeWindow(3600))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(dfsEscrowManager.connect(owner).setChallengeWindow(8 * 24 * 3600))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidChallengeWindow");
+            await expect(dfsEscrowManager.connect(owner).setChallengeWindow(0))
+                .to.emit(dfsEscrowManager, "ChallengeWindowUpdated")
+                .withArgs(0);
+        });
+    });
+
+    describe("Scoring Attestations", function () {
+        // Helper fixture: ended two-player escrow with three scorers and a 2-of-3 threshold
+        async function setupAttestedEscrow() {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor } = await loadFixture(
+                deployDFSEscrowManagerFixture
+            );
+            const scorers = (await ethers.getSigners()).slice(5, 8);
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Attested Test",
+                10,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+
+            for (const player of [participant1, participant2]) {
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+            }
+
+            for (const scorer of scorers) {
+                await dfsEscrowManager.connect(owner).setScorer(scorer.address, true);
+            }
+            await dfsEscrowManager.connect(owner).setScorerThreshold(2);
+
+            await time.increaseTo(endTime + 1);
+
+            const winners = [participant1.address, participant2.address];
+            const amounts = [dues + dues / 2n, dues / 2n];
+            const domain = await getScoringDomain((await ethers.provider.getNetwork()).chainId, dfsEscrowManager);
+            const attestation = buildScoringAttestation(1, winners, amounts);
+
+            return {
+                dfsEscrowManager, mockToken, owner, organizer, participant1, contributor, scorers, winners, amounts, domain, attestation, dues,
+            };
+        }
+
+        it("Should settle with signatures from a threshold of scorers, submitted by anyone", async function () {
+            const { dfsEscrowManager, mockToken, participant1, contributor, scorers, winners, amounts, domain, attestation } =
+                await setupAttestedEscrow();
+
+            const signature = await signScoringAttestation(scorers[2], dfsEscrowManager, 1, winners, amounts);
+            const digest = await dfsEscrowManager.hashScoringAttestation(1, winners, amounts);
+            expect(ethers.recoverAddress(digest, signature)).to.equal(scorers[2].address);
+
+            const { signatures } = collectAttestations(domain, attestation, [
+                signature,
+                await signScoringAttestation(scorers[0], dfsEscrowManager, 1, winners, amounts),
+                signature,
+            ]);
+            expect(signatures).to.have.length(2);
+
+            await expect(dfsEscrowManager.connect(contributor).distributeWinningsWithAttestations(1, winners, amounts, signatures))
+                .to.emit(dfsEscrowManager, "ResultsAttested")
+                .withArgs(1, contributor.address, 2)
+                .and.to.emit(dfsEscrowManager, "WinningsDistributed");
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(amounts[0]);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+        });
+
+        it("Should reject too few, repeated, unordered, foreign or mismatched signatures", async function () {
+            const { dfsEscrowManager, owner, contributor, scorers, winners, amounts, domain, attestation } = await setupAttestedEscrow();
+
+            const signed = await Promise.all(scorers.map((scorer) => signScoringAttestation(scorer, dfsEscrowManager, 1, winners, amounts)));
+            const { signatures } = collectAttestations(domain, attestation, signed);
+            const submit = (sigs: string[], payout = amounts) =>
+                dfsEscrowManager.connect(contributor).distributeWinningsWithAttestations(1, winners, payout, sigs);
+
+            await expect(submit([signatures[0]]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientAttestations")
+                .withArgs(1, 2);
+            await expect(submit([signatures[0], signatures[0]]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidScorerSignature");
+            await expect(submit([signatures[1], signatures[0]]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidScorerSignature");
+            await expect(submit(signatures, [amounts[1], amounts[0]]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidScorerSignature");
+
+            const outsider = await signScoringAttestation(owner, dfsEscrowManager, 1, winners, amounts);
+            const mixed = collectAttestations(domain, attestation, [signatures[0], outsider]);
+            await expect(submit(mixed.signatures))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidScorerSignature");
+        });
+
+        it("Should require attestations instead of organizer settlement while a threshold is set", async function () {
+            const { dfsEscrowManager, owner, organizer, contributor, scorers, winners, amounts, dues } = await setupAttestedEscrow();
+            const claimDeadline = (await time.latest()) + (8 * 24 * 3600);
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, winners, amounts))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AttestationsRequired");
+            await expect(dfsEscrowManager.connect(organizer).proposeResults(1, ethers.ZeroHash))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AttestationsRequired");
+            await expect(dfsEscrowManager.connect(organizer).postMerkleRoot(1, ethers.id("root"), dues, claimDeadline))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AttestationsRequired");
+            await expect(dfsEscrowManager.connect(organizer).openSettlement(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AttestationsRequired");
+
+            // Back to organizer settlement once the threshold is cleared
+            await dfsEscrowManager.connect(owner).setScorerThreshold(0);
+            const signature = await signScoringAttestation(scorers[0], dfsEscrowManager, 1, winners, amounts);
+            await expect(dfsEscrowManager.connect(contributor).distributeWinningsWithAttestations(1, winners, amounts, [signature]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ScorersNotConfigured");
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, winners, amounts))
+                .to.emit(dfsEscrowManager, "WinningsDistributed");
+        });
+
+        it("Should run any settlement mode from attested results", async function () {
+            const { dfsEscrowManager, organizer, contributor, scorers, domain, dues } = await setupAttestedEscrow();
+            const claimDeadline = (await time.latest()) + (30 * 24 * 3600);
+            const merkleArgs: [number, string, bigint, number] = [1, ethers.id("root"), dues, claimDeadline];
+            const resultsHash = ethers.keccak256(dfsEscrowManager.interface.encodeFunctionData("postMerkleRoot", merkleArgs));
+
+            const signature = await signResultsAttestation(scorers[1], dfsEscrowManager, 1, resultsHash);
+            const digest = await dfsEscrowManager.hashResultsAttestation(1, resultsHash);
+            expect(ethers.recoverAddress(digest, signature)).to.equal(scorers[1].address);
+
+            const { signatures } = collectAttestations(domain, buildResultsAttestation(1, resultsHash), [
+                signature,
+                await signResultsAttestation(scorers[2], dfsEscrowManager, 1, resultsHash),
+            ]);
+            await expect(dfsEscrowManager.connect(contributor).attestResults(1, resultsHash, [signatures[0]]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientAttestations")
+                .withArgs(1, 2);
+            await expect(dfsEscrowManager.connect(contributor).attestResults(1, ethers.id("other"), signatures))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidScorerSignature");
+
+            // Attested results need no challenge window and can be submitted by anyone
+            const tx = dfsEscrowManager.connect(contributor).attestResults(1, resultsHash, signatures);
+            await expect(tx)
+                .to.emit(dfsEscrowManager, "ResultsProposed")
+                .withArgs(1, contributor.address, resultsHash, await time.latest() + 1)
+                .and.to.emit(dfsEscrowManager, "ResultsAttested")
+                .withArgs(1, contributor.address, 2);
+            expect((await dfsEscrowManager.resultProposals(1)).attested).to.be.true;
+
+            await expect(dfsEscrowManager.connect(organizer).openSettlement(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ResultsMismatch");
+            await expect(dfsEscrowManager.connect(contributor).postMerkleRoot(...merkleArgs))
+                .to.emit(dfsEscrowManager, "ResultsFinalized")
+                .withArgs(1, contributor.address, resultsHash)
+                .and.to.emit(dfsEscrowManager, "MerkleRootPosted");
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+        });
+
+        it("Should let only a config admin manage scorers within the threshold", async function () {
+            const { dfsEscrowManager, owner, organizer, scorers } = await setupAttestedEscrow();
+
+            await expect(dfsEscrowManager.connect(organizer).setScorer(organizer.address, true))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(dfsEscrowManager.connect(organizer).setScorerThreshold(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(dfsEscrowManager.connect(owner).setScorerThreshold(4))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidScorerThreshold");
+
+            await expect(dfsEscrowManager.connect(owner).setScorer(scorers[0].address, false))
+                .to.emit(dfsEscrowManager, "ScorerUpdated")
+                .withArgs(scorers[0].address, false);
+            await expect(dfsEscrowManager.connect(owner).setScorer(scorers[1].address, false))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidScorerThreshold");
+            expect(await dfsEscrowManager.scorerCount()).to.equal(2);
+            expect(await dfsEscrowManager.isScorer(scorers[0].address)).to.be.false;
+        });
+    });
+
+    describe("Protocol Fee", function () {
+        // Helper fixture: 10% rake, fee recipient set, ended escrow with 10 entries and a sponsor top-up of 5
+        async function setupFeeEscrow() {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor } = await loadFixture(
+                deployDFSEscrowManagerFixture
+            );
+            const feeRecipient = (await ethers.getSigners())[6];
+
+            await dfsEscrowManager.connect(owner).setProtocolFee(1000);
+            await dfsEscrowManager.connect(owner).setFeeRecipient(feeRecipient.address);
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Fee Test",
+                100,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+
+            await mockToken.mint(participant1.address, dues * 10n);
+            await mockToken.connect(participant1).approve(managerAddress, dues * 10n);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 10);
+
+            // Sponsor money is not raked
+            await mockToken.mint(owner.address, dues * 5n);
+            await mockToken.connect(owner).approve(managerAddress, dues * 5n);
+            await dfsEscrowManager.connect(owner).addToPool(1, dues * 5n);
+
+            await time.increaseTo(endTime + 1);
+
+            return { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor, feeRecipient, dues };
+        }
+
+        it("Should allow the owner to configure the fee and fee recipient", async function () {
+            const { dfsEscrowManager, owner, organizer, contributor } = await loadFixture(deployDFSEscrowManagerFixture);
+
+            expect(await dfsEscrowManager.protocolFeeBps()).to.equal(0);
+            expect(await dfsEscrowManager.feeRecipient()).to.equal(owner.address);
+
+            await expect(dfsEscrowManager.connect(owner).setProtocolFee(500))
+                .to.emit(dfsEscrowManager, "ProtocolFeeUpdated")
+                .withArgs(500);
+            await expect(dfsEscrowManager.connect(owner).setFeeRecipient(contributor.address))
+                .to.emit(dfsEscrowManager, "FeeRecipientUpdated")
+                .withArgs(contributor.address);
+
+            const maxFee = await dfsEscrowManager.MAX_PROTOCOL_FEE_BPS();
+            await expect(
+                dfsEscrowManager.connect(owner).setProtocolFee(maxFee + 1n)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidFee");
+            await expect(
+                dfsEscrowManager.connect(owner).setFeeRecipient(ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidToken");
+            await expect(
+                dfsEscrowManager.connect(organizer).setProtocolFee(100)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(
+                dfsEscrowManager.connect(organizer).setFeeRecipient(organizer.address)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+        });
+
+        it("Should snapshot the fee at creation", async function () {
+            const { dfsEscrowManager, owner } = await setupFeeEscrow();
+
+            await dfsEscrowManager.connect(owner).setProtocolFee(0);
+            expect((await dfsEscrowManager.escrows(1)).feeBps).to.equal(1000);
+        });
+
+        it("Should take the fee before checking payouts against the pool", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, contributor, feeRecipient, dues } = await setupFeeEscrow();
+
+            // Pool is 15, fee is 10% of 10 dues = 1, so at most 14 can be paid out
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues * 15n])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientPool")
+                .withArgs(dues * 16n, dues * 15n);
+
+            const tx = dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues * 12n]);
+            await expect(tx)
+                .to.emit(dfsEscrowManager, "FeeCollected")
+                .withArgs(1, feeRecipient.address, dues);
+            await expect(tx)
+                .to.emit(dfsEscrowManager, "WinningsDistributed")
+                .withArgs(1, [participant1.address], [dues * 12n], contributor.address, dues * 2n);
+
+            expect(await mockToken.balanceOf(feeRecipient.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 12n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues * 2n);
+        });
+
+        it("Should take the fee when closing with zero winners", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, feeRecipient, dues } = await setupFeeEscrow();
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [], []))
+                .to.emit(dfsEscrowManager, "FeeCollected")
+                .withArgs(1, feeRecipient.address, dues);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues * 14n);
+        });
+
+        it("Should take the fee in Merkle and batched settlement", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, contributor, feeRecipient, dues } = await setupFeeEscrow();
+
+            await dfsEscrowManager.connect(organizer).openSettlement(1, dues * 14n);
+            expect(await mockToken.balanceOf(feeRecipient.address)).to.equal(dues);
+            await dfsEscrowManager.connect(organizer).distributeWinningsBatch(1, [participant1.address], [dues * 14n]);
+            await expect(dfsEscrowManager.connect(organizer).finalizeSettlement(1))
+                .to.emit(dfsEscrowManager, "SettlementFinalized")
+                .withArgs(1, dues * 14n, contributor.address, 0);
+
+            // Second escrow settled through a Merkle root
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Fee Merkle",
+                100,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+            await mockToken.mint(participant1.address, dues * 10n);
+            await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues * 10n);
+            await dfsEscrowManager.connect(participant1).joinEscrow(2, 10);
+            await time.increaseTo(endTime + 1);
+
+            const payouts = buildPayoutTree([{ winner: participant1.address, amount: dues * 8n }]);
+            await expect(
+                dfsEscrowManager.connect(organizer).postMerkleRoot(2, payouts.root, dues * 10n, (await time.latest()) + (8 * 24 * 3600))
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientPool")
+                .withArgs(dues * 11n, dues * 10n);
+            await expect(
+                dfsEscrowManager.connect(organizer).postMerkleRoot(2, payouts.root, payouts.totalPayout, (await time.latest()) + (8 * 24 * 3600))
+            ).to.emit(dfsEscrowManager, "FeeCollected")
+                .withArgs(2, feeRecipient.address, dues);
+            expect(await mockToken.balanceOf(await dfsEscrowManager.getAddress())).to.equal(dues * 8n);
+        });
+
+        it("Should not take a fee on cancellation refunds", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, feeRecipient, dues } = await setupFeeEscrow();
+
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+            await dfsEscrowManager.connect(participant1).claimRefund(1);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 10n);
+            expect(await mockToken.balanceOf(feeRecipient.address)).to.equal(0);
+        });
+    });
+
+    describe("Aave Lending Pool", function () {
+        // Fixture: allowlisted MockAavePool with an initialized reserve for the mock token
+        async function deployLendingFixture() {
+            const base = await deployDFSEscrowManagerFixture();
+            const { dfsEscrowManager, mockToken, owner } = base;
+
+            const MockAavePool = await ethers.getContractFactory("MockAavePool");
+            const mockAavePool = await MockAavePool.deploy();
+            const poolAddress = await mockAavePool.getAddress();
+            const tokenAddress = await mockToken.getAddress();
+            await mockAavePool.initReserve(tokenAddress);
+            const aToken = await ethers.getContractAt("MockAToken", await mockAavePool.aTokens(tokenAddress));
+
+            await dfsEscrowManager.connect(owner).setPoolAllowed(poolAddress, true);
+            await dfsEscrowManager.connect(owner).setPoolAssetAllowed(tokenAddress, true);
+
+            return { ...base, mockAavePool, aToken, poolAddress, tokenAddress };
+        }
+
+        // Helper: lending escrow with 3 entries from participant1 and a 1 token top-up (4 tokens pending)
+        async function setupLendingEscrow() {
+            const fixture = await loadFixture(deployLendingFixture);
+            const { dfsEscrowManager, mockToken, organizer, participant1, contributor, poolAddress, tokenAddress } = fixture;
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrowWithPool(
+                tokenAddress,
+                dues,
+                endTime,
+                "Aave Test",
+                10,
+                0,
+                0,
+                [],
+                contributor.address,
+                poolAddress
+            );
+
+            await mockToken.mint(participant1.address, dues * 3n);
+            await mockToken.connect(participant1).approve(managerAddress, dues * 3n);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 3);
+
+            await mockToken.mint(organizer.address, dues);
+            await mockToken.connect(organizer).approve(managerAddress, dues);
+            await dfsEscrowManager.connect(organizer).addToPool(1, dues);
+
+            return { ...fixture, dues, endTime, managerAddress };
+        }
+
+        it("Should only create lending escrows against allowlisted pools and assets", async function () {
+            const { dfsEscrowManager, organizer, owner, poolAddress, tokenAddress } = await loadFixture(deployLendingFixture);
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrowWithPool(tokenAddress, dues, endTime, "A", 10, 0, 0, [], ethers.ZeroAddress, organizer.address)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PoolNotAllowed");
+
+            await dfsEscrowManager.connect(owner).setPoolAssetAllowed(tokenAddress, false);
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrowWithPool(tokenAddress, dues, endTime, "A", 10, 0, 0, [], ethers.ZeroAddress, poolAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AssetNotAllowed");
+        });
+
+        it("Should let only the owner manage allowlists and pause", async function () {
+            const { dfsEscrowManager, organizer, owner, poolAddress } = await loadFixture(deployLendingFixture);
+
+            await expect(dfsEscrowManager.connect(owner).setPoolAllowed(poolAddress, false))
+                .to.emit(dfsEscrowManager, "PoolAllowlistUpdated")
+                .withArgs(poolAddress, false);
+            await expect(dfsEscrowManager.connect(owner).setLendingPaused(true))
+                .to.emit(dfsEscrowManager, "LendingPausedUpdated")
+                .withArgs(true);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).setPoolAllowed(poolAddress, true)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(
+                dfsEscrowManager.connect(organizer).setPoolAssetAllowed(poolAddress, true)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(
+                dfsEscrowManager.connect(organizer).setLendingPaused(false)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+        });
+
+        it("Should hold joins and top-ups in the manager as pending funds", async function () {
+            const { dfsEscrowManager, mockToken, poolAddress, dues, managerAddress } = await setupLendingEscrow();
+
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+            expect(details.vault).to.equal(ethers.ZeroAddress);
+            expect(await mockToken.balanceOf(managerAddress)).to.equal(dues * 4n);
+
+            const position = await dfsEscrowManager.getLendingPosition(1);
+            expect(position.pool).to.equal(poolAddress);
+            expect(position.pendingToInvest).to.equal(dues * 4n);
+            expect(position.invested).to.be.false;
+        });
+
+        it("Should supply pending funds to the pool only after the escrow ends", async function () {
+            const { dfsEscrowManager, aToken, organizer, participant1, poolAddress, tokenAddress, dues, endTime, managerAddress } =
+                await setupLendingEscrow();
+
+            await expect(
+                dfsEscrowManager.connect(organizer).investEscrowFunds(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowNotEnded");
+
+            await time.increaseTo(endTime + 1);
+
+            await expect(
+                dfsEscrowManager.connect(participant1).investEscrowFunds(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizerOrOwner");
+
+            await expect(dfsEscrowManager.connect(organizer).investEscrowFunds(1))
+                .to.emit(dfsEscrowManager, "EscrowInvested")
+                .withArgs(1, poolAddress, tokenAddress, dues * 4n);
+
+            expect(await aToken.balanceOf(managerAddress)).to.equal(dues * 4n);
+            const position = await dfsEscrowManager.getLendingPosition(1);
+            expect(position.pendingToInvest).to.equal(0);
+            expect(position.principalInvested).to.equal(dues * 4n);
+            expect(position.invested).to.be.true;
+
+            await expect(
+                dfsEscrowManager.connect(organizer).investEscrowFunds(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AlreadyInvested");
+        });
+
+        it("Should block payouts while funds are invested", async function () {
+            const { dfsEscrowManager, organizer, participant1, dues, endTime } = await setupLendingEscrow();
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(organizer).investEscrowFunds(1);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "FundsStillInvested");
+        });
+
+        it("Should withdraw principal plus yield and pay out with the surplus going to overflow", async function () {
+            const { dfsEscrowManager, mockToken, mockAavePool, aToken, owner, organizer, participant1, contributor, poolAddress, tokenAddress, dues, endTime, managerAddress } =
+                await setupLendingEscrow();
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(owner).investEscrowFunds(1);
+
+            // Simulate 0.5 tokens of interest
+            const yieldAmount = ethers.parseUnits("0.5", 6);
+            await mockAavePool.accrueYield(tokenAddress, yieldAmount);
+            await mockToken.mint(await aToken.getAddress(), yieldAmount);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).withdrawEscrowFunds(1, dues * 5n)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientWithdrawn")
+                .withArgs(dues * 4n + yieldAmount, dues * 5n);
+
+            await expect(dfsEscrowManager.connect(organizer).withdrawEscrowFunds(1, dues * 4n))
+                .to.emit(dfsEscrowManager, "EscrowWithdrawn")
+                .withArgs(1, poolAddress, tokenAddress, dues * 4n + yieldAmount);
+            expect(await aToken.balanceOf(managerAddress)).to.equal(0);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).withdrawEscrowFunds(1, 0)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotInvested");
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues * 4n]))
+                .to.emit(dfsEscrowManager, "WinningsDistributed")
+                .withArgs(1, [participant1.address], [dues * 4n], contributor.address, yieldAmount);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 4n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(yieldAmount);
+            expect(await mockToken.balanceOf(managerAddress)).to.equal(0);
+        });
+
+        it("Should keep the positions and yield of escrows sharing a pool separate", async function () {
+            const { dfsEscrowManager, mockToken, mockAavePool, aToken, organizer, participant2, poolAddress, tokenAddress, dues, endTime, managerAddress } =
+                await setupLendingEscrow();
+
+            // Escrow 2: 3 entries from participant2, on the same pool and asset as escrow 1 (4 tokens)
+            await dfsEscrowManager.connect(organizer).createEscrowWithPool(
+                tokenAddress, dues, endTime, "Aave Test 2", 10, 0, 0, [], ethers.ZeroAddress, poolAddress
+            );
+            await mockToken.mint(participant2.address, dues * 3n);
+            await mockToken.connect(participant2).approve(managerAddress, dues * 3n);
+            await dfsEscrowManager.connect(participant2).joinEscrow(2, 3);
+            await time.increaseTo(endTime + 1);
+
+            // Escrow 1 alone earns the first 1 token of yield, then both earn 0.64 tokens pro rata (4 : 2.4 scaled)
+            const firstYield = ethers.parseUnits("1", 6);
+            const secondYield = ethers.parseUnits("0.64", 6);
+            await dfsEscrowManager.connect(organizer).investEscrowFunds(1);
+            await mockAavePool.accrueYield(tokenAddress, firstYield);
+            await dfsEscrowManager.connect(organizer).investEscrowFunds(2);
+            await mockAavePool.accrueYield(tokenAddress, secondYield);
+            await mockToken.mint(await aToken.getAddress(), firstYield + secondYield);
+
+            expect(await dfsEscrowManager.lendingScaledBalance(1)).to.equal(dues * 4n);
+            expect(await dfsEscrowManager.lendingScaledBalance(2)).to.equal(ethers.parseUnits("2.4", 6));
+
+            await expect(dfsEscrowManager.connect(organizer).withdrawEscrowFunds(2, dues * 3n))
+                .to.emit(dfsEscrowManager, "EscrowWithdrawn")
+                .withArgs(2, poolAddress, tokenAddress, ethers.parseUnits("3.24", 6));
+            expect(await aToken.balanceOf(managerAddress)).to.equal(ethers.parseUnits("5.4", 6));
+
+            await expect(dfsEscrowManager.connect(organizer).withdrawEscrowFunds(1, dues * 4n))
+                .to.emit(dfsEscrowManager, "EscrowWithdrawn")
+                .withArgs(1, poolAddress, tokenAddress, ethers.parseUnits("5.4", 6));
+            expect(await aToken.balanceOf(managerAddress)).to.equal(0);
+
+            expect((await dfsEscrowManager.getLendingPosition(1)).withdrawnAssets).to.equal(ethers.parseUnits("5.4", 6));
+            expect((await dfsEscrowManager.getLendingPosition(2)).withdrawnAssets).to.equal(ethers.parseUnits("3.24", 6));
+        });
+
+        it("Should pay out directly from held funds if never invested", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, dues, endTime, managerAddress } = await setupLendingEscrow();
+            await time.increaseTo(endTime + 1);
+
+            await dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues * 4n]);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 4n);
+            expect(await mockToken.balanceOf(managerAddress)).to.equal(0);
+        });
+
+        it("Should block invest and withdraw while lending is paused", async function () {
+            const { dfsEscrowManager, owner, organizer, endTime } = await setupLendingEscrow();
+            await time.increaseTo(endTime + 1);
+
+            await dfsEscrowManager.connect(owner).setLendingPaused(true);
+            await expect(
+                dfsEscrowManager.connect(organizer).investEscrowFunds(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "LendingIsPaused");
+
+            await dfsEscrowManager.connect(owner).setLendingPaused(false);
+            await dfsEscrowManager.connect(organizer).investEscrowFunds(1);
+
+            await dfsEscrowManager.connect(owner).setLendingPaused(true);
+            await expect(
+                dfsEscrowManager.connect(organizer).withdrawEscrowFunds(1, 0)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "LendingIsPaused");
+        });
+
+        it("Should reject lending calls on Yearn escrows and empty lending escrows", async function () {
+            const { dfsEscrowManager, mockToken, organizer, poolAddress, tokenAddress } = await loadFixture(deployLendingFixture);
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, endTime, "Y", 10, 0, 0, [], ethers.ZeroAddress);
+            await dfsEscrowManager.connect(organizer).createEscrowWithPool(tokenAddress, dues, endTime, "A", 10, 0, 0, [], ethers.ZeroAddress, poolAddress);
+            await time.increaseTo(endTime + 1);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).investEscrowFunds(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotLendingEscrow");
+            await expect(
+                dfsEscrowManager.connect(organizer).investEscrowFunds(2)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NothingToInvest");
+        });
+
+        it("Should unwind an invested position on cancellation and refund in full", async function () {
+            const { dfsEscrowManager, mockToken, aToken, owner, organizer, participant1, dues, endTime, managerAddress } =
+                await setupLendingEscrow();
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(organizer).investEscrowFunds(1);
+
+            // Cancellation works even while invest/withdraw are paused
+            await dfsEscrowManager.connect(owner).setLendingPaused(true);
+            await expect(dfsEscrowManager.connect(owner).cancelEscrow(1))
+                .to.emit(dfsEscrowManager, "EscrowCancelled")
+                .withArgs(1, owner.address, dues * 4n);
+            expect(await aToken.balanceOf(managerAddress)).to.equal(0);
+
+            await dfsEscrowManager.connect(participant1).claimRefund(1);
+            await dfsEscrowManager.connect(organizer).claimRefund(1);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 3n);
+            expect(await mockToken.balanceOf(organizer.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(managerAddress)).to.equal(0);
+        });
+    });
+
+    describe("Escrow Strategies", function () {
+        // Fixture: hold and ERC-4626 strategies registered alongside the default Yearn strategy
+        async function deployStrategiesFixture() {
+            const base = await deployDFSEscrowManagerFixture();
+            const { dfsEscrowManager, mockToken, owner } = base;
+            const managerAddress = await dfsEscrowManager.getAddress();
+            const tokenAddress = await mockToken.getAddress();
+
+            const HoldStrategy = await ethers.getContractFactory("HoldStrategy");
+            const holdStrategy = await HoldStrategy.deploy(managerAddress);
+            const holdStrategyAddress = await holdStrategy.getAddress();
+
+            const MockERC4626Vault = await ethers.getContractFactory("MockERC4626Vault");
+            const erc4626Vault = await MockERC4626Vault.deploy(tokenAddress);
+            const ERC4626Strategy = await ethers.getContractFactory("ERC4626Strategy");
+            const erc4626Strategy = await ERC4626Strategy.deploy(managerAddress, await erc4626Vault.getAddress());
+            const erc4626StrategyAddress = await erc4626Strategy.getAddress();
+
+            await dfsEscrowManager.connect(owner).setStrategyRegistered(holdStrategyAddress, true);
+            await dfsEscrowManager.connect(owner).setStrategyRegistered(erc4626StrategyAddress, true);
+
+            return {
+                ...base,
+                managerAddress,
+                tokenAddress,
+                holdStrategy,
+                holdStrategyAddress,
+                erc4626Vault,
+                erc4626Strategy,
+                erc4626StrategyAddress,
+            };
+        }
+
+        // Helper: mint, approve and join `numEntries` entries
+        async function join(fixture: Awaited<ReturnType<typeof deployStrategiesFixture>>, signer: any, escrowId: number, numEntries: bigint) {
+            const dues = ethers.parseUnits("1", 6);
+            await fixture.mockToken.mint(signer.address, dues * numEntries);
+            await fixture.mockToken.connect(signer).approve(fixture.managerAddress, dues * numEntries);
+            await fixture.dfsEscrowManager.connect(signer).joinEscrow(escrowId, numEntries);
+        }
+
+        it("Should let only the owner register strategies and set the default", async function () {
+            const { dfsEscrowManager, yearnStrategy, organizer, owner, holdStrategyAddress } = await loadFixture(deployStrategiesFixture);
+            const yearnStrategyAddress = await yearnStrategy.getAddress();
+
+            await expect(dfsEscrowManager.connect(owner).setDefaultStrategy(holdStrategyAddress))
+                .to.emit(dfsEscrowManager, "DefaultStrategyUpdated")
+                .withArgs(holdStrategyAddress);
+            expect(await dfsEscrowManager.defaultStrategy()).to.equal(holdStrategyAddress);
+
+            await expect(dfsEscrowManager.connect(owner).setStrategyRegistered(yearnStrategyAddress, false))
+                .to.emit(dfsEscrowManager, "StrategyRegistrationUpdated")
+                .withArgs(yearnStrategyAddress, false);
+            await expect(
+                dfsEscrowManager.connect(owner).setDefaultStrategy(yearnStrategyAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "StrategyNotRegistered");
+
+            // The default strategy cannot be deregistered out from under createEscrow
+            await expect(
+                dfsEscrowManager.connect(owner).setStrategyRegistered(holdStrategyAddress, false)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidToken");
+            await expect(
+                dfsEscrowManager.connect(owner).setStrategyRegistered(ethers.ZeroAddress, true)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidToken");
+
+            await expect(
+                dfsEscrowManager.connect(organizer).setStrategyRegistered(yearnStrategyAddress, true)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(
+                dfsEscrowManager.connect(organizer).setDefaultStrategy(holdStrategyAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+        });
+
+        it("Should reject unregistered strategies at creation", async function () {
+            const { dfsEscrowManager, settlementModule, setupModule, owner, organizer, tokenAddress } = await loadFixture(deployStrategiesFixture);
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrowWithStrategy(tokenAddress, dues, endTime, "A", 10, 0, 0, [], ethers.ZeroAddress, organizer.address)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "StrategyNotRegistered");
+
+            // A fresh manager has no default strategy until the owner configures one
+            const freshManager = await deployManagerProxy(
+                await settlementModule.getAddress(),
+                await setupModule.getAddress(),
+                owner.address
+            );
+            await freshManager.addEscrowToken(tokenAddress, dues, 0);
+            await expect(
+                freshManager.createEscrow(tokenAddress, dues, endTime, "A", 10, 0, 0, [], ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(freshManager, "StrategyNotRegistered");
+        });
+
+        it("Should only accept calls from the manager", async function () {
+            const { holdStrategy, erc4626Strategy, organizer, tokenAddress } = await loadFixture(deployStrategiesFixture);
+
+            await expect(
+                holdStrategy.connect(organizer).initializeEscrow(1, tokenAddress, "A")
+            ).to.be.revertedWithCustomError(holdStrategy, "NotManager");
+            await expect(
+                holdStrategy.connect(organizer).withdraw(1, 1, organizer.address)
+            ).to.be.revertedWithCustomError(holdStrategy, "NotManager");
+            await expect(
+                erc4626Strategy.connect(organizer).deposit(1, 1)
+            ).to.be.revertedWithCustomError(erc4626Strategy, "NotManager");
+        });
+
+        it("Should hold funds without a vault and settle from the hold strategy", async function () {
+            const fixture = await loadFixture(deployStrategiesFixture);
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor, holdStrategy, holdStrategyAddress, tokenAddress } = fixture;
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await dfsEscrowManager.connect(organizer).createEscrowWithStrategy(
+                tokenAddress, dues, endTime, "Hold Test", 10, 0, 0, [], contributor.address, holdStrategyAddress
+            );
+            await join(fixture, participant1, 1, 2n);
+            await join(fixture, participant2, 1, 1n);
+
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+            expect(details.vault).to.equal(ethers.ZeroAddress);
+            expect((await dfsEscrowManager.escrows(1)).strategy).to.equal(holdStrategyAddress);
+            expect(await mockToken.balanceOf(holdStrategyAddress)).to.equal(dues * 3n);
+            expect(await holdStrategy.maxWithdraw(1)).to.equal(dues * 3n);
+
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues * 2n]);
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 2n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(holdStrategyAddress)).to.equal(0);
+        });
+
+        it("Should track shares per escrow in a shared ERC-4626 vault and pay yield to the overflow recipient", async function () {
+            const fixture = await loadFixture(deployStrategiesFixture);
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor, erc4626Vault, erc4626Strategy, erc4626StrategyAddress, tokenAddress } = fixture;
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const vaultAddress = await erc4626Vault.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrowWithStrategy(
+                tokenAddress, dues, endTime, "4626 A", 10, 0, 0, [], contributor.address, erc4626StrategyAddress
+            );
+            await dfsEscrowManager.connect(organizer).createEscrowWithStrategy(
+                tokenAddress, dues, endTime, "4626 B", 10, 0, 0, [], ethers.ZeroAddress, erc4626StrategyAddress
+            );
+            expect((await dfsEscrowManager.getEscrowDetails(1)).vault).to.equal(vaultAddress);
+
+            await join(fixture, participant1, 1, 3n);
+            await join(fixture, participant2, 2, 1n);
+            expect(await erc4626Vault.balanceOf(erc4626StrategyAddress)).to.equal(
+                (await erc4626Strategy.escrowShares(1)) + (await erc4626Strategy.escrowShares(2))
+            );
+
+            // Simulate 4 tokens of yield; escrow 1 owns 3/4 of the shares
+            await mockToken.mint(vaultAddress, dues * 4n);
+            const escrow1Assets = await erc4626Strategy.maxWithdraw(1);
+            const escrow2Assets = await erc4626Strategy.maxWithdraw(2);
+            expect(escrow1Assets).to.be.closeTo(dues * 6n, 1n);
+            expect(escrow2Assets).to.be.closeTo(dues * 2n, 1n);
+
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues * 3n]);
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 3n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(escrow1Assets - dues * 3n);
+            expect(await erc4626Strategy.escrowShares(1)).to.equal(0);
+
+            // Escrow 2's position is untouched by escrow 1's settlement
+            expect(await erc4626Strategy.maxWithdraw(2)).to.be.closeTo(escrow2Assets, 1n);
+        });
+
+        it("Should reject escrows whose token is not the ERC-4626 vault's asset", async function () {
+            const { dfsEscrowManager, erc4626Strategy, organizer, erc4626StrategyAddress } = await loadFixture(deployStrategiesFixture);
+            const MockToken = await ethers.getContractFactory("MockToken");
+            const otherToken = await MockToken.deploy();
+            await dfsEscrowManager.addEscrowToken(await otherToken.getAddress(), ethers.parseUnits("1", 6), 0);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrowWithStrategy(
+                    await otherToken.getAddress(),
+                    ethers.parseUnits("1", 6),
+                    (await time.latest()) + (2 * 24 * 3600),
+                    "Wrong Asset",
+                    10,
+                    0,
+                    0,
+                    [],
+                    ethers.ZeroAddress,
+                    erc4626StrategyAddress
+                )
+            ).to.be.revertedWithCustomError(erc4626Strategy, "AssetMismatch");
+        });
+
+        it("Should keep settling existing escrows after their strategy is deregistered", async function () {
+            const fixture = await loadFixture(deployStrategiesFixture);
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, holdStrategyAddress, tokenAddress } = fixture;
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await dfsEscrowManager.connect(organizer).createEscrowWithStrategy(
+                tokenAddress, dues, endTime, "Legacy", 10, 0, 0, [], ethers.ZeroAddress, holdStrategyAddress
+            );
+            await join(fixture, participant1, 1, 2n);
+            await dfsEscrowManager.connect(owner).setStrategyRegistered(holdStrategyAddress, false);
+
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+            await dfsEscrowManager.connect(participant1).claimRefund(1);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 2n);
+        });
+    });
+
+    describe("cancelEscrow", function () {
+        // Helper fixture: escrow with two players (1 and 3 entries) and a sponsor top-up
+        async function setupFundedEscrow() {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor } = await loadFixture(
+                deployDFSEscrowManagerFixture
+            );
+
+            const dues = ethers.parseUnits("1", 6);
+            const contribution = ethers.parseUnits("4", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Cancel Test",
+                10,
+                0,
+                0,
+                [],
+                ethers.ZeroAddress
+            );
+
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(managerAddress, dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+
+            await mockToken.mint(participant2.address, dues * 3n);
+            await mockToken.connect(participant2).approve(managerAddress, dues * 3n);
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 3);
+
+            await mockToken.mint(contributor.address, contribution);
+            await mockToken.connect(contributor).approve(managerAddress, contribution);
+            await dfsEscrowManager.connect(contributor).addToPool(1, contribution);
+
+            return { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor, dues, contribution, endTime };
+        }
+
+        it("Should allow the organizer to cancel and withdraw all funds from the vault", async function () {
+            const { dfsEscrowManager, mockToken, organizer, dues, contribution } = await setupFundedEscrow();
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+            const total = dues * 4n + contribution;
+
+            await expect(dfsEscrowManager.connect(organizer).cancelEscrow(1))
+                .to.emit(dfsEscrowManager, "EscrowCancelled")
+                .withArgs(1, organizer.address, total);
+
+            expect(await mockToken.balanceOf(details.vault)).to.equal(0);
+            expect(await mockToken.balanceOf(await dfsEscrowManager.getAddress())).to.equal(total);
+
+            const updated = await dfsEscrowManager.getEscrowDetails(1);
+            expect(updated.cancelled).to.be.true;
+            expect(updated.payoutsComplete).to.be.false;
+            expect(await dfsEscrowManager.getActiveEscrowIds()).to.be.empty;
+        });
+
+        it("Should allow the owner to cancel, even after end time", async function () {
+            const { dfsEscrowManager, owner, endTime } = await setupFundedEscrow();
+            await time.increaseTo(endTime + 1);
+
+            await expect(dfsEscrowManager.connect(owner).cancelEscrow(1))
+                .to.emit(dfsEscrowManager, "EscrowCancelled");
+        });
+
+        it("Should revert if not called by organizer or owner", async function () {
+            const { dfsEscrowManager, participant1 } = await setupFundedEscrow();
+
+            await expect(
+                dfsEscrowManager.connect(participant1).cancelEscrow(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizerOrOwner");
+        });
+
+        it("Should revert if already cancelled or payouts are complete", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, dues, endTime } = await setupFundedEscrow();
+
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+            await expect(
+                dfsEscrowManager.connect(organizer).cancelEscrow(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowIsCancelled");
+
+            // A second escrow that settles normally cannot be cancelled afterwards
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Settled",
+                10,
+                0,
+                0,
+                [],
+                ethers.ZeroAddress
+            );
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(2, 1);
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(organizer).distributeWinnings(2, [participant1.address], [dues]);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).cancelEscrow(2)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "PayoutsAlreadyComplete");
+        });
+
+        it("Should block joins, top-ups and payouts once cancelled", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, contributor, dues, endTime } = await setupFundedEscrow();
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues);
+            await expect(
+                dfsEscrowManager.connect(participant1).joinEscrow(1, 1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowIsCancelled");
+
+            await expect(
+                dfsEscrowManager.connect(contributor).addToPool(1, dues)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowIsCancelled");
+
+            await time.increaseTo(endTime + 1);
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowIsCancelled");
+        });
+
+        it("Should refund dues * entries to players and contributions to sponsors", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor, dues, contribution } =
+                await setupFundedEscrow();
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+
+            expect(await dfsEscrowManager.getRefundAmount(1, participant2.address)).to.equal(dues * 3n);
+
+            await expect(dfsEscrowManager.connect(participant1).claimRefund(1))
+                .to.emit(dfsEscrowManager, "RefundClaimed")
+                .withArgs(1, participant1.address, dues);
+            await dfsEscrowManager.connect(participant2).claimRefund(1);
+            await expect(dfsEscrowManager.connect(contributor).claimRefund(1))
+                .to.emit(dfsEscrowManager, "RefundClaimed")
+                .withArgs(1, contributor.address, contribution);
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues);
+            expect(await mockToken.balanceOf(participant2.address)).to.equal(dues * 3n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(contribution);
+            expect(await mockToken.balanceOf(await dfsEscrowManager.getAddress())).to.equal(0);
+        });
+
+        it("Should not allow claiming a refund twice", async function () {
+            const { dfsEscrowManager, organizer, participant1 } = await setupFundedEscrow();
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+
+            await dfsEscrowManager.connect(participant1).claimRefund(1);
+            expect(await dfsEscrowManager.getRefundAmount(1, participant1.address)).to.equal(0);
+            await expect(
+                dfsEscrowManager.connect(participant1).claimRefund(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "RefundAlreadyClaimed");
+        });
+
+        it("Should revert claims before cancellation or with nothing to refund", async function () {
+            const { dfsEscrowManager, organizer, participant1, owner } = await setupFundedEscrow();
+
+            await expect(
+                dfsEscrowManager.connect(participant1).claimRefund(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowNotCancelled");
+
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+            await expect(
+                dfsEscrowManager.connect(owner).claimRefund(1)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NothingToRefund");
+        });
+
+        it("Should scale refunds pro-rata when the vault returns less due to slippage", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor, dues, contribution } =
+                await setupFundedEscrow();
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+            const vault = await ethers.getContractAt("MockYearnVault", details.vault) as MockYearnVault;
+
+            // 10% slippage on withdraw: 8 deposited, 7.2 recovered
+            await vault.set_slippage_bps(1000);
+            const total = dues * 4n + contribution;
+            const recovered = (total * 9000n) / 10000n;
+
+            await expect(dfsEscrowManager.connect(organizer).cancelEscrow(1))
+                .to.emit(dfsEscrowManager, "EscrowCancelled")
+                .withArgs(1, organizer.address, recovered);
+
+            await dfsEscrowManager.connect(participant1).claimRefund(1);
+            await dfsEscrowManager.connect(participant2).claimRefund(1);
+            await dfsEscrowManager.connect(contributor).claimRefund(1);
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal((dues * recovered) / total);
+            expect(await mockToken.balanceOf(participant2.address)).to.equal((dues * 3n * recovered) / total);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal((contribution * recovered) / total);
+
+            // Every claimant was paid and the contract is not left short
+            expect(await mockToken.balanceOf(await dfsEscrowManager.getAddress())).to.be.lessThan(3n);
+        });
+    });
+
+    describe("End Time Updates", function () {
+        // Helper: escrow 1 ending in two days, with organizer extensions of up to one day
+        async function setupEndTimeEscrow() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, owner, organizer } = fixture;
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(), ethers.parseUnits("1", 6), endTime, "End Time Test", 20, 0, 0, [],
+                ethers.ZeroAddress
+            );
+            await dfsEscrowManager.connect(owner).setMaxEndTimeExtension(24 * 3600);
+
+            return { ...fixture, endTime };
+        }
+
+        it("Should let the organizer move endTime within the extension limit", async function () {
+            const { dfsEscrowManager, organizer, endTime } = await setupEndTimeEscrow();
+            const extended = endTime + 12 * 3600;
+
+            await expect(dfsEscrowManager.connect(organizer).updateEndTime(1, extended))
+                .to.emit(dfsEscrowManager, "EndTimeUpdated")
+                .withArgs(1, endTime, extended);
+            expect((await dfsEscrowManager.escrows(1)).endTime).to.equal(extended);
+            expect(await dfsEscrowManager.originalEndTime(1)).to.equal(endTime);
+
+            // Pulling endTime in is allowed, as long as MINIMUM_ESCROW_DURATION remains
+            const earlier = (await time.latest()) + 2 * 3600;
+            await expect(dfsEscrowManager.connect(organizer).updateEndTime(1, earlier))
+                .to.emit(dfsEscrowManager, "EndTimeUpdated")
+                .withArgs(1, extended, earlier);
+            await expect(
+                dfsEscrowManager.connect(organizer).updateEndTime(1, (await time.latest()) + 1800)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EndTimeTooSoon");
+        });
+
+        it("Should cap the total extension at maxEndTimeExtension past the original endTime", async function () {
+            const { dfsEscrowManager, owner, organizer, endTime } = await setupEndTimeEscrow();
+            const latest = endTime + 24 * 3600;
+
+            await dfsEscrowManager.connect(organizer).updateEndTime(1, latest);
+            await expect(dfsEscrowManager.connect(organizer).updateEndTime(1, latest + 1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EndTimeTooLate")
+                .withArgs(latest);
+
+            await expect(dfsEscrowManager.connect(owner).setMaxEndTimeExtension(0))
+                .to.emit(dfsEscrowManager, "MaxEndTimeExtensionUpdated")
+                .withArgs(0);
+            await expect(dfsEscrowManager.connect(organizer).updateEndTime(1, endTime + 1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EndTimeTooLate")
+                .withArgs(endTime);
+            await dfsEscrowManager.connect(organizer).updateEndTime(1, endTime);
+
+            await expect(dfsEscrowManager.connect(organizer).setMaxEndTimeExtension(3600))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+        });
+
+        it("Should only allow the organizer to update an open escrow", async function () {
+            const { dfsEscrowManager, organizer, participant1, endTime } = await setupEndTimeEscrow();
+
+            await expect(
+                dfsEscrowManager.connect(participant1).updateEndTime(1, endTime + 3600)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+
+            await time.increaseTo(endTime + 1);
+            await expect(
+                dfsEscrowManager.connect(organizer).updateEndTime(1, endTime + 12 * 3600)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EscrowEnded");
+
+            const fresh = await setupEndTimeEscrow();
+            await fresh.dfsEscrowManager.connect(fresh.organizer).cancelEscrow(1);
+            await expect(
+                fresh.dfsEscrowManager.connect(fresh.organizer).updateEndTime(1, fresh.endTime + 3600)
+            ).to.be.revertedWithCustomError(fresh.dfsEscrowManager, "EscrowIsCancelled");
+        });
+    });
+
+    describe("Minimum Entries", function () {
+        // Helper fixture: escrow requiring 3 entries, with `entries` single-entry players joined
+        async function setupMinimumEscrow(entries: number) {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer } = fixture;
+            const players = (await ethers.getSigners()).slice(2, 2 + entries);
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Min Test",
+                10,
+                0,
+                3,
+                [],
+                ethers.ZeroAddress
+            );
+
+            for (const player of players) {
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+            }
+
+            return { ...fixture, players, dues, endTime };
+        }
+
+        it("Should let anyone cancel an underfilled escrow after endTime and refund players", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, players, dues, endTime } = await setupMinimumEscrow(2);
+
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+            expect(details.minEntries).to.equal(3);
+            expect(details.totalEntries).to.equal(2);
+
+            await expect(dfsEscrowManager.connect(contributor).cancelUnderfilledEscrow(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EscrowNotEnded");
+
+            await time.increaseTo(endTime + 1);
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [players[0].address], [dues * 2n]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "MinimumEntriesNotMet")
+                .withArgs(2, 3);
+            await expect(dfsEscrowManager.connect(organizer).openSettlement(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "MinimumEntriesNotMet");
+
+            await expect(dfsEscrowManager.connect(contributor).cancelUnderfilledEscrow(1))
+                .to.emit(dfsEscrowManager, "EscrowUnderfilled")
+                .withArgs(1, 2, 3)
+                .and.to.emit(dfsEscrowManager, "EscrowCancelled")
+                .withArgs(1, contributor.address, dues * 2n);
+
+            expect((await dfsEscrowManager.getEscrowDetails(1)).cancelled).to.be.true;
+            expect(await dfsEscrowManager.getActiveEscrowIds()).to.deep.equal([]);
+
+            for (const player of players) {
+                await dfsEscrowManager.connect(player).claimRefund(1);
+                expect(await mockToken.balanceOf(player.address)).to.equal(dues);
+            }
+            await expect(dfsEscrowManager.connect(contributor).cancelUnderfilledEscrow(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EscrowIsCancelled");
+        });
+
+        it("Should settle normally once the minimum is met", async function () {
+            const { dfsEscrowManager, organizer, contributor, players, dues, endTime } = await setupMinimumEscrow(3);
+
+            await time.increaseTo(endTime + 1);
+
+            await expect(dfsEscrowManager.connect(contributor).cancelUnderfilledEscrow(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "MinimumEntriesMet");
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [players[0].address], [dues * 3n]))
+                .to.emit(dfsEscrowManager, "WinningsDistributed");
+        });
+
+        it("Should reject a minimum above the entry cap", async function () {
+            const { dfsEscrowManager, mockToken, organizer, dues, endTime } = await setupMinimumEscrow(0);
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, endTime, "Min", 10, 0, 11, [], ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidMinEntries");
+        });
+    });
+
+    describe("Guaranteed Prize Pools", function () {
+        // Helper fixture: escrow guaranteeing 5 tokens, with `entries` single-entry players and a funded organizer
+        async function setupGuaranteedEscrow(entries: number) {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, contributor } = fixture;
+            const players = (await ethers.getSigners()).slice(5, 5 + entries);
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "GPP Test",
+                10,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+            await dfsEscrowManager.connect(organizer).setGuaranteedPrize(1, dues * 5n);
+
+            for (const player of players) {
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+            }
+
+            await mockToken.mint(organizer.address, dues * 5n);
+            await mockToken.connect(organizer).approve(managerAddress, dues * 5n);
+
+            return { ...fixture, players, dues, endTime };
+        }
+
+        it("Should cover the overlay from the guarantee and enforce the guaranteed prize", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, players, dues, endTime } = await setupGuaranteedEscrow(2);
+
+            await expect(dfsEscrowManager.connect(organizer).depositGuarantee(1, dues * 3n))
+                .to.emit(dfsEscrowManager, "GuaranteeDeposited")
+                .withArgs(1, organizer.address, dues * 3n);
+
+            const overlay = await dfsEscrowManager.getOverlay(1);
+            expect(overlay.guaranteedPrize).to.equal(dues * 5n);
+            expect(overlay.prizeFunding).to.equal(dues * 2n);
+            expect(overlay.overlay).to.equal(dues * 3n);
+            expect(overlay.guaranteeDeposited).to.equal(dues * 3n);
+
+            await time.increaseTo(endTime + 1);
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [players[0].address], [dues * 4n]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "GuaranteeNotMet")
+                .withArgs(dues * 4n, dues * 5n);
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [], []))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "GuaranteeNotMet");
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [players[0].address, players[1].address], [dues * 4n, dues]))
+                .to.emit(dfsEscrowManager, "WinningsDistributed")
+                .and.not.to.emit(dfsEscrowManager, "GuaranteeReturned");
+
+            expect(await mockToken.balanceOf(players[0].address)).to.equal(dues * 4n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(0);
+            expect(await mockToken.balanceOf(organizer.address)).to.equal(dues * 2n);
+        });
+
+        it("Should return unused guarantee to the guarantor instead of the overflow recipient", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, players, dues, endTime } = await setupGuaranteedEscrow(6);
+
+            await dfsEscrowManager.connect(organizer).depositGuarantee(1, dues * 2n);
+            expect((await dfsEscrowManager.getOverlay(1)).overlay).to.equal(0);
+
+            await time.increaseTo(endTime + 1);
+
+            // 8 in the pool, 5 paid: the 2 guarantee tokens go back first, the last token is ordinary overflow
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [players[0].address], [dues * 5n]))
+                .to.emit(dfsEscrowManager, "GuaranteeReturned")
+                .withArgs(1, organizer.address, dues * 2n)
+                .and.to.emit(dfsEscrowManager, "WinningsDistributed")
+                .withArgs(1, [players[0].address], [dues * 5n], contributor.address, dues);
+
+            expect(await mockToken.balanceOf(organizer.address)).to.equal(dues * 5n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues);
+        });
+
+        it("Should refund the guarantee on cancellation and restrict guarantee changes", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, players, dues } = await setupGuaranteedEscrow(1);
+
+            await expect(dfsEscrowManager.connect(organizer).setGuaranteedPrize(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidGuarantee");
+            await expect(dfsEscrowManager.connect(contributor).setGuaranteedPrize(1, dues * 6n))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(contributor).depositGuarantee(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(organizer).setGuaranteedPrize(1, dues * 6n))
+                .to.emit(dfsEscrowManager, "GuaranteedPrizeSet")
+                .withArgs(1, dues * 6n);
+
+            await dfsEscrowManager.connect(organizer).depositGuarantee(1, dues * 5n);
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+
+            expect(await dfsEscrowManager.getRefundAmount(1, organizer.address)).to.equal(dues * 5n);
+            expect(await dfsEscrowManager.getRefundAmount(1, players[0].address)).to.equal(dues);
+            await dfsEscrowManager.connect(organizer).claimRefund(1);
+            expect(await mockToken.balanceOf(organizer.address)).to.equal(dues * 5n);
+        });
+    });
+
+    describe("Payout Tables", function () {
+        // 1st place gets 50%, 2nd and 3rd 20% each; the remaining 10% is left to the overflow recipient
+        const payoutTable = [
+            { lastRank: 1, bps: 5000 },
+            { lastRank: 3, bps: 2000 },
+        ];
+
+        // Helper fixture: escrow with the given payout table and `entries` single-entry players
+        async function setupTableEscrow(table: { lastRank: number; bps: number }[], entries: number) {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, contributor } = fixture;
+            const players = (await ethers.getSigners()).slice(5, 5 + entries);
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Table Test",
+                10,
+                0,
+                0,
+                table,
+                contributor.address
+            );
+
+            for (const player of players) {
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+            }
+
+            return { ...fixture, players, dues, endTime };
+        }
+
+        it("Should store the payout table at creation", async function () {
+            const { dfsEscrowManager, mockToken, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await expect(dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(), ethers.parseUnits("1", 6), endTime, "Table Test", 10, 0, 0, payoutTable, ethers.ZeroAddress
+            ))
+                .to.emit(dfsEscrowManager, "PayoutTableSet")
+                .withArgs(1, [[1n, 5000n], [3n, 2000n]]);
+
+            const stored = await dfsEscrowManager.getPayoutTable(1);
+            expect(stored.map((tier) => [tier.lastRank, tier.bps])).to.deep.equal([[1n, 5000n], [3n, 2000n]]);
+            expect(await dfsEscrowManager.getPayoutTable(2)).to.deep.equal([]);
+        });
+
+        it("Should pay ranked winners by the table and send unfilled shares to the overflow recipient", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, players, dues, endTime } = await setupTableEscrow(payoutTable, 4);
+
+            await time.increaseTo(endTime + 1);
+
+            // Pool of 4: 2 to first, 0.8 to second, no third place; the remaining 1.2 overflows
+            await expect(dfsEscrowManager.connect(organizer).distributeByPayoutTable(1, [players[2].address, players[0].address]))
+                .to.emit(dfsEscrowManager, "WinningsDistributed")
+                .withArgs(1, [players[2].address, players[0].address], [dues * 2n, (dues * 8n) / 10n], contributor.address, (dues * 12n) / 10n);
+
+            expect(await mockToken.balanceOf(players[2].address)).to.equal(dues * 2n);
+            expect(await mockToken.balanceOf(players[0].address)).to.equal((dues * 8n) / 10n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal((dues * 12n) / 10n);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+        });
+
+        it("Should reject winners beyond the paid places and escrows without a table", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, players, endTime } = await setupTableEscrow(payoutTable, 4);
+            const ranked = players.map((player) => player.address);
+
+            await time.increaseTo(endTime + 1);
+
+            await expect(dfsEscrowManager.connect(participant1).distributeByPayoutTable(1, ranked.slice(0, 3)))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(organizer).distributeByPayoutTable(1, ranked))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsPaidPlaces")
+                .withArgs(4, 3);
+            await expect(dfsEscrowManager.connect(organizer).distributeByPayoutTable(1, []))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidAmount");
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(), ethers.parseUnits("1", 6), (await time.latest()) + (2 * 24 * 3600), "No Table", 10, 0, 0, [], ethers.ZeroAddress
+            );
+            await expect(dfsEscrowManager.connect(organizer).distributeByPayoutTable(2, ranked.slice(0, 1)))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoPayoutTable");
+        });
+
+        it("Should reject invalid payout tables", async function () {
+            const { dfsEscrowManager, mockToken, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            const tokenAddress = await mockToken.getAddress();
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const invalidTables = [
+                [{ lastRank: 2, bps: 3000 }, { lastRank: 2, bps: 1000 }], // ranks not increasing
+                [{ lastRank: 1, bps: 5000 }, { lastRank: 2, bps: 0 }], // zero share
+                [{ lastRank: 1, bps: 6000 }, { lastRank: 3, bps: 2500 }], // over 100%
+                [{ lastRank: 101, bps: 1 }], // more than MAX_RECIPIENTS places
+            ];
+
+            for (const table of invalidTables) {
+                await expect(
+                    dfsEscrowManager.connect(organizer).createEscrow(tokenAddress, dues, endTime, "Bad Table", 10, 0, 0, table, ethers.ZeroAddress)
+                ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidPayoutTable");
+            }
+        });
+    });
+
+    describe("Tie Splitting", function () {
+        // Helper fixture: escrow with the given payout table and `entries` single-entry players, ended
+        async function setupTiedEscrow(table: { lastRank: number; bps: number }[], entries: number) {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, contributor } = fixture;
+            const players = (await ethers.getSigners()).slice(5, 5 + entries);
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Tie Test",
+                10,
+                0,
+                0,
+                table,
+                contributor.address
+            );
+
+            for (const player of players) {
+                await mockToken.mint(player.address, dues);
+                await mockToken.connect(player).approve(managerAddress, dues);
+                await dfsEscrowManager.connect(player).joinEscrow(1, 1);
+            }
+            await time.increaseTo(endTime + 1);
+
+            return { ...fixture, players, dues };
+        }
+
+        it("Should split the pooled prizes of tied places evenly and send the remainder to overflow", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, players, dues } = await setupTiedEscrow([], 4);
+            const [first, second, third] = players.map((player) => player.address);
+
+            // 2nd and 3rd tie on 1.500001 tokens: 0.75 each, and the odd unit joins the 0.5 surplus
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(
+                1, [[first], [second, third]], [dues * 2n, dues, dues / 2n + 1n]
+            ))
+                .to.emit(dfsEscrowManager, "WinningsDistributed")
+                .withArgs(1, [first, second, third], [dues * 2n, 750000n, 750000n], contributor.address, dues / 2n);
+
+            expect(await mockToken.balanceOf(second)).to.equal(750000n);
+            expect(await mockToken.balanceOf(third)).to.equal(750000n);
+            expect(await mockToken.balanceOf(contributor.address)).to.equal(dues / 2n);
+        });
+
+        it("Should split ties over the payout table, including ties spilling past the paid places", async function () {
+            const table = [{ lastRank: 1, bps: 5000 }, { lastRank: 3, bps: 2000 }];
+            const { dfsEscrowManager, organizer, contributor, players, dues } = await setupTiedEscrow(table, 5);
+            const ranked = players.map((player) => player.address);
+
+            // The last group would start at 4th place, which the table does not pay
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(
+                1, [[ranked[0], ranked[1]], [ranked[2]], [ranked[3], ranked[4]]], []
+            ))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsPaidPlaces")
+                .withArgs(4, 3);
+
+            // Pool of 5: 1st gets 2.5, 2nd gets 1, and three players tied for 3rd share its 1
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(
+                1, [[ranked[0]], [ranked[1]], [ranked[2], ranked[3], ranked[4]]], []
+            ))
+                .to.emit(dfsEscrowManager, "WinningsDistributed")
+                .withArgs(1, ranked, [(dues * 5n) / 2n, dues, 333333n, 333333n, 333333n], contributor.address, 500001n);
+        });
+
+        it("Should reject malformed tie groups", async function () {
+            const { dfsEscrowManager, organizer, participant1, players, dues } = await setupTiedEscrow([], 2);
+            const [first, second] = players.map((player) => player.address);
+
+            await expect(dfsEscrowManager.connect(participant1).distributeTiedWinnings(1, [[first]], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(1, [[first], []], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EmptyTieGroup");
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(1, [], []))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidAmount");
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(1, [[first, second]], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "PayoutArraysMismatch");
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(1, [[first, second]], []))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoPayoutTable");
+            await expect(dfsEscrowManager.connect(organizer).distributeTiedWinnings(1, [[first], [first]], [dues, 0]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoDuplicateWinners");
+        });
+    });
+
+    describe("Entry IDs", function () {
+        // Helper fixture: open escrow with funded players that have approved the manager
+        async function setupEntryEscrow() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, contributor, participant1, participant2 } = fixture;
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Entry Test",
+                10,
+                0,
+                0,
+                [],
+                contributor.address
+            );
+
+            for (const player of [participant1, participant2]) {
+                await mockToken.mint(player.address, dues * 5n);
+                await mockToken.connect(player).approve(managerAddress, dues * 5n);
+            }
+
+            return { ...fixture, dues, endTime };
+        }
+
+        it("Should issue sequential entry IDs and retire the latest ones on leave", async function () {
+            const { dfsEscrowManager, participant1, participant2 } = await setupEntryEscrow();
+
+            await expect(dfsEscrowManager.connect(participant1).joinEscrow(1, 2))
+                .to.emit(dfsEscrowManager, "EntriesIssued")
+                .withArgs(1, participant1.address, 1, 2);
+            await dfsEscrowManager.connect(participant2).joinEscrowFor(1, participant1.address, 1);
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 1);
+
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant1.address)).to.deep.equal([1n, 2n, 3n]);
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant2.address)).to.deep.equal([4n]);
+            expect(await dfsEscrowManager.getEntryOwner(1, 3)).to.equal(participant1.address);
+
+            await dfsEscrowManager.connect(participant2).leaveEscrow(1, 1);
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant2.address)).to.deep.equal([]);
+            expect(await dfsEscrowManager.getEntryOwner(1, 4)).to.equal(ethers.ZeroAddress);
+
+            // Withdrawn IDs are never reused
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 1);
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant2.address)).to.deep.equal([5n]);
+            expect(await dfsEscrowManager.entryIdCount(1)).to.equal(5);
+        });
+
+        it("Should pay one wallet for several winning entries in a single transfer", async function () {
+            const { dfsEscrowManager, mockToken, organizer, contributor, participant1, participant2, dues, endTime } = await setupEntryEscrow();
+
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 3);
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 1);
+            await time.increaseTo(endTime + 1);
+
+            // participant1's lineups finish 1st and 3rd, participant2's finishes 2nd
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [2, 4, 3], [dues * 2n, dues, dues / 2n]))
+                .to.emit(dfsEscrowManager, "EntryWinningsDistributed")
+                .withArgs(1, [2, 4, 3], [dues * 2n, dues, dues / 2n])
+                .and.to.emit(dfsEscrowManager, "WinningsDistributed")
+                .withArgs(1, [participant1.address, participant2.address], [(dues * 5n) / 2n, dues], contributor.address, dues / 2n);
+
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues * 2n + (dues * 5n) / 2n);
+            expect(await mockToken.balanceOf(participant2.address)).to.equal(dues * 5n);
+        });
+
+        it("Should keep a maximum-size join and leave well within the block gas limit", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, dues, endTime } = await setupEntryEscrow();
+            const managerAddress = await dfsEscrowManager.getAddress();
+            const maxEntries = await dfsEscrowManager.maxEntriesPerUser();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(), dues, endTime, "Large Entry Test", 2000, 0, 0, [], ethers.ZeroAddress
+            );
+            await mockToken.mint(participant1.address, dues * maxEntries);
+            await mockToken.connect(participant1).approve(managerAddress, dues * maxEntries);
+            await dfsEscrowManager.connect(participant2).joinEscrow(2, 1);
+
+            const join = await (await dfsEscrowManager.connect(participant1).joinEscrow(2, maxEntries)).wait();
+            expect(join!.gasUsed).to.be.lessThan(2_000_000n);
+            expect(await dfsEscrowManager.getEntryOwner(2, 1)).to.equal(participant2.address);
+            expect(await dfsEscrowManager.getEntryOwner(2, 2)).to.equal(participant1.address);
+            expect(await dfsEscrowManager.getEntryOwner(2, maxEntries + 1n)).to.equal(participant1.address);
+            expect(await dfsEscrowManager.getEntryOwner(2, maxEntries + 2n)).to.equal(ethers.ZeroAddress);
+
+            const leave = await (await dfsEscrowManager.connect(participant1).leaveEscrow(2, 600)).wait();
+            expect(leave!.gasUsed).to.be.lessThan(1_000_000n);
+            expect(await dfsEscrowManager.getEntryOwner(2, 401)).to.equal(participant1.address);
+            expect(await dfsEscrowManager.getEntryOwner(2, 402)).to.equal(ethers.ZeroAddress);
+            expect(await dfsEscrowManager.getEntryOwner(2, maxEntries + 1n)).to.equal(ethers.ZeroAddress);
+
+            const entryIds = await dfsEscrowManager.getUserEntryIds(2, participant1.address);
+            expect(entryIds).to.have.lengthOf(400);
+            expect([entryIds[0], entryIds[399]]).to.deep.equal([2n, 401n]);
+
+            await dfsEscrowManager.connect(participant2).joinEscrow(2, 1);
+            expect(await dfsEscrowManager.getEntryOwner(2, maxEntries + 2n)).to.equal(participant2.address);
+        });
+
+        it("Should reject unknown, withdrawn and duplicate entry IDs", async function () {
+            const { dfsEscrowManager, organizer, participant1, participant2, dues, endTime } = await setupEntryEscrow();
+
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 2);
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 2);
+            await dfsEscrowManager.connect(participant2).leaveEscrow(1, 1);
+            await time.increaseTo(endTime + 1);
+
+            await expect(dfsEscrowManager.connect(participant1).distributeWinningsByEntry(1, [1], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [5], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidEntry")
+                .withArgs(5);
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [4], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidEntry")
+                .withArgs(4);
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [1, 1], [dues, dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NoDuplicateEntries");
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [1, 3], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "PayoutArraysMismatch");
+        });
+
+        it("Should retire every entry ID left from across consecutive joins", async function () {
+            const { dfsEscrowManager, organizer, participant1, dues, endTime } = await setupEntryEscrow();
+
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 2);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 2);
+            await dfsEscrowManager.connect(participant1).leaveEscrow(1, 3);
+
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant1.address)).to.deep.equal([1n]);
+            expect(await dfsEscrowManager.getEntryOwner(1, 1)).to.equal(participant1.address);
+            for (const entryId of [2, 3, 4]) {
+                expect(await dfsEscrowManager.getEntryOwner(1, entryId)).to.equal(ethers.ZeroAddress);
+            }
+
+            await time.increaseTo(endTime + 1);
+            await expect(dfsEscrowManager.connect(organizer).distributeWinningsByEntry(1, [3], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidEntry")
+                .withArgs(3);
+        });
+    });
+
+    describe("Entry Tickets", function () {
+        // Helper fixture: manager with an entry ticket contract and an open ticketed escrow
+        async function setupTicketedEscrow() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, owner, organizer, contributor, participant1, participant2 } = fixture;
+
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            const DFSEntryTicket = await ethers.getContractFactory("DFSEntryTicket");
+            const entryTicket = await DFSEntryTicket.deploy(managerAddress, "https://tickets.example/{id}.json");
+            await dfsEscrowManager.connect(owner).setEntryTicket(await entryTicket.getAddress());
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Ticket Test",
+                10,
+                3,
+                0,
+                [],
+                contributor.address
+            );
+
+            for (const player of [participant1, participant2, contributor]) {
+                await mockToken.mint(player.address, dues * 5n);
+                await mockToken.connect(player).approve(managerAddress, dues * 5n);
+            }
+
+            return { ...fixture, entryTicket, dues, endTime };
+        }
+
+        it("Should let a config admin set the ticket contract once, for this manager only", async function () {
+            const { dfsEscrowManager, owner, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            const DFSEntryTicket = await ethers.getContractFactory("DFSEntryTicket");
+            const entryTicket = await DFSEntryTicket.deploy(await dfsEscrowManager.getAddress(), "");
+            const foreignTicket = await DFSEntryTicket.deploy(owner.address, "");
+            const ticketAddress = await entryTicket.getAddress();
+
+            await expect(dfsEscrowManager.connect(organizer).setEntryTicket(ticketAddress))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(dfsEscrowManager.connect(owner).setEntryTicket(await foreignTicket.getAddress()))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidEntryTicket");
+            await expect(dfsEscrowManager.connect(owner).setEntryTicket(owner.address))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidEntryTicket");
+
+            await expect(dfsEscrowManager.connect(owner).setEntryTicket(ticketAddress))
+                .to.emit(dfsEscrowManager, "EntryTicketSet")
+                .withArgs(ticketAddress);
+            await expect(dfsEscrowManager.connect(owner).setEntryTicket(ticketAddress))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EntryTicketAlreadySet");
+
+            // Only the manager mints and burns
+            await expect(entryTicket.connect(owner).mint(owner.address, 1, 1))
+                .to.be.revertedWithCustomError(entryTicket, "NotManager");
+            await expect(dfsEscrowManager.connect(owner).onTicketTransfer(owner.address, organizer.address, 1, 1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotEntryTicket");
+        });
+
+        it("Should mint tickets on join, burn them on leave and move entries with transfers", async function () {
+            const { dfsEscrowManager, entryTicket, participant1, participant2 } = await setupTicketedEscrow();
+
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 3);
+            expect(await entryTicket.balanceOf(participant1.address, 1)).to.equal(3);
+            await dfsEscrowManager.connect(participant1).leaveEscrow(1, 1);
+            expect(await entryTicket.balanceOf(participant1.address, 1)).to.equal(2);
+
+            await expect(entryTicket.connect(participant1).safeTransferFrom(participant1.address, participant2.address, 1, 1, "0x"))
+                .to.emit(dfsEscrowManager, "EntriesTransferred")
+                .withArgs(1, participant1.address, participant2.address, 1);
+
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(1);
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant2.address)).to.equal(1);
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant2.address)).to.deep.equal([2n]);
+            expect(await dfsEscrowManager.getEntryOwner(1, 2)).to.equal(participant2.address);
+            expect([...(await dfsEscrowManager.getParticipants(1))]).to.have.members([participant1.address, participant2.address]);
+
+            // Handing over the last entry removes the sender from the escrow
+            await entryTicket.connect(participant1).safeTransferFrom(participant1.address, participant2.address, 1, 1, "0x");
+            expect(await dfsEscrowManager.getParticipants(1)).to.deep.equal([participant2.address]);
+            expect(await dfsEscrowManager.getJoinedEscrows(participant1.address)).to.deep.equal([]);
+            expect(await dfsEscrowManager.getUserEntryCount(1, participant2.address)).to.equal(2);
+            expect(await entryTicket.balanceOf(participant2.address, 1)).to.equal(2);
+        });
+
+        it("Should move every entry ID transferred from across consecutive joins", async function () {
+            const { dfsEscrowManager, entryTicket, participant1, participant2, contributor } = await setupTicketedEscrow();
+
+            await dfsEscrowManager.connect(contributor).joinEscrow(1, 1);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+            await entryTicket.connect(participant1).safeTransferFrom(participant1.address, participant2.address, 1, 2, "0x");
+
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant1.address)).to.deep.equal([]);
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant2.address)).to.deep.equal([3n, 2n]);
+            expect(await dfsEscrowManager.getEntryOwner(1, 1)).to.equal(contributor.address);
+            expect(await dfsEscrowManager.getEntryOwner(1, 2)).to.equal(participant2.address);
+            expect(await dfsEscrowManager.getEntryOwner(1, 3)).to.equal(participant2.address);
+
+            // Passing one on moves the most recently received ID
+            await entryTicket.connect(participant2).safeTransferFrom(participant2.address, contributor.address, 1, 1, "0x");
+            expect(await dfsEscrowManager.getUserEntryIds(1, contributor.address)).to.deep.equal([1n, 2n]);
+            expect(await dfsEscrowManager.getEntryOwner(1, 2)).to.equal(contributor.address);
+            expect(await dfsEscrowManager.getEntryOwner(1, 3)).to.equal(participant2.address);
+        });
+
+        it("Should reject transfers of gifted entries, above the entry limit and after the escrow ends", async function () {
+            const { dfsEscrowManager, entryTicket, participant1, participant2, contributor, endTime } = await setupTicketedEscrow();
+
+            await dfsEscrowManager.connect(participant1).joinEscrowFor(1, participant2.address, 1);
+            await expect(entryTicket.connect(participant2).safeTransferFrom(participant2.address, participant1.address, 1, 1, "0x"))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InsufficientEntries")
+                .withArgs(1, 0);
+
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 3);
+            await dfsEscrowManager.connect(contributor).joinEscrow(1, 1);
+            await expect(entryTicket.connect(contributor).safeTransferFrom(contributor.address, participant1.address, 1, 1, "0x"))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsMaxEntriesPerUser")
+                .withArgs(3);
+
+            await time.increaseTo(endTime + 1);
+            await expect(entryTicket.connect(participant1).safeTransferFrom(participant1.address, participant2.address, 1, 1, "0x"))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "TicketsLocked");
+        });
+
+        it("Should mint tickets to contracts that cannot receive ERC-1155 transfers", async function () {
+            const { dfsEscrowManager, entryTicket, mockToken, participant1 } = await setupTicketedEscrow();
+            // Stands in for a smart wallet or checkout contract without onERC1155Received
+            const contractWallet = await mockToken.getAddress();
+
+            await dfsEscrowManager.connect(participant1).joinEscrowFor(1, contractWallet, 2);
+
+            expect(await entryTicket.balanceOf(contractWallet, 1)).to.equal(2);
+            expect(await dfsEscrowManager.getUserEntryIds(1, contractWallet)).to.deep.equal([1n, 2n]);
+            // Holder-to-holder transfers still check the recipient
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+            await expect(entryTicket.connect(participant1).safeTransferFrom(participant1.address, contractWallet, 1, 1, "0x"))
+                .to.be.revertedWithCustomError(entryTicket, "ERC1155InvalidReceiver")
+                .withArgs(contractWallet);
+        });
+
+        it("Should list received entry IDs in the order they were received", async function () {
+            const { dfsEscrowManager, entryTicket, participant1, participant2 } = await setupTicketedEscrow();
+
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 2);
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 1);
+            await entryTicket.connect(participant1).safeTransferFrom(participant1.address, participant2.address, 1, 1, "0x");
+
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant2.address)).to.deep.equal([3n, 2n]);
+            expect(await dfsEscrowManager.getUserEntryIds(1, participant1.address)).to.deep.equal([1n]);
+        });
+
+        it("Should pay the current ticket holder at settlement", async function () {
+            const { dfsEscrowManager, entryTicket, mockToken, organizer, participant1, participant2, dues, endTime } = await setupTicketedEscrow();
+
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+            await dfsEscrowManager.connect(participant2).joinEscrow(1, 1);
+            await entryTicket.connect(participant1).safeTransferFrom(participant1.address, participant2.address, 1, 1, "0x");
+            await time.increaseTo(endTime + 1);
+
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "WinnerNotParticipant");
+            await dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant2.address], [dues * 2n]);
+            expect(await mockToken.balanceOf(participant2.address)).to.equal(dues * 6n);
+        });
+    });
+
+    describe("Emergency Pause", function () {
+        // Escrow with two players (2 and 1 entries) and a sponsor top-up, backed by a MockYearnVault
+        async function setupPausableEscrow() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, contributor } = fixture;
+
+            const dues = ethers.parseUnits("1", 6);
+            const contribution = ethers.parseUnits("3", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const managerAddress = await dfsEscrowManager.getAddress();
+
+            await dfsEscrowManager.connect(organizer).createEscrow(
+                await mockToken.getAddress(),
+                dues,
+                endTime,
+                "Emergency Test",
+                10,
+                0,
+                0,
+                [],
+                ethers.ZeroAddress
+            );
+
+            for (const [player, entries] of [[participant1, 2n], [participant2, 1n]] as const) {
+                await mockToken.mint(player.address, dues * 10n);
+                await mockToken.connect(player).approve(managerAddress, dues * 10n);
+                await dfsEscrowManager.connect(player).joinEscrow(1, entries);
+            }
+            await mockToken.mint(contributor.address, contribution);
+            await mockToken.connect(contributor).approve(managerAddress, contribution);
+            await dfsEscrowManager.connect(contributor).addToPool(1, contribution);
+
+            const details = await dfsEscrowManager.getEscrowDetails(1);
+            const vault = await ethers.getContractAt("MockYearnVault", details.vault) as MockYearnVault;
+
+            return { ...fixture, dues, contribution, endTime, vault };
+        }
+
+        it("Should let only the owner pause and unpause", async function () {
+            const { dfsEscrowManager, owner, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+
+            await expect(dfsEscrowManager.connect(organizer).pause())
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+
+            await expect(dfsEscrowManager.connect(owner).pause())
+                .to.emit(dfsEscrowManager, "Paused")
+                .withArgs(owner.address);
+            expect(await dfsEscrowManager.paused()).to.be.true;
+
+            await expect(dfsEscrowManager.connect(organizer).unpause())
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(dfsEscrowManager.connect(owner).unpause())
+                .to.emit(dfsEscrowManager, "Unpaused")
+                .withArgs(owner.address);
+            expect(await dfsEscrowManager.paused()).to.be.false;
+        });
+
+        it("Should block creation, joins, leaves, top-ups and payouts while paused", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, contributor, dues, endTime } =
+                await setupPausableEscrow();
+
+            await dfsEscrowManager.connect(owner).pause();
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, endTime, "P", 10, 0, 0, [], ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "EnforcedPause");
+            await expect(dfsEscrowManager.connect(participant1).joinEscrow(1, 1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EnforcedPause");
+            await expect(dfsEscrowManager.connect(participant1).leaveEscrow(1, 1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EnforcedPause");
+            await expect(dfsEscrowManager.connect(contributor).addToPool(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EnforcedPause");
+
+            await time.increaseTo(endTime + 1);
+            await expect(dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues]))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EnforcedPause");
+            await expect(dfsEscrowManager.connect(organizer).openSettlement(1, dues))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EnforcedPause");
+
+            // Everything resumes once unpaused
+            await dfsEscrowManager.connect(owner).unpause();
+            await dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues]);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).payoutsComplete).to.be.true;
+        });
+
+        it("Should keep cancellation and refunds available while paused", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, dues } = await setupPausableEscrow();
+
+            await dfsEscrowManager.connect(owner).pause();
+            await dfsEscrowManager.connect(organizer).cancelEscrow(1);
+
+            const balanceBefore = await mockToken.balanceOf(participant1.address);
+            await dfsEscrowManager.connect(participant1).claimRefund(1);
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(balanceBefore + dues * 2n);
+        });
+
+        it("Should only allow the owner to trigger an emergency withdrawal while paused", async function () {
+            const { dfsEscrowManager, owner, organizer } = await setupPausableEscrow();
+
+            await expect(dfsEscrowManager.connect(owner).emergencyWithdraw(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "ExpectedPause");
+
+            await dfsEscrowManager.connect(owner).pause();
+            await expect(dfsEscrowManager.connect(organizer).emergencyWithdraw(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(dfsEscrowManager.connect(owner).emergencyWithdraw(2))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EscrowNotFound");
+        });
+
+        it("Should fail atomically against a vault that reverts on withdraw, then recover once it works", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2, contributor, dues, contribution, endTime, vault } =
+                await setupPausableEscrow();
+            const total = dues * 3n + contribution;
+
+            // The vault breaks: settlement is impossible
+            await vault.set_withdrawals_paused(true);
+            await time.increaseTo(endTime + 1);
+            await expect(
+                dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues])
+            ).to.be.revertedWith("MockVault: Withdrawals paused");
+
+            // The owner pauses and tries to exit; the failed attempt leaves the escrow untouched
+            await dfsEscrowManager.connect(owner).pause();
+            await expect(dfsEscrowManager.connect(owner).emergencyWithdraw(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EmergencyWithdrawFailed")
+                .withArgs(1);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).cancelled).to.be.false;
+            expect(await mockToken.balanceOf(await vault.getAddress())).to.equal(total);
+
+            // Once the vault releases funds, the exit pulls everything and opens refunds
+            await vault.set_withdrawals_paused(false);
+            await expect(dfsEscrowManager.connect(owner).emergencyWithdraw(1))
+                .to.emit(dfsEscrowManager, "EmergencyWithdrawal")
+                .withArgs(1, total);
+
+            expect(await mockToken.balanceOf(await vault.getAddress())).to.equal(0);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).cancelled).to.be.true;
+            expect(await dfsEscrowManager.getActiveEscrowIds()).to.be.empty;
+
+            // Refunds follow recorded entries and contributions, even while still paused
+            expect(await dfsEscrowManager.getRefundAmount(1, participant1.address)).to.equal(dues * 2n);
+            expect(await dfsEscrowManager.getRefundAmount(1, participant2.address)).to.equal(dues);
+            expect(await dfsEscrowManager.getRefundAmount(1, contributor.address)).to.equal(contribution);
+
+            await dfsEscrowManager.connect(participant1).claimRefund(1);
+            await dfsEscrowManager.connect(participant2).claimRefund(1);
+            await dfsEscrowManager.connect(contributor).claimRefund(1);
+            expect(await mockToken.balanceOf(await dfsEscrowManager.getAddress())).to.equal(0);
+
+            await expect(dfsEscrowManager.connect(owner).emergencyWithdraw(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EscrowIsCancelled");
+        });
+
+        it("Should still exit a vault whose maxWithdraw reverts", async function () {
+            const { dfsEscrowManager, mockToken, owner, participant1, dues, contribution, vault } = await setupPausableEscrow();
+            const total = dues * 3n + contribution;
+
+            await vault.set_max_withdraw_reverts(true);
+            await dfsEscrowManager.connect(owner).pause();
+
+            // Falls back to withdrawing everything the escrow owes
+            await expect(dfsEscrowManager.connect(owner).emergencyWithdraw(1))
+                .to.emit(dfsEscrowManager, "EmergencyWithdrawal")
+                .withArgs(1, total);
+            expect(await mockToken.balanceOf(await vault.getAddress())).to.equal(0);
+            expect(await dfsEscrowManager.getRefundAmount(1, participant1.address)).to.equal(dues * 2n);
+        });
+
+        it("Should not allow an emergency withdrawal after payouts are complete", async function () {
+            const { dfsEscrowManager, owner, organizer, participant1, dues, endTime } = await setupPausableEscrow();
+
+            await time.increaseTo(endTime + 1);
+            await dfsEscrowManager.connect(organizer).distributeWinnings(1, [participant1.address], [dues]);
+            await dfsEscrowManager.connect(owner).pause();
+
+            await expect(dfsEscrowManager.connect(owner).emergencyWithdraw(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "PayoutsAlreadyComplete");
+        });
+    });
+
+    describe("Escrow Token Allowlist", function () {
+        it("Should record the token's decimals and dues bounds", async function () {
+            const { dfsEscrowManager, mockToken, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+            const tokenAddress = await mockToken.getAddress();
+            const minDues = ethers.parseUnits("5", 6);
+            const maxDues = ethers.parseUnits("500", 6);
+
+            await expect(dfsEscrowManager.connect(owner).addEscrowToken(tokenAddress, minDues, maxDues))
+                .to.emit(dfsEscrowManager, "EscrowTokenAdded")
+                .withArgs(tokenAddress, 18, minDues, maxDues);
+
+            const config = await dfsEscrowManager.tokenConfigs(tokenAddress);
+            expect(config.allowed).to.be.true;
+            expect(config.decimals).to.equal(18);
+            expect(config.minDues).to.equal(minDues);
+            expect(config.maxDues).to.equal(maxDues);
+        });
+
+        it("Should default the minimum dues to one whole token", async function () {
+            const { dfsEscrowManager, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+            const MockToken = await ethers.getContractFactory("MockToken");
+            const otherToken = await MockToken.deploy();
+            const otherTokenAddress = await otherToken.getAddress();
+
+            await expect(dfsEscrowManager.connect(owner).addEscrowToken(otherTokenAddress, 0, 0))
+                .to.emit(dfsEscrowManager, "EscrowTokenAdded")
+                .withArgs(otherTokenAddress, 18, ethers.parseEther("1"), 0);
+        });
+
+        it("Should enforce the token's dues bounds on creation", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            const tokenAddress = await mockToken.getAddress();
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            await dfsEscrowManager.connect(owner).addEscrowToken(tokenAddress, ethers.parseUnits("5", 6), ethers.parseUnits("500", 6));
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrow(tokenAddress, ethers.parseUnits("4", 6), endTime, "Low", 10, 0, 0, [], ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidDues");
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrow(tokenAddress, ethers.parseUnits("501", 6), endTime, "High", 10, 0, 0, [], ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidDues");
+
+            await dfsEscrowManager.connect(organizer).createEscrow(tokenAddress, ethers.parseUnits("500", 6), endTime, "Max", 10, 0, 0, [], ethers.ZeroAddress);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).dues).to.equal(ethers.parseUnits("500", 6));
+        });
+
+        it("Should reject unlisted and removed tokens", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            const tokenAddress = await mockToken.getAddress();
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+            const MockToken = await ethers.getContractFactory("MockToken");
+            const otherTokenAddress = await (await MockToken.deploy()).getAddress();
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrow(otherTokenAddress, ethers.parseUnits("1", 6), endTime, "N", 10, 0, 0, [], ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "TokenNotAllowed")
+                .withArgs(otherTokenAddress);
+
+            await expect(dfsEscrowManager.connect(owner).removeEscrowToken(tokenAddress))
+                .to.emit(dfsEscrowManager, "EscrowTokenRemoved")
+                .withArgs(tokenAddress);
+            expect((await dfsEscrowManager.tokenConfigs(tokenAddress)).allowed).to.be.false;
+
+            await expect(
+                dfsEscrowManager.connect(organizer).createEscrow(tokenAddress, ethers.parseUnits("1", 6), endTime, "N", 10, 0, 0, [], ethers.ZeroAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "TokenNotAllowed")
+                .withArgs(tokenAddress);
+            await expect(dfsEscrowManager.connect(owner).removeEscrowToken(tokenAddress))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "TokenNotAllowed");
+        });
+
+        it("Should only let the owner manage the allowlist and validate bounds", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            const tokenAddress = await mockToken.getAddress();
+
+            await expect(
+                dfsEscrowManager.connect(organizer).addEscrowToken(tokenAddress, 1, 0)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(
+                dfsEscrowManager.connect(organizer).removeEscrowToken(tokenAddress)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+            await expect(
+                dfsEscrowManager.connect(owner).addEscrowToken(ethers.ZeroAddress, 1, 0)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidToken");
+            await expect(
+                dfsEscrowManager.connect(owner).addEscrowToken(tokenAddress, 10, 5)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidDues");
+        });
+    });
+
+    describe("setMaxEntriesPerUser", function () {
+        it("Should allow owner to update maxEntriesPerUser", async function () {
+            const { dfsEscrowManager, owner } = await loadFixture(deployDFSEscrowManagerFixture);
+            
+            expect(await dfsEscrowManager.maxEntriesPerUser()).to.equal(1000);
+            
+            await dfsEscrowManager.connect(owner).setMaxEntriesPerUser(500);
+            expect(await dfsEscrowManager.maxEntriesPerUser()).to.equal(500);
+            
+            await expect(dfsEscrowManager.connect(owner).setMaxEntriesPerUser(500))
+                .to.emit(dfsEscrowManager, "MaxEntriesPerUserUpdated")
+                .withArgs(500);
+        });
+
+        it("Should revert if non-owner tries to update", async function () {
+            const { dfsEscrowManager, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+            
+            await expect(
+                dfsEscrowManager.connect(organizer).setMaxEntriesPerUser(500)
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+        });
 
         it("Should revert if trying to set to zero", async function () {
             const { dfsEscrowManager, owner } = await loadFixture(deployDFSEscrowManagerFixture);
@@ -998,6 +4308,333 @@ describe("DFSEscrowManager", function () {
                 dfsEscrowManager.connect(owner).setMaxEntriesPerUser(0)
             ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidMaxEntries");
         });
+
+        describe("Per-escrow limits", function () {
+            async function createLimitedEscrow(maxEntriesPerUser: number) {
+                const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+                const { dfsEscrowManager, mockToken, organizer, participant1 } = fixture;
+                const dues = ethers.parseUnits("1", 6);
+                const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+                await dfsEscrowManager.connect(organizer).createEscrow(
+                    await mockToken.getAddress(),
+                    dues,
+                    endTime,
+                    "Limited League",
+                    100,
+                    maxEntriesPerUser,
+                    0,
+                    [],
+                    ethers.ZeroAddress
+                );
+                await mockToken.mint(participant1.address, dues * 10n);
+                await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues * 10n);
+
+                return { ...fixture, dues, endTime };
+            }
+
+            it("Should enforce the escrow's own limit and report it", async function () {
+                const { dfsEscrowManager, participant1 } = await createLimitedEscrow(3);
+
+                expect(await dfsEscrowManager.getMaxEntriesPerUser(1)).to.equal(3);
+                await dfsEscrowManager.connect(participant1).joinEscrow(1, 2);
+
+                await expect(dfsEscrowManager.connect(participant1).joinEscrow(1, 2))
+                    .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsMaxEntriesPerUser")
+                    .withArgs(3);
+                await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+                expect(await dfsEscrowManager.getUserEntryCount(1, participant1.address)).to.equal(3);
+            });
+
+            it("Should fall back to the global limit when set to zero", async function () {
+                const { dfsEscrowManager, owner, participant1 } = await createLimitedEscrow(0);
+
+                expect(await dfsEscrowManager.getMaxEntriesPerUser(1)).to.equal(1000);
+
+                await dfsEscrowManager.connect(owner).setMaxEntriesPerUser(2);
+                expect(await dfsEscrowManager.getMaxEntriesPerUser(1)).to.equal(2);
+                await expect(dfsEscrowManager.connect(participant1).joinEscrow(1, 3))
+                    .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsMaxEntriesPerUser")
+                    .withArgs(2);
+            });
+
+            it("Should cap the escrow's limit at a later-lowered global limit", async function () {
+                const { dfsEscrowManager, owner, participant1 } = await createLimitedEscrow(5);
+
+                await dfsEscrowManager.connect(owner).setMaxEntriesPerUser(2);
+                expect(await dfsEscrowManager.getMaxEntriesPerUser(1)).to.equal(2);
+                await expect(dfsEscrowManager.connect(participant1).joinEscrow(1, 3))
+                    .to.be.revertedWithCustomError(dfsEscrowManager, "ExceedsMaxEntriesPerUser")
+                    .withArgs(2);
+            });
+
+            it("Should revert creation with a limit above the global limit", async function () {
+                const { dfsEscrowManager, mockToken, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+                const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+                await expect(
+                    dfsEscrowManager.connect(organizer).createEscrow(
+                        await mockToken.getAddress(),
+                        ethers.parseUnits("1", 6),
+                        endTime,
+                        "Too Generous",
+                        100,
+                        1001,
+                        0,
+                        [],
+                        ethers.ZeroAddress
+                    )
+                ).to.be.revertedWithCustomError(dfsEscrowManager, "InvalidMaxEntries");
+            });
+
+            it("Should let the organizer adjust the limit before the escrow ends", async function () {
+                const { dfsEscrowManager, organizer, participant1, endTime } = await createLimitedEscrow(1);
+
+                await expect(dfsEscrowManager.connect(organizer).setEscrowMaxEntriesPerUser(1, 4))
+                    .to.emit(dfsEscrowManager, "EscrowMaxEntriesPerUserSet")
+                    .withArgs(1, 4);
+                expect(await dfsEscrowManager.getMaxEntriesPerUser(1)).to.equal(4);
+                await dfsEscrowManager.connect(participant1).joinEscrow(1, 4);
+
+                await expect(dfsEscrowManager.connect(organizer).setEscrowMaxEntriesPerUser(1, 1001))
+                    .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidMaxEntries");
+                await expect(dfsEscrowManager.connect(participant1).setEscrowMaxEntriesPerUser(1, 2))
+                    .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+
+                await time.increaseTo(endTime + 1);
+                await expect(dfsEscrowManager.connect(organizer).setEscrowMaxEntriesPerUser(1, 2))
+                    .to.be.revertedWithCustomError(dfsEscrowManager, "EscrowEnded");
+            });
+        });
+    });
+
+    describe("Organizer Handover and Delegates", function () {
+        // Joined escrow; `endTime` lets tests move past lock before settling
+        async function setupHandoverEscrow() {
+            const fixture = await loadFixture(deployDFSEscrowManagerFixture);
+            const { dfsEscrowManager, mockToken, organizer, participant1 } = fixture;
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, endTime, "Handover", 10, 0, 0, [], ethers.ZeroAddress);
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+
+            return { ...fixture, dues, endTime };
+        }
+
+        it("Should hand an escrow over in two steps", async function () {
+            const { dfsEscrowManager, organizer, participant1, participant2 } = await setupHandoverEscrow();
+
+            await expect(dfsEscrowManager.connect(organizer).transferOrganizer(1, participant2.address))
+                .to.emit(dfsEscrowManager, "OrganizerTransferStarted")
+                .withArgs(1, organizer.address, participant2.address);
+            expect(await dfsEscrowManager.pendingOrganizer(1)).to.equal(participant2.address);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).organizer).to.equal(organizer.address);
+
+            await expect(dfsEscrowManager.connect(participant1).acceptOrganizer(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotPendingOrganizer");
+
+            await expect(dfsEscrowManager.connect(participant2).acceptOrganizer(1))
+                .to.emit(dfsEscrowManager, "OrganizerTransferred")
+                .withArgs(1, organizer.address, participant2.address);
+            expect((await dfsEscrowManager.getEscrowDetails(1)).organizer).to.equal(participant2.address);
+            expect(await dfsEscrowManager.pendingOrganizer(1)).to.equal(ethers.ZeroAddress);
+
+            // Organizer-only settings follow the new organizer
+            await expect(dfsEscrowManager.connect(organizer).setOverflowRecipient(1, organizer.address))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await dfsEscrowManager.connect(participant2).setOverflowRecipient(1, participant2.address);
+            expect(await dfsEscrowManager.overflowRecipient(1)).to.equal(participant2.address);
+        });
+
+        it("Should move the escrow to the new organizer's created escrows", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant2, dues, endTime } = await setupHandoverEscrow();
+            await dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, endTime, "Second", 10, 0, 0, [], ethers.ZeroAddress);
+
+            await dfsEscrowManager.connect(organizer).transferOrganizer(1, participant2.address);
+            await dfsEscrowManager.connect(participant2).acceptOrganizer(1);
+
+            expect(await dfsEscrowManager.getCreatedEscrows(organizer.address)).to.deep.equal([2n]);
+            expect(await dfsEscrowManager.getCreatedEscrows(participant2.address)).to.deep.equal([1n]);
+
+            // And back again
+            await dfsEscrowManager.connect(participant2).transferOrganizer(1, organizer.address);
+            await dfsEscrowManager.connect(organizer).acceptOrganizer(1);
+            expect(await dfsEscrowManager.getCreatedEscrows(organizer.address)).to.deep.equal([2n, 1n]);
+            expect(await dfsEscrowManager.getCreatedEscrows(participant2.address)).to.deep.equal([]);
+        });
+
+        it("Should make the new organizer the guarantor, unless the escrow is cancelled", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant2, contributor, dues } = await setupHandoverEscrow();
+            const managerAddress = await dfsEscrowManager.getAddress();
+            for (const account of [organizer, participant2]) {
+                await mockToken.mint(account.address, dues);
+                await mockToken.connect(account).approve(managerAddress, dues);
+            }
+            await dfsEscrowManager.connect(organizer).setGuaranteedPrize(1, dues * 5n);
+            await dfsEscrowManager.connect(organizer).depositGuarantee(1, dues);
+
+            await dfsEscrowManager.connect(organizer).transferOrganizer(1, participant2.address);
+            await dfsEscrowManager.connect(participant2).acceptOrganizer(1);
+            await expect(dfsEscrowManager.connect(participant2).depositGuarantee(1, dues))
+                .to.emit(dfsEscrowManager, "GuaranteeDeposited")
+                .withArgs(1, participant2.address, dues);
+
+            await dfsEscrowManager.connect(participant2).cancelEscrow(1);
+            expect(await dfsEscrowManager.getRefundAmount(1, participant2.address)).to.equal(dues * 2n);
+            expect(await dfsEscrowManager.getRefundAmount(1, organizer.address)).to.equal(0);
+
+            // After cancellation the guarantee refund stays with the guarantor
+            await dfsEscrowManager.connect(participant2).transferOrganizer(1, contributor.address);
+            await dfsEscrowManager.connect(contributor).acceptOrganizer(1);
+            expect(await dfsEscrowManager.getRefundAmount(1, participant2.address)).to.equal(dues * 2n);
+            expect(await dfsEscrowManager.getRefundAmount(1, contributor.address)).to.equal(0);
+        });
+
+        it("Should let a config admin start a recovery handover and allow cancelling it", async function () {
+            const { dfsEscrowManager, owner, organizer, participant1, participant2 } = await setupHandoverEscrow();
+
+            await expect(dfsEscrowManager.connect(participant1).transferOrganizer(1, participant1.address))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizerOrOwner");
+            await expect(dfsEscrowManager.connect(owner).transferOrganizer(2, participant2.address))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "EscrowNotFound");
+
+            await expect(dfsEscrowManager.connect(owner).transferOrganizer(1, participant2.address))
+                .to.emit(dfsEscrowManager, "OrganizerTransferStarted")
+                .withArgs(1, organizer.address, participant2.address);
+
+            // Transferring to the zero address cancels the pending handover
+            await dfsEscrowManager.connect(organizer).transferOrganizer(1, ethers.ZeroAddress);
+            await expect(dfsEscrowManager.connect(participant2).acceptOrganizer(1))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotPendingOrganizer");
+        });
+
+        it("Should let delegates settle but not change economic settings", async function () {
+            const { dfsEscrowManager, mockToken, organizer, participant1, participant2, dues, endTime } = await setupHandoverEscrow();
+
+            await expect(dfsEscrowManager.connect(participant2).setEscrowOperator(1, participant2.address, true))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(organizer).setEscrowOperator(1, ethers.ZeroAddress, true))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "InvalidToken");
+
+            await expect(dfsEscrowManager.connect(organizer).setEscrowOperator(1, participant2.address, true))
+                .to.emit(dfsEscrowManager, "EscrowOperatorUpdated")
+                .withArgs(1, organizer.address, participant2.address, true);
+            expect(await dfsEscrowManager.isEscrowOperator(1, participant2.address)).to.be.true;
+
+            await expect(dfsEscrowManager.connect(participant2).setOverflowRecipient(1, participant2.address))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+            await expect(dfsEscrowManager.connect(participant2).setEscrowMaxEntriesPerUser(1, 5))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+
+            await time.increaseTo(endTime + 1);
+            await expect(dfsEscrowManager.connect(participant2).distributeWinnings(1, [participant1.address], [dues]))
+                .to.emit(dfsEscrowManager, "WinningsDistributed");
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues);
+        });
+
+        it("Should drop the previous organizer's delegates on handover", async function () {
+            const { dfsEscrowManager, organizer, participant1, participant2, contributor, dues, endTime } = await setupHandoverEscrow();
+
+            await dfsEscrowManager.connect(organizer).setEscrowOperator(1, participant2.address, true);
+            await dfsEscrowManager.connect(organizer).transferOrganizer(1, contributor.address);
+            await dfsEscrowManager.connect(contributor).acceptOrganizer(1);
+
+            expect(await dfsEscrowManager.isEscrowOperator(1, participant2.address)).to.be.false;
+            await time.increaseTo(endTime + 1);
+            await expect(
+                dfsEscrowManager.connect(participant2).distributeWinnings(1, [participant1.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+
+            // Revoking works the same way for the new organizer's delegates
+            await dfsEscrowManager.connect(contributor).setEscrowOperator(1, participant2.address, true);
+            await dfsEscrowManager.connect(contributor).setEscrowOperator(1, participant2.address, false);
+            expect(await dfsEscrowManager.isEscrowOperator(1, participant2.address)).to.be.false;
+        });
+    });
+
+    describe("Access Control", function () {
+        it("Should grant every role to the deployer", async function () {
+            const { dfsEscrowManager, owner, organizer } = await loadFixture(deployDFSEscrowManagerFixture);
+
+            for (const role of [
+                await dfsEscrowManager.DEFAULT_ADMIN_ROLE(),
+                await dfsEscrowManager.CONFIG_ADMIN_ROLE(),
+                await dfsEscrowManager.PAUSER_ROLE(),
+                await dfsEscrowManager.CREATOR_ROLE(),
+            ]) {
+                expect(await dfsEscrowManager.hasRole(role, owner.address)).to.be.true;
+            }
+            expect(await dfsEscrowManager.hasRole(await dfsEscrowManager.PAYOUT_OPERATOR_ROLE(), owner.address)).to.be.false;
+            expect(await dfsEscrowManager.hasRole(await dfsEscrowManager.CREATOR_ROLE(), organizer.address)).to.be.true;
+        });
+
+        it("Should keep the creator wrappers in sync with CREATOR_ROLE", async function () {
+            const { dfsEscrowManager, owner, participant1 } = await loadFixture(deployDFSEscrowManagerFixture);
+            const creatorRole = await dfsEscrowManager.CREATOR_ROLE();
+
+            await expect(dfsEscrowManager.connect(owner).addAuthorizedCreator(participant1.address))
+                .to.emit(dfsEscrowManager, "RoleGranted")
+                .withArgs(creatorRole, participant1.address, owner.address);
+            expect(await dfsEscrowManager.hasRole(creatorRole, participant1.address)).to.be.true;
+
+            await dfsEscrowManager.connect(owner).revokeRole(creatorRole, participant1.address);
+            expect(await dfsEscrowManager.isAuthorizedCreator(participant1.address)).to.be.false;
+        });
+
+        it("Should let a payout operator settle on the organizer's behalf", async function () {
+            const { dfsEscrowManager, mockToken, owner, organizer, participant1, participant2 } = await loadFixture(deployDFSEscrowManagerFixture);
+            const dues = ethers.parseUnits("1", 6);
+            const endTime = (await time.latest()) + (2 * 24 * 3600);
+
+            await dfsEscrowManager.connect(organizer).createEscrow(await mockToken.getAddress(), dues, endTime, "Ops", 10, 0, 0, [], ethers.ZeroAddress);
+            await mockToken.mint(participant1.address, dues);
+            await mockToken.connect(participant1).approve(await dfsEscrowManager.getAddress(), dues);
+            await dfsEscrowManager.connect(participant1).joinEscrow(1, 1);
+            await time.increaseTo(endTime + 1);
+
+            await expect(
+                dfsEscrowManager.connect(participant2).distributeWinnings(1, [participant1.address], [dues])
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "NotOrganizer");
+
+            await dfsEscrowManager.connect(owner).grantRole(await dfsEscrowManager.PAYOUT_OPERATOR_ROLE(), participant2.address);
+            await expect(dfsEscrowManager.connect(participant2).distributeWinnings(1, [participant1.address], [dues]))
+                .to.emit(dfsEscrowManager, "WinningsDistributed");
+            expect(await mockToken.balanceOf(participant1.address)).to.equal(dues);
+        });
+
+        it("Should separate the pauser and config admin roles", async function () {
+            const { dfsEscrowManager, owner, participant1, participant2 } = await loadFixture(deployDFSEscrowManagerFixture);
+            const pauserRole = await dfsEscrowManager.PAUSER_ROLE();
+            const configAdminRole = await dfsEscrowManager.CONFIG_ADMIN_ROLE();
+
+            await dfsEscrowManager.connect(owner).grantRole(pauserRole, participant1.address);
+            await dfsEscrowManager.connect(owner).grantRole(configAdminRole, participant2.address);
+
+            await dfsEscrowManager.connect(participant1).pause();
+            await expect(dfsEscrowManager.connect(participant1).setMaxEntriesPerUser(5))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount")
+                .withArgs(participant1.address, configAdminRole);
+
+            await dfsEscrowManager.connect(participant2).setMaxEntriesPerUser(5);
+            expect(await dfsEscrowManager.maxEntriesPerUser()).to.equal(5);
+            await expect(dfsEscrowManager.connect(participant2).unpause())
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount")
+                .withArgs(participant2.address, pauserRole);
+
+            // Config admins cannot hand out roles; only DEFAULT_ADMIN_ROLE can
+            await expect(dfsEscrowManager.connect(participant2).addAuthorizedCreator(participant2.address))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+
+            // Revoking a role takes effect immediately
+            await expect(dfsEscrowManager.connect(owner).revokeRole(configAdminRole, participant2.address))
+                .to.emit(dfsEscrowManager, "RoleRevoked")
+                .withArgs(configAdminRole, participant2.address, owner.address);
+            await expect(dfsEscrowManager.connect(participant2).setMaxEntriesPerUser(6))
+                .to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
+        });
     });
 
     describe("Authorized Creators Whitelist", function () {
@@ -1031,7 +4668,7 @@ describe("DFSEscrowManager", function () {
             
             await expect(
                 dfsEscrowManager.connect(organizer).addAuthorizedCreator(participant1.address)
-            ).to.be.revertedWithCustomError(dfsEscrowManager, "OwnableUnauthorizedAccount");
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
         });
 
         it("Should revert if non-owner tries to remove authorized creator", async function () {
@@ -1039,7 +4676,7 @@ describe("DFSEscrowManager", function () {
             
             await expect(
                 dfsEscrowManager.connect(organizer).removeAuthorizedCreator(organizer.address)
-            ).to.be.revertedWithCustomError(dfsEscrowManager, "OwnableUnauthorizedAccount");
+            ).to.be.revertedWithCustomError(dfsEscrowManager, "AccessControlUnauthorizedAccount");
         });
 
         it("Should revert if trying to add zero address", async function () {
@@ -1065,6 +4702,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Unauthorized Vault",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 )
             ).to.be.revertedWithCustomError(dfsEscrowManager, "NotAuthorizedCreator");
@@ -1085,6 +4725,9 @@ describe("DFSEscrowManager", function () {
                     endTime,
                     "Authorized Vault",
                     10,
+                    0,
+                    0,
+                    [],
                     ethers.ZeroAddress
                 )
             ).to.emit(dfsEscrowManager, "EscrowCreated");
@@ -1108,6 +4751,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600), 
                 "V", 
                 3,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -1140,6 +4786,9 @@ describe("DFSEscrowManager", function () {
                 (await time.latest()) + (2 * 24 * 3600),
                 "Entry Count Test",
                 100,
+                0,
+                0,
+                [],
                 ethers.ZeroAddress
             );
 
@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import {
+    StorageLayout,
+    findStorageConflicts,
+    getStorageLayout,
+    readLayoutSnapshot,
+} from "../scripts/storage_layout";
+
+// Storage layout checks for upgrading the proxied DFSEscrowManager
+describe("Storage Layout", function () {
+    let layout: StorageLayout;
+
+    before(async function () {
+        layout = await getStorageLayout("DFSEscrowManager");
+    });
+
+    // Deep copy, so each test can mutate the layout freely
+    function cloneLayout(): StorageLayout {
+        return JSON.parse(JSON.stringify(layout));
+    }
+
+    function escrowStructId(target: StorageLayout): string {
+        const escrowsVar = target.storage.find((item) => item.label === "escrows")!;
+        return target.types[escrowsVar.type].value!;
+    }
+
+    it("Should be compatible with the recorded layout of the deployed version", async function () {
+        const recorded = readLayoutSnapshot();
+
+        expect(recorded, "storage-layouts/DFSEscrowManager.json is missing").to.not.be.undefined;
+        expect(findStorageConflicts(recorded!, layout)).to.deep.equal([]);
+    });
+
+    it("Should give the delegatecalled modules the manager's layout", async function () {
+        for (const moduleName of ["DFSSettlementModule", "DFSEscrowSetupModule"]) {
+            const moduleLayout = await getStorageLayout(moduleName);
+
+            expect(moduleLayout.storage, moduleName).to.deep.equal(layout.storage);
+            expect(findStorageConflicts(layout, moduleLayout), moduleName).to.deep.equal([]);
+        }
+    });
+
+    it("Should accept appended state variables and struct members", async function () {
+        const upgraded = cloneLayout();
+        const last = upgraded.storage[upgraded.storage.length - 1];
+        upgraded.storage.push({ label: "newSetting", slot: String(BigInt(last.slot) + 1n), offset: 0, type: "t_uint256" });
+
+        const escrow = upgraded.types[escrowStructId(upgraded)];
+        const lastMember = escrow.members![escrow.members!.length - 1];
+        escrow.members!.push({ label: "newField", slot: String(BigInt(lastMember.slot) + 1n), offset: 0, type: "t_uint256" });
+
+        expect(findStorageConflicts(layout, upgraded)).to.deep.equal([]);
+    });
+
+    it("Should flag inserted, removed and retyped state variables and inserted struct members", async function () {
+        const inserted = cloneLayout();
+        inserted.storage.splice(6, 0, { label: "inserted", slot: "6", offset: 0, type: "t_uint256" });
+        expect(findStorageConflicts(layout, inserted)).to.include("tokenConfigs: replaced by inserted");
+
+        const removed = cloneLayout();
+        removed.storage.pop();
+        expect(findStorageConflicts(layout, removed)).to.have.lengthOf(1);
+
+        const retyped = cloneLayout();
+        retyped.storage.find((item) => item.label === "nextEscrowId")!.type = "t_uint128";
+        expect(findStorageConflicts(layout, retyped)).to.deep.equal([
+            "nextEscrowId: type changed from uint256 to uint128",
+        ]);
+
+        const reordered = cloneLayout();
+        const escrow = reordered.types[escrowStructId(reordered)];
+        escrow.members!.splice(0, 0, { label: "inserted", slot: "0", offset: 0, type: "t_uint256" });
+        expect(findStorageConflicts(layout, reordered)).to.include("escrows[].organizer: replaced by inserted");
+    });
+});